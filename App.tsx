@@ -2,142 +2,440 @@ import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import { DepthMeter } from './components/DepthMeter';
 import { CardCalibration } from './components/CardCalibration';
 import { TitleUnlockOverlay, TitleGallery } from './components/TitleUnlockOverlay';
-import { ACHIEVEMENTS } from './data/achievements';
-import { SplitRecord } from './types';
-
-// Constants for physics
-const FRICTION = 0.96; 
-const GRAVITY = 0.8; 
-const GRAVITY_DEPTH_SCALE = 0.0001;
-const GRAVITY_MAX = 3.0;
-const IDLE_GRAVITY_DELAY_MS = 2000;
-const MOVING_EPS = 0.1;
-const SCROLL_MULTIPLIER = 1.0; 
+import { RunHistory } from './components/RunHistory';
+import { GhostMarker } from './components/GhostOverlay';
+import { SplitSettings } from './components/SplitSettings';
+import { BackupPanel } from './components/BackupPanel';
+import { CalibrationProfiles, formatSignature } from './components/CalibrationProfiles';
+import { ScrollCalibration } from './components/ScrollCalibration';
+import { DailyChallengeCard } from './components/DailyChallenge';
+import { TimedModeCard, TimedModeResult, TimedModeStart } from './components/TimedMode';
+import { RunResults } from './components/RunResults';
+import { SharedResultView } from './components/ResultCard';
+import { Achievement, rarestAchievement } from './data/achievements';
+import {
+  GameMode,
+  GhostDelta,
+  LifetimeStats,
+  PxPerCm,
+  ResistanceType,
+  RunIntegrity,
+  RunRecord,
+  RunSample,
+  SimulationState,
+  TimedMode,
+  UnlockRecord,
+} from './types';
+import {
+  advance,
+  createInitialState,
+  elasticTension,
+  FIXED_STEP_MS,
+  GLITCH_FX_MS,
+  landRun,
+  SimulationInput,
+  SimulationOptions,
+} from './lib/simulation';
+import {
+  addRun,
+  createRunId,
+  deleteRun,
+  importRuns,
+  listRuns,
+  loadReplay,
+  MIN_ARCHIVE_RUN_MS,
+  replaceAllRuns,
+  runModeKey,
+  saveReplay,
+  setRunPinned,
+} from './lib/runHistory';
+import {
+  accumulateInput,
+  DEFAULT_INPUT_SCALE,
+  emptyInput,
+  gamepadDelta,
+  InputSource,
+  keyboardDelta,
+  normalizeWheelDelta,
+  ScrollSource,
+} from './lib/input';
+import {
+  advancePlayback,
+  createPlayback,
+  finishRecording,
+  parseReplay,
+  Playback,
+  recordInputs,
+  ReplayData,
+  ReplayRecorder,
+  serializeReplay,
+  startRecording,
+} from './lib/replay';
+import { downloadText } from './lib/download';
+import { parseRunsJson, serializeRunsCsv, serializeRunsJson } from './lib/runExport';
+import { appendSample, collectGhostDeltas, ghostDepthAt, pickGhostRun } from './lib/ghost';
+import {
+  DailyOutcome,
+  dailyOutcome,
+  DailyResult,
+  dailyRulesFor,
+  dailyStreak,
+  localDateKey,
+  recordDailyAttempt,
+} from './lib/daily';
+import {
+  COUNTDOWN_SECONDS,
+  findModeBest,
+  isBetterScore,
+  isTimedMode,
+  ModeBest,
+  recordModeBest,
+  timedModeLandedScore,
+  timedModeMilestoneCm,
+  timedModeOptions,
+  timedModeOutcome,
+} from './lib/timedModes';
+import { parseResultHash, SharedResult } from './lib/resultCard';
+import {
+  createIntegrityTracker,
+  integrityOf,
+  observeInput,
+  observeState,
+  resetIntegrityTracker,
+} from './lib/integrity';
+import {
+  bestPossibleTime,
+  achievementMilestonesCm,
+  bestSegments,
+  DEFAULT_SPLIT_DEFINITION,
+  parseSplitDefinitionFile,
+  resolveMilestones,
+  serializeSplitDefinition,
+  SplitDefinition,
+  sumOfBest,
+} from './lib/splits';
+import {
+  getSave,
+  loadSave,
+  onStorageError,
+  PersistedRunState,
+  replaceSave,
+  SaveData,
+  saveHighScore,
+  saveDaily,
+  saveLifetime,
+  saveModeBests,
+  saveRunState,
+  saveUnlocks,
+  StorageErrorKind,
+  updateSettings,
+} from './lib/storage';
+import {
+  Backup,
+  createBackupCode,
+  mergeSave,
+  parseBackupCode,
+  parseBackupFile,
+  RestoreMode,
+  serializeBackupFile,
+} from './lib/backup';
+import {
+  AchievementContext,
+  EMPTY_LIFETIME,
+  EMPTY_RUN_STATS,
+  findNewUnlocks,
+  recordFinishedRun,
+  runStatsOf,
+} from './lib/achievements';
+import {
+  AchievementPack,
+  BUILTIN_MANIFEST_ENTRY,
+  BUILTIN_PACK,
+  BUILTIN_PACK_ID,
+  isPackAvailable,
+  loadAchievementPack,
+  loadPackManifest,
+  PackManifestEntry,
+  packUnlocks,
+  unlockKeyFor,
+} from './lib/achievementPacks';
+import { errorMessage, I18n, I18nContext, LocaleSetting, localized, Messages, MESSAGES, resolveLocale } from './lib/i18n';
+import { createUnitFormatter, formatSignedDistance, UnitSystem } from './lib/format';
+import {
+  adoptLegacyProfile,
+  applyProfileTo,
+  CalibrationProfile,
+  DisplaySignature,
+  findProfile,
+  readDisplaySignature,
+  removeProfile,
+  signatureKey,
+  upsertProfile,
+} from './lib/calibrationProfiles';
+
 const DEFAULT_LINE_HEIGHT_PX = 16;
 const MAX_VELOCITY = 3000; // Visual normalization only (not a hard cap)
 // Default: assume 96 CSS px = 1 inch = 2.54 cm → ~37.8 px per cm
 const DEFAULT_PX_PER_CM = 96 / 2.54;
+// タブが裏に回っていた間のゲームパッド入力をまとめて流し込まないように
+const MAX_GAMEPAD_FRAME_MS = 100;
+// 日付が変わったらデイリーチャレンジを切り替える
+const DATE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// フォーム部品の操作中（Space でボタンを押す、矢印でセレクトを選ぶ等）はゲームの入力にしない
+const isFormControl = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON', 'SUMMARY'].includes(target.tagName));
+
+// 表示する文言は言語に合わせてレンダリング時に組み立てる
+type PackError =
+  | { kind: 'missing' | 'outOfSeason'; detail: string } // パック id / パック名
+  | { kind: 'manifestError' | 'loadError'; error: unknown };
+
+const packErrorMessage = (packError: PackError, t: Messages): string =>
+  'detail' in packError
+    ? t.packs[packError.kind](packError.detail)
+    : t.packs[packError.kind](errorMessage(packError.error, t));
+
+// 時間制モードの進行: スタート待ち → カウントダウン → ラン → 終了画面
+type TimedPhase = 'ready' | 'countdown' | 'live' | 'ended';
+
+interface TimedResult {
+  mode: TimedMode;
+  score: number | null; // null = 記録なし
+  best: number | null; // このランより前の自己ベスト
+  isNewBest: boolean;
+}
 
-// Milestones for splits (in cm)
-const MILESTONES_CM = [100, 500, 1000, 5000, 10000]; // 1m, 5m, 10m, 50m, 100m
-const UNLOCKED_TITLES_STORAGE_KEY = 'immovable_unlocked_titles_v1';
-const RUN_STATE_STORAGE_KEY = 'immovable_run_state_v1';
-
-interface PersistedRunState {
-  depth: number;
-  velocity: number;
-  runTime: number;
-  splits: SplitRecord[];
-  passedMilestones: number[];
-  aveSpeed: number;
-  maxSpeed: number;
-  totalDistance: number;
-  maxAccel: number;
-  currentSpeedMps: number;
-  scrollCount: number;
-  unlockedTitles: string[];
-  savedAt: number;
+// 着地したランの結果画面
+interface RunResult {
+  record: RunRecord;
+  titles: Achievement[]; // このランで解放した称号
 }
 
 const App: React.FC = () => {
-  // Game State
-  const [depth, setDepth] = useState(0); // in Pixels
-  const [velocity, setVelocity] = useState(0);
-  const [highScore, setHighScore] = useState(0); // in Pixels
-  const [runTime, setRunTime] = useState(0); // ms
-  const [splits, setSplits] = useState<SplitRecord[]>([]);
-  // 追加: 平均速度・最大速度・加速度・スクロールレベル・スクロール指数
-  const [aveSpeed, setAveSpeed] = useState(0); // m/s
-  const [maxSpeed, setMaxSpeed] = useState(0); // m/s
-  const [totalDistance, setTotalDistance] = useState(0); // m
-  const [maxAccel, setMaxAccel] = useState(0); // m/s^2
-  const [currentSpeedMps, setCurrentSpeedMps] = useState(0); // m/s
-  const [scrollCount, setScrollCount] = useState(0); // 回数
+  // Game State (snapshot of the simulation for rendering)
+  const [sim, setSim] = useState<SimulationState>(() => createInitialState());
   const [viewportHeightPx, setViewportHeightPx] = useState(0);
   const [inertiaEnabled, setInertiaEnabled] = useState(true);
+  const [resistance, setResistance] = useState<ResistanceType>(ResistanceType.STATIC);
   const [lineHeightPx, setLineHeightPx] = useState(DEFAULT_LINE_HEIGHT_PX);
 
   // Calibration system
   const [autoPxPerCm, setAutoPxPerCm] = useState(DEFAULT_PX_PER_CM);
-  const [calibratedPxPerCm, setCalibratedPxPerCm] = useState<number | null>(null);
+  const [calibrationProfiles, setCalibrationProfiles] = useState<CalibrationProfile[]>([]);
+  const [displaySignature, setDisplaySignature] = useState<DisplaySignature>(() => readDisplaySignature());
+  const [dismissedCalibrationPrompts, setDismissedCalibrationPrompts] = useState<Set<string>>(() => new Set());
+  const displayKey = signatureKey(displaySignature);
+  const currentProfile = useMemo(() => findProfile(calibrationProfiles, displayKey), [calibrationProfiles, displayKey]);
+  const calibratedPxPerCm = currentProfile?.pxPerCm ?? null;
+  const inputScale = currentProfile?.inputScale ?? DEFAULT_INPUT_SCALE;
   const [showCalibration, setShowCalibration] = useState(false);
-  const [titleToast, setTitleToast] = useState<string | null>(null);
+  const [showScrollCalibration, setShowScrollCalibration] = useState(false);
+  const [titleToast, setTitleToast] = useState<Achievement | null>(null);
   const [showTitleGallery, setShowTitleGallery] = useState(false);
-  const [unlockedTitles, setUnlockedTitles] = useState<Set<string>>(new Set());
+  const [unlocks, setUnlocks] = useState<Map<string, UnlockRecord>>(new Map());
   const [pendingResume, setPendingResume] = useState<PersistedRunState | null>(null);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>([]);
+  const [showRunHistory, setShowRunHistory] = useState(false);
+  const [watchingReplay, setWatchingReplay] = useState<ReplayData | null>(null);
+  const [replayFinished, setReplayFinished] = useState(false);
+  const [ghostEnabled, setGhostEnabled] = useState(false);
+  const [currentSamples, setCurrentSamples] = useState<RunSample[]>([]);
+  const [runIntegrity, setRunIntegrity] = useState<RunIntegrity | null>(null);
+  const [ghostDeltas, setGhostDeltas] = useState<GhostDelta[]>([]);
+  const [splitDefinition, setSplitDefinition] = useState<SplitDefinition>(DEFAULT_SPLIT_DEFINITION);
+  const [saveLoaded, setSaveLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<StorageErrorKind | 'recovered' | null>(null);
+  const [showBackup, setShowBackup] = useState(false);
+  const [lifetime, setLifetime] = useState<LifetimeStats>(EMPTY_LIFETIME);
+  const [achievementPackId, setAchievementPackId] = useState(BUILTIN_PACK_ID);
+  const [achievementPack, setAchievementPack] = useState<AchievementPack>(BUILTIN_PACK);
+  const [packManifest, setPackManifest] = useState<PackManifestEntry[] | null>(null); // null = 読み込み中
+  const [packError, setPackError] = useState<PackError | null>(null);
+  const [localeSetting, setLocaleSetting] = useState<LocaleSetting>('auto');
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
+  const [gameMode, setGameMode] = useState<GameMode>('free');
+  const [todayKey, setTodayKey] = useState(() => localDateKey(new Date()));
+  const [dailyResults, setDailyResults] = useState<DailyResult[]>([]);
+  const [modeBests, setModeBests] = useState<ModeBest[]>([]);
+  const [timedPhase, setTimedPhase] = useState<TimedPhase>('ready');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [timedResult, setTimedResult] = useState<TimedResult | null>(null);
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [sharedResult, setSharedResult] = useState<SharedResult | 'invalid' | null>(null);
+  const i18n = useMemo<I18n>(() => {
+    const locale = resolveLocale(localeSetting);
+    const t = MESSAGES[locale];
+    return { locale, t, units: createUnitFormatter(unitSystem, t.units) };
+  }, [localeSetting, unitSystem]);
+  const { t, locale, units } = i18n;
 
-  // 速度・加速度計測用
-  const lastVelocity = useRef(0);
+  // Refs for physics loop to avoid closure staleness
+  const simRef = useRef<SimulationState>(sim);
+  const pendingInputRef = useRef<SimulationInput>(emptyInput());
+  const pendingRawInputsRef = useRef<{ source: InputSource; delta: number }[]>([]);
+  const tickRef = useRef(0);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const samplesRef = useRef<RunSample[]>([]);
+  const integrityRef = useRef(createIntegrityTracker());
+  const dailyResultsRef = useRef<DailyResult[]>([]);
+  const dailyRunRef = useRef<string | null>(null); // 成否が未記録のデイリーのラン（日付キー）
+  const modeBestsRef = useRef<ModeBest[]>([]);
+  const timedPhaseRef = useRef<TimedPhase>('ready'); // ループからは state の反映を待たずに読む
+  const goTickRef = useRef(0); // GO を出した時点のステップ数
+  const raceStartDelayRef = useRef(0); // GO から離陸までの時間 (ms)。ターゲットレースのタイムに足す
+  const runTitlesRef = useRef<Achievement[]>([]);
+  const ghostDeltasRef = useRef<GhostDelta[]>([]);
   const lastTimeRef = useRef<number | null>(null);
-  const totalDistanceRef = useRef(0); // meters
-  const inputDeltaRef = useRef(0);
-  const lastScrollDir = useRef(0);
+  const accumulatorRef = useRef(0);
   const titleTimeoutRef = useRef<number | null>(null);
-  const unlockedTitlesRef = useRef<Set<string>>(new Set());
-  const lastMoveTimeRef = useRef<number | null>(null);
-  const runTimeRef = useRef(0);
-  const splitsRef = useRef<SplitRecord[]>([]);
-  const aveSpeedRef = useRef(0);
-  const maxSpeedRef = useRef(0);
-  const maxAccelRef = useRef(0);
-  const totalDistanceStatRef = useRef(0);
-  const currentSpeedMpsRef = useRef(0);
-  const scrollCountRef = useRef(0);
+  const unlocksRef = useRef<Map<string, UnlockRecord>>(new Map());
+  const lifetimeRef = useRef<LifetimeStats>(EMPTY_LIFETIME);
+  const achievementPackRef = useRef<AchievementPack>(BUILTIN_PACK);
   const lastRunPersistAtRef = useRef(0);
-
-  // Refs for physics loop to avoid closure staleness
-  const depthRef = useRef(0);
-  const velocityRef = useRef(0);
+  const savedHighScoreRef = useRef(0); // 保存済みの最高記録 (px)
   const requestRef = useRef<number>();
-  
-  // Timing Refs
-  const runStartTimeRef = useRef<number | null>(null);
-  const passedMilestonesRef = useRef<Set<number>>(new Set());
+
+  // 保存データを画面の状態に反映する（起動時の読み込みとバックアップ復元で共通）
+  const applySave = useCallback((data: SaveData) => {
+    simRef.current = { ...simRef.current, highScore: data.highScorePx };
+    savedHighScoreRef.current = data.highScorePx;
+    setSim(simRef.current);
+    setInertiaEnabled(data.settings.inertiaEnabled);
+    setResistance(data.settings.resistance);
+    setGhostEnabled(data.settings.ghostEnabled);
+    setSplitDefinition(data.settings.splitDefinition);
+    setCalibrationProfiles(adoptLegacyProfile(data.settings.calibrationProfiles, readDisplaySignature()));
+    setAchievementPackId(data.settings.achievementPackId);
+    setLocaleSetting(data.settings.locale);
+    setUnitSystem(data.settings.unitSystem);
+    setGameMode(data.settings.gameMode);
+    dailyResultsRef.current = data.daily;
+    setDailyResults(data.daily);
+    modeBestsRef.current = data.modeBests;
+    setModeBests(data.modeBests);
+    unlocksRef.current = new Map(data.unlocks.map((record) => [record.key, record]));
+    setUnlocks(new Map(unlocksRef.current));
+    lifetimeRef.current = data.lifetime;
+    setLifetime(data.lifetime);
+  }, []);
 
   // Load persisted settings
   useEffect(() => {
-    const saved = localStorage.getItem('immovable_highscore_px');
-    if (saved) setHighScore(parseInt(saved, 10));
-    const savedInertia = localStorage.getItem('immovable_inertia_enabled');
-    if (savedInertia === 'true' || savedInertia === 'false') {
-      setInertiaEnabled(savedInertia === 'true');
-    }
-    const savedCal = localStorage.getItem('immovable_calibrated_px_per_cm');
-    if (savedCal) {
-      const v = parseFloat(savedCal);
-      if (Number.isFinite(v) && v > 0) setCalibratedPxPerCm(v);
-    }
+    const { data, recovered } = loadSave();
+    applySave(data);
+    if (data.runState) setPendingResume(data.runState);
+    if (recovered) setStorageError('recovered');
+    setSaveLoaded(true);
+  }, [applySave]);
 
-    try {
-      const savedTitles = localStorage.getItem(UNLOCKED_TITLES_STORAGE_KEY);
-      if (savedTitles) {
-        const parsed = JSON.parse(savedTitles);
-        if (Array.isArray(parsed)) {
-          const restored = new Set(parsed.filter((item) => typeof item === 'string'));
-          unlockedTitlesRef.current = restored;
-          setUnlockedTitles(new Set(restored));
-        }
-      }
-    } catch {
-      localStorage.removeItem(UNLOCKED_TITLES_STORAGE_KEY);
-    }
+  useEffect(() => onStorageError((error) => setStorageError(error.kind)), []);
 
-    try {
-      const savedRunState = localStorage.getItem(RUN_STATE_STORAGE_KEY);
-      if (savedRunState) {
-        const parsed = JSON.parse(savedRunState) as PersistedRunState;
-        if (parsed && Number.isFinite(parsed.depth) && parsed.depth > 0) {
-          setPendingResume(parsed);
-        }
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // 読み込み前の初期値で保存データを上書きしないよう、読み込み完了後から書き込む
+  useEffect(() => {
+    if (!saveLoaded) return;
+    updateSettings({
+      inertiaEnabled,
+      resistance,
+      ghostEnabled,
+      calibrationProfiles,
+      splitDefinition,
+      achievementPackId,
+      locale: localeSetting,
+      unitSystem,
+      gameMode,
+    });
+  }, [
+    saveLoaded,
+    inertiaEnabled,
+    resistance,
+    ghostEnabled,
+    calibrationProfiles,
+    splitDefinition,
+    achievementPackId,
+    localeSetting,
+    unitSystem,
+    gameMode,
+  ]);
+
+  // 共有リンク (#result=...) で開かれたら、受け取った結果を表示する
+  useEffect(() => {
+    const readHash = () => {
+      try {
+        setSharedResult(parseResultHash(window.location.hash));
+      } catch {
+        setSharedResult('invalid');
       }
-    } catch {
-      localStorage.removeItem(RUN_STATE_STORAGE_KEY);
-    }
+    };
+    readHash();
+    window.addEventListener('hashchange', readHash);
+    return () => window.removeEventListener('hashchange', readHash);
+  }, []);
+
+  const handleCloseSharedResult = useCallback(() => {
+    setSharedResult(null);
+    // 再読み込みでまた開かないようにハッシュを消す
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setTodayKey(localDateKey(new Date())), DATE_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('immovable_inertia_enabled', inertiaEnabled ? 'true' : 'false');
-  }, [inertiaEnabled]);
+    loadPackManifest()
+      .then(setPackManifest)
+      .catch((e: unknown) => {
+        setPackManifest([BUILTIN_MANIFEST_ENTRY]);
+        setPackError({ kind: 'manifestError', error: e });
+      });
+  }, []);
+
+  // 選択中の称号パックを読み込む。見つからない・期間外・壊れている場合は組み込みパックに戻す
+  useEffect(() => {
+    if (packManifest === null) return;
+    const entry = packManifest.find((candidate) => candidate.id === achievementPackId);
+    const fallback = (error: PackError) => {
+      setPackError(error);
+      setAchievementPackId(BUILTIN_PACK_ID);
+    };
+    if (!entry) {
+      fallback({ kind: 'missing', detail: achievementPackId });
+      return;
+    }
+    if (!isPackAvailable(entry)) {
+      fallback({ kind: 'outOfSeason', detail: entry.name });
+      return;
+    }
+    let cancelled = false;
+    loadAchievementPack(entry)
+      .then((pack) => {
+        if (cancelled) return;
+        achievementPackRef.current = pack;
+        setAchievementPack(pack);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) fallback({ kind: 'loadError', error: e });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [achievementPackId, packManifest]);
+
+  // 読み込み失敗の表示は、組み込みパックに戻った後も次にパックを選び直すまで残す
+  const handleAchievementPackChange = useCallback((id: string) => {
+    setPackError(null);
+    setAchievementPackId(id);
+  }, []);
+
+  const activePackUnlocks = useMemo(() => packUnlocks(unlocks, achievementPack), [unlocks, achievementPack]);
 
   // Auto-detect CSS px per cm using the browser's CSS cm unit
   // This is approximate (CSS cm != physical cm) but a good starting point
@@ -155,7 +453,12 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    const updateViewport = () => setViewportHeightPx(window.innerHeight || 0);
+    const updateViewport = () => {
+      setViewportHeightPx(window.innerHeight || 0);
+      // モニターの切り替えやズームで画面の特徴が変わったら、その画面の補正値に切り替える
+      const next = readDisplaySignature();
+      setDisplaySignature((prev) => (signatureKey(prev) === signatureKey(next) ? prev : next));
+    };
     updateViewport();
     window.addEventListener('resize', updateViewport);
     return () => window.removeEventListener('resize', updateViewport);
@@ -172,26 +475,57 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // pxToCm: use calibrated value if available, else auto-detected CSS cm
+  // pxToCm: use calibrated value if available, else auto-detected CSS cm.
+  // 深度は縦方向に測るので縦の補正値を使う
   const pxToCm = useMemo(() => {
-    const pxPerCm = calibratedPxPerCm ?? autoPxPerCm;
+    const pxPerCm = calibratedPxPerCm?.y ?? autoPxPerCm;
     return 1 / pxPerCm;
   }, [calibratedPxPerCm, autoPxPerCm]);
 
   // Calibration handlers
-  const handleCalibration = useCallback((pxPerCm: number) => {
-    setCalibratedPxPerCm(pxPerCm);
-    localStorage.setItem('immovable_calibrated_px_per_cm', pxPerCm.toString());
+  const handleCalibration = useCallback((pxPerCm: PxPerCm) => {
+    setCalibrationProfiles((profiles) => upsertProfile(profiles, displaySignature, { pxPerCm }));
     setShowCalibration(false);
-  }, []);
+  }, [displaySignature]);
 
   const handleResetCalibration = useCallback(() => {
-    setCalibratedPxPerCm(null);
-    localStorage.removeItem('immovable_calibrated_px_per_cm');
+    setCalibrationProfiles((profiles) => upsertProfile(profiles, displaySignature, { pxPerCm: null }));
+  }, [displaySignature]);
+
+  const handleScrollCalibration = useCallback((source: ScrollSource, scale: number) => {
+    setCalibrationProfiles((profiles) => {
+      const previous = findProfile(profiles, signatureKey(displaySignature))?.inputScale ?? DEFAULT_INPUT_SCALE;
+      return upsertProfile(profiles, displaySignature, { inputScale: { ...previous, [source]: scale } });
+    });
+    setShowScrollCalibration(false);
+  }, [displaySignature]);
+
+  const handleResetScrollCalibration = useCallback(() => {
+    setCalibrationProfiles((profiles) => upsertProfile(profiles, displaySignature, { inputScale: null }));
+  }, [displaySignature]);
+
+  const handleApplyProfileHere = useCallback((profile: CalibrationProfile) => {
+    setCalibrationProfiles((profiles) => applyProfileTo(profiles, profile, displaySignature));
+  }, [displaySignature]);
+
+  const handleDeleteProfile = useCallback((key: string) => {
+    setCalibrationProfiles((profiles) => removeProfile(profiles, key));
   }, []);
 
-  const showTitleToast = useCallback((label: string) => {
-    setTitleToast(label);
+  const dismissCalibrationPrompt = useCallback(() => {
+    setDismissedCalibrationPrompts((keys) => new Set(keys).add(displayKey));
+  }, [displayKey]);
+
+  // 他の画面では補正済みなのに、今の画面の補正値が無いときだけ促す（初めての人には出さない）
+  const showCalibrationPrompt =
+    saveLoaded &&
+    !showCalibration &&
+    calibratedPxPerCm === null &&
+    calibrationProfiles.some((profile) => profile.pxPerCm !== null) &&
+    !dismissedCalibrationPrompts.has(displayKey);
+
+  const showTitleToast = useCallback((achievement: Achievement) => {
+    setTitleToast(achievement);
     if (titleTimeoutRef.current !== null) {
       window.clearTimeout(titleTimeoutRef.current);
     }
@@ -202,108 +536,400 @@ const App: React.FC = () => {
   }, []);
 
   const persistRunState = useCallback(() => {
-    if (depthRef.current <= 0) return;
+    const state = simRef.current;
+    if (state.virtualDepth <= 0) return;
 
     const payload: PersistedRunState = {
-      depth: depthRef.current,
-      velocity: velocityRef.current,
-      runTime: runTimeRef.current,
-      splits: splitsRef.current,
-      passedMilestones: Array.from(passedMilestonesRef.current),
-      aveSpeed: aveSpeedRef.current,
-      maxSpeed: maxSpeedRef.current,
-      totalDistance: totalDistanceStatRef.current,
-      maxAccel: maxAccelRef.current,
-      currentSpeedMps: currentSpeedMpsRef.current,
-      scrollCount: scrollCountRef.current,
-      unlockedTitles: Array.from(unlockedTitlesRef.current),
+      depth: state.virtualDepth,
+      velocity: state.velocity,
+      runTime: state.runTime,
+      maxDepth: state.maxDepth,
+      splits: state.splits,
+      passedMilestones: state.passedMilestones,
+      aveSpeed: state.aveSpeed,
+      maxSpeed: state.maxSpeed,
+      totalDistance: state.totalDistance,
+      maxAccel: state.maxAccel,
+      currentSpeedMps: state.currentSpeedMps,
+      scrollCount: state.scrollCount,
+      unlockedTitles: Array.from(unlocksRef.current.keys()),
       savedAt: Date.now(),
     };
+    saveRunState(payload);
+  }, []);
 
-    try {
-      localStorage.setItem(RUN_STATE_STORAGE_KEY, JSON.stringify(payload));
-    } catch {
-      // ignore quota/storage errors
+  // 最高記録は更新のたびではなく、途中セーブと同じ間隔と着地したときに書く
+  const persistHighScore = useCallback(() => {
+    const { highScore } = simRef.current;
+    if (highScore > savedHighScoreRef.current && saveHighScore(highScore)) {
+      savedHighScoreRef.current = highScore;
     }
   }, []);
 
   const clearRunState = useCallback(() => {
-    localStorage.removeItem(RUN_STATE_STORAGE_KEY);
+    saveRunState(null);
   }, []);
 
   const handleResumeRun = useCallback(() => {
     if (!pendingResume) return;
 
-    const now = performance.now();
-
-    depthRef.current = Math.max(0, pendingResume.depth);
-    velocityRef.current = pendingResume.velocity;
-    runStartTimeRef.current = now - Math.max(0, pendingResume.runTime);
-    lastTimeRef.current = null;
-    lastMoveTimeRef.current = now;
-
     const restoredSplits = Array.isArray(pendingResume.splits) ? pendingResume.splits : [];
     const restoredMilestones = Array.isArray(pendingResume.passedMilestones) ? pendingResume.passedMilestones : [];
     const restoredTitles = Array.isArray(pendingResume.unlockedTitles)
       ? pendingResume.unlockedTitles.filter((key) => typeof key === 'string')
       : [];
 
-    passedMilestonesRef.current = new Set(restoredMilestones);
-    splitsRef.current = restoredSplits;
-    runTimeRef.current = Math.max(0, pendingResume.runTime);
-    aveSpeedRef.current = Math.max(0, pendingResume.aveSpeed || 0);
-    maxSpeedRef.current = Math.max(0, pendingResume.maxSpeed || 0);
-    totalDistanceRef.current = Math.max(0, pendingResume.totalDistance || 0);
-    totalDistanceStatRef.current = Math.max(0, pendingResume.totalDistance || 0);
-    maxAccelRef.current = Math.max(0, pendingResume.maxAccel || 0);
-    currentSpeedMpsRef.current = Math.max(0, pendingResume.currentSpeedMps || 0);
-    scrollCountRef.current = Math.max(0, pendingResume.scrollCount || 0);
-    unlockedTitlesRef.current = new Set(restoredTitles);
-
-    setDepth(depthRef.current);
-    setVelocity(Math.abs(velocityRef.current));
-    setRunTime(runTimeRef.current);
-    setSplits(restoredSplits);
-    setAveSpeed(aveSpeedRef.current);
-    setMaxSpeed(maxSpeedRef.current);
-    setTotalDistance(totalDistanceStatRef.current);
-    setMaxAccel(maxAccelRef.current);
-    setCurrentSpeedMps(currentSpeedMpsRef.current);
-    setScrollCount(scrollCountRef.current);
-    setUnlockedTitles(new Set(unlockedTitlesRef.current));
-
-    try {
-      localStorage.setItem(UNLOCKED_TITLES_STORAGE_KEY, JSON.stringify(Array.from(unlockedTitlesRef.current)));
-    } catch {
-      // ignore
-    }
+    simRef.current = {
+      ...simRef.current,
+      virtualDepth: Math.max(0, pendingResume.depth),
+      velocity: pendingResume.velocity,
+      running: true,
+      runTime: Math.max(0, pendingResume.runTime),
+      maxDepth: Math.max(pendingResume.depth, pendingResume.maxDepth || 0),
+      idleMs: 0,
+      splits: restoredSplits,
+      passedMilestones: restoredMilestones,
+      aveSpeed: Math.max(0, pendingResume.aveSpeed || 0),
+      maxSpeed: Math.max(0, pendingResume.maxSpeed || 0),
+      totalDistance: Math.max(0, pendingResume.totalDistance || 0),
+      maxAccel: Math.max(0, pendingResume.maxAccel || 0),
+      currentSpeedMps: Math.max(0, pendingResume.currentSpeedMps || 0),
+      scrollCount: Math.max(0, pendingResume.scrollCount || 0),
+      // 中断前に重力が効いたかは分からないので、効いたものとして扱う
+      gravityTouched: true,
+      gravityFreeDepth: 0,
+    };
+    lastTimeRef.current = null;
+    accumulatorRef.current = 0;
+    samplesRef.current = [{ t: simRef.current.runTime, depthCm: simRef.current.virtualDepth * pxToCm }];
+    ghostDeltasRef.current = [];
+    setCurrentSamples(samplesRef.current.slice());
+    setGhostDeltas([]);
+    // 途中セーブ時点の称号で、記録に無いものがあれば補う（解放日時は不明）
+    restoredTitles.forEach((key) => {
+      if (!unlocksRef.current.has(key)) {
+        unlocksRef.current.set(key, { key, unlockedAt: 0, runTimeMs: null, mode: null });
+      }
+    });
+
+    setSim(simRef.current);
+    setUnlocks(new Map(unlocksRef.current));
+    saveUnlocks(unlocksRef.current.values());
 
     setPendingResume(null);
-  }, [pendingResume]);
+  }, [pendingResume, pxToCm]);
 
   const handleStartFresh = useCallback(() => {
     clearRunState();
     setPendingResume(null);
   }, [clearRunState]);
 
-  const checkTitleUnlocks = useCallback((currentM: number) => {
-    const unlockOnce = (key: string, label: string) => {
-      if (unlockedTitlesRef.current.has(key)) return;
-      unlockedTitlesRef.current.add(key);
-      setUnlockedTitles(new Set(unlockedTitlesRef.current));
-      try {
-        localStorage.setItem(UNLOCKED_TITLES_STORAGE_KEY, JSON.stringify(Array.from(unlockedTitlesRef.current)));
-      } catch {
-        // ignore quota/storage errors
-      }
-      showTitleToast(label);
+  const refreshRunHistory = useCallback(() => {
+    listRuns()
+      .then(setRunHistory)
+      .catch(() => {
+        // IndexedDB unavailable (private mode etc.): history stays empty
+      });
+  }, []);
+
+  useEffect(() => {
+    refreshRunHistory();
+  }, [refreshRunHistory]);
+
+  const dailyRules = useMemo(() => (gameMode === 'daily' ? dailyRulesFor(todayKey) : null), [gameMode, todayKey]);
+  const timedMode = isTimedMode(gameMode) ? gameMode : null;
+  const activeResistance = dailyRules?.resistance ?? resistance;
+  const activeInertia = dailyRules?.inertiaEnabled ?? inertiaEnabled;
+  const modeKey = runModeKey({
+    resistance: activeResistance,
+    inertiaEnabled: activeInertia,
+    daily: dailyRules?.dateKey,
+    gameMode: timedMode ?? undefined,
+  });
+
+  const milestonesCm = useMemo(() => {
+    const resolved = resolveMilestones(splitDefinition, achievementPack.achievements);
+    // デイリーチャレンジの目標深度・時間制モードの判定の深さまでのタイムはスプリットの計測をそのまま使う
+    const extra = [dailyRules?.targetCm ?? null, timedMode && timedModeMilestoneCm(timedMode)].filter(
+      (cm): cm is number => cm !== null && !resolved.includes(cm)
+    );
+    return extra.length > 0 ? [...resolved, ...extra].sort((a, b) => a - b) : resolved;
+  }, [splitDefinition, achievementPack, dailyRules, timedMode]);
+
+  // Ghost checkpoints: every split milestone and every achievement height of the active pack (cm)
+  const ghostCheckpointsCm = useMemo(
+    () =>
+      Array.from(new Set([...milestonesCm, ...achievementMilestonesCm(achievementPack.achievements)])).sort(
+        (a, b) => a - b
+      ),
+    [milestonesCm, achievementPack]
+  );
+
+  const simOptions = useMemo<SimulationOptions>(() => ({
+    inertiaEnabled: activeInertia,
+    pxToCm,
+    milestonesCm,
+    resistance: activeResistance,
+    ...(dailyRules && { gravityMultiplier: dailyRules.gravityMultiplier, seed: dailyRules.seed }),
+    ...(timedMode && timedModeOptions(timedMode)),
+  }), [activeInertia, pxToCm, milestonesCm, activeResistance, dailyRules, timedMode]);
+
+  // Sum of best: fastest segment between consecutive milestones across runs of the current mode
+  const splitSegments = useMemo(
+    () => bestSegments(milestonesCm, runHistory.filter((run) => runModeKey(run) === modeKey)),
+    [milestonesCm, runHistory, modeKey]
+  );
+  const sumOfBestMs = useMemo(() => sumOfBest(splitSegments), [splitSegments]);
+  const bestPossibleMs = useMemo(
+    () => bestPossibleTime(milestonesCm, splitSegments, sim.splits),
+    [milestonesCm, splitSegments, sim.splits]
+  );
+
+  // Ghost: personal best of the current mode, raced by depth-over-time
+  const ghostRun = useMemo(
+    () => (ghostEnabled ? pickGhostRun(runHistory, modeKey) : null),
+    [ghostEnabled, runHistory, modeKey]
+  );
+
+  const buildRunRecord = useCallback((state: SimulationState, samples: RunSample[]): RunRecord => ({
+    id: createRunId(),
+    finishedAt: Date.now(),
+    maxDepthCm: state.maxDepth * pxToCm,
+    runTime: state.runTime,
+    splits: state.splits,
+    aveSpeed: state.aveSpeed,
+    maxSpeed: state.maxSpeed,
+    totalDistance: state.totalDistance,
+    maxAccel: state.maxAccel,
+    scrollCount: state.scrollCount,
+    resistance: activeResistance,
+    inertiaEnabled: activeInertia,
+    pxPerCm: 1 / pxToCm,
+    calibrated: calibratedPxPerCm !== null,
+    pinned: false,
+    samples,
+    integrity: integrityOf(integrityRef.current),
+    ...(dailyRules && { daily: dailyRules.dateKey }),
+    ...(timedMode && { gameMode: timedMode }),
+  }), [pxToCm, activeResistance, activeInertia, calibratedPxPerCm, dailyRules, timedMode]);
+
+  // デイリーチャレンジは1ランにつき1回だけ、成否が決まった時点で記録する
+  const recordDaily = useCallback((dateKey: string, outcome: DailyOutcome) => {
+    dailyRunRef.current = null;
+    dailyResultsRef.current = recordDailyAttempt(dailyResultsRef.current, dateKey, outcome);
+    setDailyResults(dailyResultsRef.current);
+    saveDaily(dailyResultsRef.current);
+  }, []);
+
+  const changeTimedPhase = useCallback((phase: TimedPhase) => {
+    if (phase === 'live') goTickRef.current = tickRef.current;
+    timedPhaseRef.current = phase;
+    setTimedPhase(phase);
+  }, []);
+
+  // モードやルールが変わったらスタート待ちに戻す
+  useEffect(() => {
+    changeTimedPhase('ready');
+    setCountdown(null);
+    setTimedResult(null);
+  }, [modeKey, changeTimedPhase]);
+
+  // 3, 2, 1 と数えて 0 でスタート。GO の表示は1秒だけ残す
+  useEffect(() => {
+    if (countdown === null) return;
+    const timer = window.setTimeout(() => {
+      if (countdown === 1) changeTimedPhase('live');
+      setCountdown(countdown > 0 ? countdown - 1 : null);
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [countdown, changeTimedPhase]);
+
+  const handleTimedStart = useCallback(() => {
+    // スタート前から浮いているランは記録せずに地面に戻し、全員同じ条件で数え始める
+    if (simRef.current.running) {
+      simRef.current = landRun(simRef.current);
+      pendingInputRef.current = emptyInput();
+      pendingRawInputsRef.current = [];
+      recorderRef.current = null;
+      samplesRef.current = [];
+      setSim(simRef.current);
+      setCurrentSamples([]);
+      clearRunState();
+    }
+    setTimedResult(null);
+    setRunResult(null);
+    changeTimedPhase('countdown');
+    setCountdown(COUNTDOWN_SECONDS);
+  }, [changeTimedPhase, clearRunState]);
+
+  const handleTimedResultClose = useCallback(() => {
+    setTimedResult(null);
+    changeTimedPhase('ready');
+  }, [changeTimedPhase]);
+
+  // 時間制モードのランが終わったら自己ベストを更新して終了画面を出す
+  const recordTimedResult = useCallback((mode: TimedMode, key: string, score: number | null) => {
+    const best = findModeBest(modeBestsRef.current, key)?.score ?? null;
+    const isNewBest = score !== null && isBetterScore(mode, score, best);
+    if (score !== null && isNewBest) {
+      modeBestsRef.current = recordModeBest(modeBestsRef.current, key, mode, score);
+      setModeBests(modeBestsRef.current);
+      saveModeBests(modeBestsRef.current);
+    }
+    changeTimedPhase('ended');
+    setTimedResult({ mode, score, best, isNewBest });
+  }, [changeTimedPhase]);
+
+  const archiveRun = useCallback((run: RunRecord, replay: ReplayData | null) => {
+    const record: RunRecord = { ...run, hasReplay: replay !== null };
+    addRun(record)
+      .then(() => (replay ? saveReplay(record.id, serializeReplay(replay)) : undefined))
+      .then(refreshRunHistory)
+      .catch(() => {
+        // ignore storage errors
+      });
+  }, [refreshRunHistory]);
+
+  const handleExportRuns = useCallback((runs: RunRecord[], format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadText(`immovable-runs-${stamp}.json`, serializeRunsJson(runs, Array.from(unlocksRef.current.keys())));
+    } else {
+      downloadText(`immovable-runs-${stamp}.csv`, serializeRunsCsv(runs), 'text/csv');
+    }
+  }, []);
+
+  // 進行中のラン（ゴール前）をその時点のスナップショットとして書き出す
+  const handleExportCurrentRun = useCallback((format: 'json' | 'csv') => {
+    const state = simRef.current;
+    if (!state.running) throw new Error(t.errors.noActiveRun);
+    handleExportRuns([buildRunRecord(state, samplesRef.current.slice())], format);
+  }, [buildRunRecord, handleExportRuns, t]);
+
+  const handleImportRuns = useCallback(async (file: File) => {
+    const parsed = parseRunsJson(await file.text());
+    const added = await importRuns(parsed.runs);
+    refreshRunHistory();
+    return added;
+  }, [refreshRunHistory]);
+
+  // Backup / restore across devices
+  const handleExportBackupFile = useCallback(() => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadText(`immovable-backup-${stamp}.json`, serializeBackupFile(getSave(), runHistory));
+  }, [runHistory]);
+
+  const handleCreateBackupCode = useCallback(() => createBackupCode(getSave(), runHistory), [runHistory]);
+
+  const handleParseBackupFile = useCallback(async (file: File) => parseBackupFile(await file.text()), []);
+
+  const handleRestoreBackup = useCallback(async (backup: Backup, mode: RestoreMode) => {
+    const current = getSave();
+    const next = mode === 'merge' ? mergeSave(current, backup.save) : { ...backup.save, runState: current.runState };
+    if (mode === 'merge') {
+      await importRuns(backup.runs);
+    } else {
+      await replaceAllRuns(backup.runs);
+    }
+    replaceSave(next);
+    applySave(next);
+    refreshRunHistory();
+  }, [applySave, refreshRunHistory]);
+
+  const handlePinRun = useCallback((id: string, pinned: boolean) => {
+    setRunPinned(id, pinned).then(refreshRunHistory).catch(() => {});
+  }, [refreshRunHistory]);
+
+  const handleDeleteRun = useCallback((id: string) => {
+    deleteRun(id).then(refreshRunHistory).catch(() => {});
+  }, [refreshRunHistory]);
+
+  // Replay playback (watch mode): drives the same engine from recorded input
+  const startReplay = useCallback((replay: ReplayData) => {
+    playbackRef.current = createPlayback(replay);
+    setWatchingReplay(replay);
+    setReplayFinished(false);
+    setShowRunHistory(false);
+    setSim(replay.initialState);
+  }, []);
+
+  const handleStopReplay = useCallback(() => {
+    playbackRef.current = null;
+    setWatchingReplay(null);
+    setReplayFinished(false);
+    setSim(simRef.current);
+  }, []);
+
+  const handleWatchRun = useCallback(async (id: string) => {
+    const data = await loadReplay(id);
+    if (!data) throw new Error(t.errors.replayNotSaved);
+    startReplay(parseReplay(data));
+  }, [startReplay, t]);
+
+  const handleExportReplay = useCallback(async (id: string) => {
+    const data = await loadReplay(id);
+    if (!data) throw new Error(t.errors.replayNotSaved);
+    downloadText(`immovable-replay-${id}.json`, data);
+  }, [t]);
+
+  const handleImportReplay = useCallback(async (file: File) => {
+    startReplay(parseReplay(await file.text()));
+  }, [startReplay]);
+
+  // ラン中にマイルストーンが変わった場合、すでに通過した深さのものは今のタイムで記録しない
+  const skipPassedMilestones = useCallback((milestones: number[]) => {
+    const state = simRef.current;
+    if (!state.running) return;
+    const currentCm = state.virtualDepth * pxToCm;
+    const passed = milestones.filter((cm) => cm <= currentCm);
+    simRef.current = {
+      ...state,
+      passedMilestones: Array.from(new Set([...state.passedMilestones, ...passed])),
     };
+  }, [pxToCm]);
 
-    ACHIEVEMENTS.forEach((achievement) => {
-      if (currentM >= achievement.meters) {
-        unlockOnce(achievement.key, achievement.label);
-      }
+  const handleSplitDefinitionChange = useCallback((definition: SplitDefinition) => {
+    skipPassedMilestones(resolveMilestones(definition, achievementPack.achievements));
+    setSplitDefinition(definition);
+  }, [skipPassedMilestones, achievementPack]);
+
+  // 称号スプリットは選択中のパックに従うので、パックの切り替えも同じ扱いにする
+  useEffect(() => {
+    if (splitDefinition.kind === 'achievements') skipPassedMilestones(achievementMilestonesCm(achievementPack.achievements));
+  }, [splitDefinition.kind, achievementPack, skipPassedMilestones]);
+
+  const handleExportSplits = useCallback(() => {
+    downloadText('immovable-splits.json', serializeSplitDefinition(splitDefinition, achievementPack.achievements));
+  }, [splitDefinition, achievementPack]);
+
+  const handleImportSplits = useCallback(async (file: File) => {
+    handleSplitDefinitionChange(parseSplitDefinitionFile(await file.text()));
+  }, [handleSplitDefinitionChange]);
+
+  const checkTitleUnlocks = useCallback((context: AchievementContext, mode: string) => {
+    const pack = achievementPackRef.current;
+    const unlocked = findNewUnlocks(
+      pack.achievements,
+      { has: (key) => unlocksRef.current.has(unlockKeyFor(pack.id, key)) },
+      context
+    );
+    if (unlocked.length === 0) return;
+
+    const unlockedAt = Date.now();
+    unlocked.forEach((achievement) => {
+      const key = unlockKeyFor(pack.id, achievement.key);
+      unlocksRef.current.set(key, {
+        key,
+        unlockedAt,
+        runTimeMs: Math.round(context.run.runTimeSec * 1000),
+        mode,
+      });
     });
+    runTitlesRef.current.push(...unlocked);
+    setUnlocks(new Map(unlocksRef.current));
+    saveUnlocks(unlocksRef.current.values());
+    // 同時に複数解放したときは一番レアなものを演出する
+    showTitleToast(rarestAchievement(unlocked));
   }, [showTitleToast]);
 
   useEffect(() => {
@@ -314,195 +940,184 @@ const App: React.FC = () => {
     };
   }, []);
 
-  // Persistent loop for physics (Gravity & Friction)
+  // Persistent loop: feeds real frame time into the fixed-step simulation
   const animate = useCallback((time: number) => {
-    // 1. Physics Calculations
     const lastTime = lastTimeRef.current;
-    const dtSec = lastTime ? Math.max((time - lastTime) / 1000, 1 / 120) : 1 / 60;
+    const elapsedMs = lastTime !== null ? time - lastTime : FIXED_STEP_MS;
     lastTimeRef.current = time;
 
-    const directDelta = inertiaEnabled ? 0 : inputDeltaRef.current;
-    if (!inertiaEnabled) {
-      inputDeltaRef.current = 0;
-      velocityRef.current = directDelta;
-    }
-
-    // スクロール回数（方向変化でカウント）
-    const dir = Math.sign(velocityRef.current);
-    if (dir !== 0 && dir !== lastScrollDir.current) {
-      setScrollCount(c => {
-        const next = c + 1;
-        scrollCountRef.current = next;
-        return next;
-      });
-      lastScrollDir.current = dir;
+    // Watch mode: the live run is paused while a replay plays
+    const playback = playbackRef.current;
+    if (playback) {
+      const nextPlayback = advancePlayback(playback, elapsedMs);
+      playbackRef.current = nextPlayback;
+      if (nextPlayback !== playback) setSim(nextPlayback.state);
+      if (nextPlayback.finished && !playback.finished) setReplayFinished(true);
+      requestRef.current = requestAnimationFrame(animate);
+      return;
     }
 
-    // 連続加速時間
-    const pxPerFrame = Math.abs(velocityRef.current);
-    const pxPerSec = pxPerFrame / dtSec;
-    const lastPxPerSec = lastVelocity.current;
-    const accelVal = Math.abs(pxPerSec - lastPxPerSec) / dtSec; // px/s^2
-    lastVelocity.current = pxPerSec;
-    const isMoving = Math.abs(velocityRef.current) > MOVING_EPS || Math.abs(directDelta) > MOVING_EPS;
-    if (isMoving) {
-      lastMoveTimeRef.current = time;
+    const prev = simRef.current;
+    const rawInputs = pendingRawInputsRef.current;
+    const result = advance(prev, accumulatorRef.current, pendingInputRef.current, elapsedMs, simOptions);
+    accumulatorRef.current = result.accumulatorMs;
+    if (result.steps === 0) {
+      // No tick this frame (high refresh rate): keep the input for the next one
+      requestRef.current = requestAnimationFrame(animate);
+      return;
     }
-
-    const idleMs = lastMoveTimeRef.current === null ? 0 : time - lastMoveTimeRef.current;
-    const allowGravity = idleMs >= IDLE_GRAVITY_DELAY_MS;
-
-    if (inertiaEnabled) {
-      velocityRef.current *= FRICTION;
-
-      // Gravity logic
-      if (allowGravity && depthRef.current > 0) {
-        const dynamicGravity = Math.min(
-          GRAVITY + (depthRef.current * GRAVITY_DEPTH_SCALE),
-          GRAVITY_MAX
-        );
-        depthRef.current -= dynamicGravity;
-        if (depthRef.current < 0) depthRef.current = 0;
+    pendingInputRef.current = emptyInput();
+    pendingRawInputsRef.current = [];
+
+    const inputTick = tickRef.current;
+    tickRef.current += result.steps;
+
+    let next = result.state;
+    let finishedRuns = result.finishedRuns;
+    let timedScore: number | null = null; // 履歴に残す時間制モードのスコア
+    if (timedMode && timedPhaseRef.current === 'live') {
+      if (!prev.running && next.running) {
+        raceStartDelayRef.current = Math.max(0, inputTick - goTickRef.current) * FIXED_STEP_MS;
       }
-
-      depthRef.current += velocityRef.current;
-    } else {
-      if (directDelta !== 0) {
-        depthRef.current += directDelta;
-        if (depthRef.current < 0) depthRef.current = 0;
+      const startDelayMs = raceStartDelayRef.current;
+      const outcome = next.running ? timedModeOutcome(timedMode, next, pxToCm, startDelayMs) : null;
+      // 一瞬だけ浮いたランは挑戦に数えない
+      const landed = finishedRuns.find((finished) => finished.runTime >= MIN_ARCHIVE_RUN_MS);
+      if (outcome) {
+        // 終了条件を満たしたらその場でランを終わらせる
+        finishedRuns = [...finishedRuns, next];
+        next = landRun(next);
+        timedScore = outcome.score;
+        recordTimedResult(timedMode, modeKey, outcome.score);
+      } else if (landed) {
+        timedScore = timedModeLandedScore(timedMode, landed, pxToCm, startDelayMs);
+        recordTimedResult(timedMode, modeKey, timedScore);
       }
-      if (directDelta === 0) velocityRef.current = 0;
+    }
+    simRef.current = next;
 
-      if (allowGravity && depthRef.current > 0) {
-        const dynamicGravity = Math.min(
-          GRAVITY + (depthRef.current * GRAVITY_DEPTH_SCALE),
-          GRAVITY_MAX
-        );
-        depthRef.current -= dynamicGravity;
-        if (depthRef.current < 0) depthRef.current = 0;
-      }
+    // Replay recording: starts with the input that lifts off the floor
+    if (recorderRef.current && recorderRef.current.options !== simOptions) {
+      recorderRef.current = null; // settings changed mid-run: replay would not reproduce
+    }
+    if (!recorderRef.current && !prev.running && rawInputs.length > 0) {
+      recorderRef.current = startRecording(prev, simOptions, inputTick);
+    }
+    if (recorderRef.current && rawInputs.length > 0) {
+      recordInputs(recorderRef.current, inputTick, rawInputs);
     }
 
-    // Hard floor / Reset
-    if (depthRef.current <= 0) {
-        depthRef.current = 0;
-        velocityRef.current = 0;
-        
-        // Reset Timer if grounded
-        if (runStartTimeRef.current !== null) {
-            runStartTimeRef.current = null;
-            runTimeRef.current = 0;
-            setRunTime(0);
-            splitsRef.current = [];
-            setSplits([]);
-            passedMilestonesRef.current.clear();
-          totalDistanceRef.current = 0;
-          totalDistanceStatRef.current = 0;
-          aveSpeedRef.current = 0;
-          maxSpeedRef.current = 0;
-          maxAccelRef.current = 0;
-          currentSpeedMpsRef.current = 0;
-          scrollCountRef.current = 0;
-          setAveSpeed(0);
-          setMaxSpeed(0);
-          setTotalDistance(0);
-          setMaxAccel(0);
-          setCurrentSpeedMps(0);
-          setTitleToast(null);
-          clearRunState();
-          lastMoveTimeRef.current = null;
+    if (finishedRuns.length > 0) {
+      // Landed: the run is over
+      const replay = recorderRef.current ? finishRecording(recorderRef.current, tickRef.current) : null;
+      recorderRef.current = null;
+      finishedRuns.forEach((finished) => {
+        const samples = samplesRef.current;
+        appendSample(samples, finished.runTime, finished.virtualDepth * pxToCm);
+        // 目標に届かずに着地したら失敗（一瞬浮いただけのランは挑戦に数えない）
+        if (dailyRules && dailyRunRef.current === dailyRules.dateKey && finished.runTime >= MIN_ARCHIVE_RUN_MS) {
+          recordDaily(dailyRules.dateKey, dailyOutcome(dailyRules, finished) ?? { cleared: false });
         }
-    } else {
-        // Start Timer if just took off
-        if (runStartTimeRef.current === null) {
-            runStartTimeRef.current = time;
-            passedMilestonesRef.current.clear();
-            splitsRef.current = [];
-            setSplits([]);
-          totalDistanceRef.current = 0;
-          totalDistanceStatRef.current = 0;
-          runTimeRef.current = 0;
-          aveSpeedRef.current = 0;
-          maxSpeedRef.current = 0;
-          maxAccelRef.current = 0;
-          setAveSpeed(0);
-          setMaxSpeed(0);
-          setTotalDistance(0);
-          setMaxAccel(0);
+        dailyRunRef.current = null;
+        // 一瞬だけ浮いたランは履歴にも累計にも数えず、結果画面も出さない（連続達成が途切れないように）
+        if (finished.runTime >= MIN_ARCHIVE_RUN_MS) {
+          const record = { ...buildRunRecord(finished, samples), ...(timedScore !== null && { timedScore }) };
+          archiveRun(record, replay);
+          setRunResult({ record, titles: runTitlesRef.current.slice() });
+          lifetimeRef.current = recordFinishedRun(
+            lifetimeRef.current,
+            runStatsOf(finished, pxToCm),
+            finished.totalDistance
+          );
         }
+      });
+      setLifetime(lifetimeRef.current);
+      saveLifetime(lifetimeRef.current);
+      setTitleToast(null);
+      clearRunState();
+    } else if (!next.running) {
+      recorderRef.current = null;
     }
-
-    // 2. Timer & Split Logic
-    let currentRunTime = 0;
-    if (runStartTimeRef.current !== null) {
-        currentRunTime = time - runStartTimeRef.current;
-      runTimeRef.current = currentRunTime;
-        setRunTime(currentRunTime);
-
-        // Check Milestones
-        const currentCm = depthRef.current * pxToCm;
-      const currentM = currentCm / 100;
-      checkTitleUnlocks(currentM);
-        
-        MILESTONES_CM.forEach(milestone => {
-            if (currentCm >= milestone && !passedMilestonesRef.current.has(milestone)) {
-                passedMilestonesRef.current.add(milestone);
-                setSplits(prev => {
-                  const next = [...prev, { distanceCm: milestone, timeMs: currentRunTime }].sort((a,b) => b.distanceCm - a.distanceCm);
-                  splitsRef.current = next;
-                  return next;
-                });
-            }
-        });
+    if (!next.running) {
+      resetIntegrityTracker(integrityRef.current);
+      setRunIntegrity(null);
     }
 
-    // 3. Update React State for UI
-    setDepth(depthRef.current);
-    setVelocity(Math.abs(velocityRef.current));
-
-    // 距離・速度統計（実移動量ベース）
-    const frameDistancePx = Math.abs(velocityRef.current);
-    const frameDistanceM = (frameDistancePx * pxToCm) / 100;
-    totalDistanceRef.current += frameDistanceM;
-
-    const currentSpeedMps = (pxPerSec * pxToCm) / 100;
-    const currentAccelMps2 = (accelVal * pxToCm) / 100;
-
-    setCurrentSpeedMps(currentSpeedMps);
-    currentSpeedMpsRef.current = currentSpeedMps;
-    setTotalDistance(totalDistanceRef.current);
-    totalDistanceStatRef.current = totalDistanceRef.current;
-
-    const nextMaxSpeed = Math.max(maxSpeedRef.current, currentSpeedMps);
-    maxSpeedRef.current = nextMaxSpeed;
-    setMaxSpeed(nextMaxSpeed);
-
-    const nextMaxAccel = Math.max(maxAccelRef.current, currentAccelMps2);
-    maxAccelRef.current = nextMaxAccel;
-    setMaxAccel(nextMaxAccel);
-
-    if (runStartTimeRef.current && currentRunTime > 0) {
-      const averageSpeed = totalDistanceRef.current / (currentRunTime / 1000);
-      aveSpeedRef.current = averageSpeed;
-      setAveSpeed(averageSpeed);
-    } else {
-      aveSpeedRef.current = 0;
-      setAveSpeed(0);
+    if (next.running) {
+      observeState(integrityRef.current, next);
+      const integrity = integrityOf(integrityRef.current);
+      setRunIntegrity((current) =>
+        current?.verdict === integrity.verdict && current.flags.length === integrity.flags.length ? current : integrity
+      );
+      if (!prev.running) {
+        // Took off: new depth curve and ghost comparison
+        samplesRef.current = [];
+        ghostDeltasRef.current = [];
+        setGhostDeltas([]);
+        runTitlesRef.current = [];
+        dailyRunRef.current = dailyRules?.dateKey ?? null;
+      }
+      if (dailyRules && dailyRunRef.current === dailyRules.dateKey) {
+        const outcome = dailyOutcome(dailyRules, next);
+        if (outcome) recordDaily(dailyRules.dateKey, outcome);
+      }
+      const currentCm = next.virtualDepth * pxToCm;
+      checkTitleUnlocks({
+        run: runStatsOf(next, pxToCm),
+        lifetime: lifetimeRef.current,
+        runDistanceM: next.totalDistance,
+      }, modeKey);
+
+      if (appendSample(samplesRef.current, next.runTime, currentCm)) {
+        setCurrentSamples(samplesRef.current.slice());
+      }
+      if (ghostRun?.samples) {
+        const deltas = collectGhostDeltas(
+          ghostDeltasRef.current,
+          ghostCheckpointsCm,
+          currentCm,
+          next.runTime,
+          ghostRun.samples
+        );
+        if (deltas !== ghostDeltasRef.current) {
+          ghostDeltasRef.current = deltas;
+          setGhostDeltas(deltas);
+        }
+      }
+    } else if (finishedRuns.length > 0) {
+      samplesRef.current = [];
+      ghostDeltasRef.current = [];
+      setCurrentSamples([]);
+      setGhostDeltas([]);
     }
 
-    if (depthRef.current > 0 && time - lastRunPersistAtRef.current >= 500) {
+    setSim(next);
+
+    if (next.virtualDepth > 0 && time - lastRunPersistAtRef.current >= 500) {
       lastRunPersistAtRef.current = time;
       persistRunState();
+      persistHighScore();
     }
-
-    // Check High Score
-    if (depthRef.current > parseInt(localStorage.getItem('immovable_highscore_px') || '0', 10)) {
-        localStorage.setItem('immovable_highscore_px', Math.floor(depthRef.current).toString());
-        setHighScore(Math.floor(depthRef.current));
-    }
+    if (finishedRuns.length > 0) persistHighScore();
 
     requestRef.current = requestAnimationFrame(animate);
-  }, [inertiaEnabled, pxToCm, checkTitleUnlocks, clearRunState, persistRunState]);
+  }, [
+    simOptions,
+    pxToCm,
+    modeKey,
+    dailyRules,
+    timedMode,
+    ghostRun,
+    ghostCheckpointsCm,
+    checkTitleUnlocks,
+    clearRunState,
+    persistRunState,
+    persistHighScore,
+    buildRunRecord,
+    archiveRun,
+    recordDaily,
+    recordTimedResult,
+  ]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
@@ -513,25 +1128,31 @@ const App: React.FC = () => {
 
   // Input Handling
   useEffect(() => {
-    const isOverlayOpen = showTitleGallery || showCalibration || pendingResume !== null;
-
-    const normalizeWheelDelta = (e: WheelEvent) => {
-      if (e.deltaMode === WheelEvent.DOM_DELTA_LINE) return e.deltaY * lineHeightPx;
-      if (e.deltaMode === WheelEvent.DOM_DELTA_PAGE) return e.deltaY * (viewportHeightPx || window.innerHeight || 0);
-      return e.deltaY;
+    const isOverlayOpen =
+      showTitleGallery ||
+      showRunHistory ||
+      showBackup ||
+      showCalibration ||
+      showScrollCalibration ||
+      pendingResume !== null ||
+      watchingReplay !== null ||
+      timedResult !== null ||
+      runResult !== null ||
+      sharedResult !== null ||
+      // 時間制モードはカウントダウンが終わるまで動かせない
+      (timedMode !== null && timedPhase !== 'live');
+
+    const pushInput = (source: InputSource, delta: number, trusted: boolean, timeMs: number) => {
+      observeInput(integrityRef.current, { source, delta, trusted, timeMs });
+      pendingInputRef.current = accumulateInput(pendingInputRef.current, source, delta, activeInertia);
+      pendingRawInputsRef.current.push({ source, delta });
     };
 
     const handleWheel = (e: WheelEvent) => {
       if (isOverlayOpen) return;
       e.preventDefault();
-      const delta = normalizeWheelDelta(e);
-      if (inertiaEnabled) {
-        // Game mode: scaled down for physics feel
-        velocityRef.current += delta * SCROLL_MULTIPLIER * 0.15;
-      } else {
-        // Direct measurement: full pixel delta
-        inputDeltaRef.current += delta;
-      }
+      // Game mode scales it down for physics feel, direct measurement uses the full pixel delta
+      pushInput('wheel', normalizeWheelDelta(e, lineHeightPx, viewportHeightPx || window.innerHeight || 0, inputScale.wheel), e.isTrusted, e.timeStamp);
     };
 
     let touchStartY = 0;
@@ -545,30 +1166,94 @@ const App: React.FC = () => {
         const touchY = e.touches[0].clientY;
         const delta = touchStartY - touchY;
         touchStartY = touchY;
-        if (inertiaEnabled) {
-          // Game mode: scaled for physics feel
-          velocityRef.current += delta * SCROLL_MULTIPLIER * 0.25;
-        } else {
-          // Direct measurement: 1:1 physical finger mapping
-          inputDeltaRef.current += delta;
-        }
+        // Direct measurement: 1:1 physical finger mapping
+        pushInput('touch', delta * inputScale.touch, e.isTrusted, e.timeStamp);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isOverlayOpen || isFormControl(e.target)) return;
+      const delta = keyboardDelta(e, lineHeightPx, viewportHeightPx || window.innerHeight || 0);
+      if (delta === null) return;
+      e.preventDefault();
+      pushInput('keyboard', delta, e.isTrusted, e.timeStamp);
+    };
+
+    // Gamepad API はイベントが無いので、つながっている間だけ毎フレーム読む
+    let gamepadFrame: number | null = null;
+    let lastGamepadTime: number | null = null;
+    const pollGamepads = (time: number) => {
+      const pads = (navigator.getGamepads?.() ?? []).filter((pad): pad is Gamepad => pad !== null);
+      if (pads.length === 0) {
+        gamepadFrame = null;
+        lastGamepadTime = null;
+        return;
+      }
+      const elapsedMs = lastGamepadTime !== null ? Math.min(time - lastGamepadTime, MAX_GAMEPAD_FRAME_MS) : 0;
+      lastGamepadTime = time;
+      if (!isOverlayOpen) {
+        const delta = pads.reduce((sum, pad) => sum + gamepadDelta(pad, elapsedMs), 0);
+        // ゲームパッドはブラウザから直接読むので合成できない
+        if (delta !== 0) pushInput('gamepad', delta, true, time);
+      }
+      gamepadFrame = requestAnimationFrame(pollGamepads);
+    };
+    const startGamepadPolling = () => {
+      if (gamepadFrame === null) gamepadFrame = requestAnimationFrame(pollGamepads);
     };
 
     window.addEventListener('wheel', handleWheel, { passive: false });
     window.addEventListener('touchstart', onTouchStart, { passive: false });
     window.addEventListener('touchmove', onTouchMove, { passive: false });
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('gamepadconnected', startGamepadPolling);
+    startGamepadPolling(); // 設定の変更で張り直したときも、つながったままのパッドを読み続ける
 
     return () => {
       window.removeEventListener('wheel', handleWheel);
       window.removeEventListener('touchstart', onTouchStart);
       window.removeEventListener('touchmove', onTouchMove);
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('gamepadconnected', startGamepadPolling);
+      if (gamepadFrame !== null) cancelAnimationFrame(gamepadFrame);
     };
-  }, [inertiaEnabled, lineHeightPx, viewportHeightPx, showTitleGallery, showCalibration, pendingResume]);
+  }, [
+    activeInertia,
+    lineHeightPx,
+    viewportHeightPx,
+    inputScale,
+    showTitleGallery,
+    showRunHistory,
+    showBackup,
+    showCalibration,
+    showScrollCalibration,
+    pendingResume,
+    watchingReplay,
+    timedResult,
+    runResult,
+    sharedResult,
+    timedMode,
+    timedPhase,
+  ]);
+
+  const depth = sim.virtualDepth;
+  const velocity = Math.abs(sim.velocity);
 
   // Visual Effects Calculations
   const normVelocity = Math.min(velocity / MAX_VELOCITY, 1);
   const bgOffset = depth % 200; 
   const shakeIntensity = Math.min(velocity / 10, 15); 
+  // Resistance mode visuals
+  const tension = activeResistance === ResistanceType.ELASTIC ? elasticTension(depth) : 0;
+  const glitchLevel = activeResistance === ResistanceType.GLITCH
+    ? Math.max(Math.min(sim.glitchFxMs / GLITCH_FX_MS, 1), sim.stutterSteps > 0 ? 0.5 : 0)
+    : 0;
+  const glitchShiftPx = glitchLevel > 0 ? (Math.random() - 0.5) * 30 * glitchLevel : 0;
+  // Ghost racer (hidden while watching a replay)
+  const showGhost = Boolean(ghostRun?.samples) && !watchingReplay && sim.running;
+  const ghostDepthCm = showGhost && ghostRun?.samples ? ghostDepthAt(ghostRun.samples, sim.runTime) : 0;
+  const ghostOffsetCm = ghostDepthCm - depth * pxToCm;
+  const passedMilestoneSet = new Set(sim.passedMilestones);
+  const nextMilestoneCm = milestonesCm.find((cm) => !passedMilestoneSet.has(cm)) ?? null;
 
   // Memoize static particles
   const particles = useMemo(() => [...Array(40)].map((_, i) => ({
@@ -580,6 +1265,7 @@ const App: React.FC = () => {
   })), []);
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div 
       className="relative w-full h-full flex flex-col items-center justify-center bg-black overflow-hidden transition-colors duration-200"
       style={{
@@ -594,13 +1280,24 @@ const App: React.FC = () => {
                     linear-gradient(rgba(${100 + normVelocity * 155}, ${255 - normVelocity * 200}, ${255}, ${0.1 + normVelocity * 0.5}) 1px, transparent 1px),
                     linear-gradient(90deg, rgba(${100 + normVelocity * 155}, ${255 - normVelocity * 200}, ${255}, ${0.1 + normVelocity * 0.5}) 1px, transparent 1px)
                 `,
-                backgroundSize: '40px 40px',
+                backgroundSize: `40px ${40 * (1 + tension)}px`,
                 backgroundPosition: `0px -${bgOffset}px`,
-                filter: `blur(${normVelocity * 2}px)`,
-                transform: `scale(${1 + normVelocity * 0.1})`
+                filter: `blur(${normVelocity * 2}px)${glitchLevel > 0 ? ` hue-rotate(${glitchLevel * 180}deg)` : ''}`,
+                transform: `scale(${1 + normVelocity * 0.1}) translateX(${glitchShiftPx}px)`
             }}
         />
 
+        {/* Layer 1b: Elastic tension (pulls toward the surface) */}
+        {tension > 0 && (
+          <div
+              className="absolute inset-0 pointer-events-none"
+              style={{
+                  opacity: tension,
+                  background: `linear-gradient(to bottom, rgba(34, 211, 238, ${0.25 + tension * 0.35}) 0%, transparent ${30 + tension * 40}%)`,
+              }}
+          />
+        )}
+
         {/* Layer 2: Nebula / Aura Glow */}
         <div 
             className="absolute inset-0 pointer-events-none transition-opacity duration-300"
@@ -647,45 +1344,203 @@ const App: React.FC = () => {
             }}
         />
 
+        {/* Layer 4b: Ghost racer marker */}
+        {showGhost && (
+          <GhostMarker
+            offsetPx={ghostOffsetCm / pxToCm}
+            label={formatSignedDistance(ghostOffsetCm, units)}
+          />
+        )}
+
+        {/* Layer 5: Glitch scanlines / RGB split */}
+        {glitchLevel > 0 && (
+          <div
+              className="absolute inset-0 pointer-events-none mix-blend-screen"
+              style={{
+                  opacity: glitchLevel,
+                  backgroundImage: 'repeating-linear-gradient(0deg, rgba(255, 0, 80, 0.25) 0px, rgba(255, 0, 80, 0.25) 2px, transparent 2px, transparent 6px)',
+                  transform: `translate(${-glitchShiftPx}px, ${glitchShiftPx / 2}px)`,
+                  boxShadow: `inset ${glitchShiftPx}px 0 0 rgba(0, 255, 255, 0.3)`,
+              }}
+          />
+        )}
+
       {/* Card Calibration Overlay */}
       {showCalibration && (
         <CardCalibration
-          initialPxPerCm={autoPxPerCm}
+          initialPxPerCm={calibratedPxPerCm ?? { x: autoPxPerCm, y: autoPxPerCm }}
+          profileManager={
+            <CalibrationProfiles
+              profiles={calibrationProfiles}
+              currentKey={displayKey}
+              onApplyHere={handleApplyProfileHere}
+              onDelete={handleDeleteProfile}
+            />
+          }
           onCalibrate={handleCalibration}
           onCancel={() => setShowCalibration(false)}
         />
       )}
 
+      {/* Scroll Calibration Overlay */}
+      {showScrollCalibration && (
+        <ScrollCalibration
+          pxPerCm={1 / pxToCm}
+          lineHeightPx={lineHeightPx}
+          pageHeightPx={viewportHeightPx || window.innerHeight || 0}
+          current={currentProfile?.inputScale ?? null}
+          onApply={handleScrollCalibration}
+          onReset={handleResetScrollCalibration}
+          onClose={() => setShowScrollCalibration(false)}
+        />
+      )}
+
       {/* Title Unlock Overlay with sparkles */}
-      <TitleUnlockOverlay title={titleToast} />
+      <TitleUnlockOverlay
+        title={titleToast ? localized(titleToast, titleToast.translations, locale).label : null}
+        tier={titleToast?.tier ?? 'bronze'}
+      />
 
       {/* Title Gallery Modal */}
       {showTitleGallery && (
         <TitleGallery
-          unlockedKeys={unlockedTitles}
+          packName={localized(achievementPack, achievementPack.translations, locale).name}
+          achievements={achievementPack.achievements}
+          unlocks={activePackUnlocks}
+          context={{
+            run: sim.running ? runStatsOf(sim, pxToCm) : EMPTY_RUN_STATS,
+            lifetime,
+            runDistanceM: sim.running ? sim.totalDistance : 0,
+          }}
           onClose={() => setShowTitleGallery(false)}
         />
       )}
 
+      {/* Run History Modal */}
+      {showRunHistory && (
+        <RunHistory
+          runs={runHistory}
+          onPin={handlePinRun}
+          onDelete={handleDeleteRun}
+          onWatch={handleWatchRun}
+          onExportReplay={handleExportReplay}
+          onImportReplay={handleImportReplay}
+          onExportRuns={handleExportRuns}
+          onExportCurrentRun={handleExportCurrentRun}
+          onImportRuns={handleImportRuns}
+          onClose={() => setShowRunHistory(false)}
+        />
+      )}
+
+      {showBackup && (
+        <BackupPanel
+          pxToCm={pxToCm}
+          onExportFile={handleExportBackupFile}
+          onCreateCode={handleCreateBackupCode}
+          onParseFile={handleParseBackupFile}
+          onParseCode={parseBackupCode}
+          onRestore={handleRestoreBackup}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {/* Storage warning (quota exceeded / corrupted save) */}
+      {storageError && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 rounded border border-red-800 bg-black/85 px-4 py-2 font-mono text-xs text-red-300 pointer-events-auto">
+          <span>⚠ {t.storage[storageError]}</span>
+          <button className="text-gray-500 hover:text-white" onClick={() => setStorageError(null)}>
+            {t.common.close}
+          </button>
+        </div>
+      )}
+
+      {/* Uncalibrated display (monitor switched / zoom changed) */}
+      {showCalibrationPrompt && (
+        <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 rounded border border-yellow-800 bg-black/85 px-4 py-2 font-mono text-xs text-yellow-300 pointer-events-auto">
+          <span>📐 {t.calibration.prompt(formatSignature(displaySignature, t))}</span>
+          <button
+            className="rounded bg-yellow-600 px-2 py-0.5 font-bold text-black active:bg-yellow-500"
+            onClick={() => setShowCalibration(true)}
+          >
+            {t.calibration.promptCalibrate}
+          </button>
+          <button className="text-gray-500 hover:text-white" onClick={dismissCalibrationPrompt}>
+            {t.calibration.promptLater}
+          </button>
+        </div>
+      )}
+
+      {/* Post-run results (the timed mode result screen stacks on top of it) */}
+      {runResult && !watchingReplay && (
+        <RunResults
+          run={runResult.record}
+          titles={runResult.titles}
+          achievements={achievementPack.achievements}
+          history={runHistory}
+          onClose={() => setRunResult(null)}
+        />
+      )}
+
+      {/* Result received through a shared link */}
+      {sharedResult && (
+        <SharedResultView
+          result={sharedResult === 'invalid' ? null : sharedResult}
+          onClose={handleCloseSharedResult}
+        />
+      )}
+
+      {/* Timed modes: start panel / countdown and result screen */}
+      {timedMode && !watchingReplay && (timedPhase === 'ready' || countdown !== null) && (
+        <TimedModeStart mode={timedMode} countdown={countdown} onStart={handleTimedStart} />
+      )}
+      {timedResult && (
+        <TimedModeResult
+          mode={timedResult.mode}
+          score={timedResult.score}
+          best={timedResult.best}
+          isNewBest={timedResult.isNewBest}
+          onRetry={handleTimedStart}
+          onClose={handleTimedResultClose}
+        />
+      )}
+
+      {/* Replay banner */}
+      {watchingReplay && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 rounded-full border border-cyan-700 bg-black/80 px-4 py-1 font-mono text-xs text-cyan-300 pointer-events-auto">
+          <span className={replayFinished ? '' : 'animate-pulse'}>
+            {replayFinished ? t.replay.finished : t.replay.playing}
+          </span>
+          <span className="text-gray-500">
+            {t.modes.base(watchingReplay.options.resistance, watchingReplay.options.inertiaEnabled)}
+          </span>
+          <button
+            className="rounded border border-cyan-800 px-2 py-0.5 text-cyan-200 hover:bg-cyan-900/40"
+            onClick={handleStopReplay}
+          >
+            {t.replay.exit}
+          </button>
+        </div>
+      )}
+
       {pendingResume && (
         <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/70 backdrop-blur-sm pointer-events-auto">
           <div className="w-[90vw] max-w-md rounded-xl border border-gray-700 bg-gray-950/95 p-5 shadow-[0_0_30px_rgba(0,0,0,0.6)]">
-            <h2 className="text-lg font-bold text-yellow-400 font-mono">途中セーブを検出</h2>
+            <h2 className="text-lg font-bold text-yellow-400 font-mono">{t.resume.title}</h2>
             <p className="mt-2 text-sm text-gray-300">
-              前回の記録（{((pendingResume.depth * pxToCm) / 100).toFixed(2)} m / {Math.floor(pendingResume.runTime / 1000)}s）から再開できます。
+              {t.resume.body(units.distance(pendingResume.depth * pxToCm), Math.floor(pendingResume.runTime / 1000))}
             </p>
             <div className="mt-4 flex gap-2">
               <button
                 className="flex-1 rounded bg-yellow-500 px-3 py-2 text-sm font-bold text-black hover:bg-yellow-400 transition-colors"
                 onClick={handleResumeRun}
               >
-                再開する
+                {t.resume.resume}
               </button>
               <button
                 className="flex-1 rounded border border-gray-600 bg-gray-900 px-3 py-2 text-sm text-gray-200 hover:bg-gray-800 transition-colors"
                 onClick={handleStartFresh}
               >
-                最初から
+                {t.resume.startFresh}
               </button>
             </div>
           </div>
@@ -694,23 +1549,78 @@ const App: React.FC = () => {
 
       <DepthMeter 
         depth={depth} 
-        currentSpeedMps={currentSpeedMps}
-        highScore={highScore} 
-        runTime={runTime}
-        splits={splits}
-        aveSpeed={aveSpeed}
-        maxSpeed={maxSpeed}
-        totalDistance={totalDistance}
-        maxAccel={maxAccel}
-        scrollCount={scrollCount}
-        pxToCm={pxToCm}
-        inertiaEnabled={inertiaEnabled}
+        currentSpeedMps={sim.currentSpeedMps}
+        highScore={sim.highScore} 
+        runTime={sim.runTime}
+        splits={sim.splits}
+        aveSpeed={sim.aveSpeed}
+        maxSpeed={sim.maxSpeed}
+        totalDistance={sim.totalDistance}
+        maxAccel={sim.maxAccel}
+        integrity={watchingReplay ? null : runIntegrity}
+        scrollCount={sim.scrollCount}
+        pxToCm={watchingReplay ? watchingReplay.options.pxToCm : pxToCm}
+        inertiaEnabled={activeInertia}
         onInertiaEnabledChange={setInertiaEnabled}
+        resistance={activeResistance}
+        onResistanceChange={setResistance}
+        rulesLocked={dailyRules !== null}
+        gameMode={gameMode}
+        onGameModeChange={setGameMode}
+        challenge={dailyRules && !watchingReplay ? (
+          <DailyChallengeCard
+            rules={dailyRules}
+            result={dailyResults.find((result) => result.dateKey === dailyRules.dateKey) ?? null}
+            streak={dailyStreak(dailyResults, todayKey)}
+            running={sim.running}
+            runTime={sim.runTime}
+            outcome={sim.running ? dailyOutcome(dailyRules, sim) : null}
+          />
+        ) : timedMode && !watchingReplay ? (
+          <TimedModeCard
+            mode={timedMode}
+            sim={sim}
+            pxToCm={pxToCm}
+            best={findModeBest(modeBests, modeKey)?.score ?? null}
+          />
+        ) : null}
         isCalibrated={calibratedPxPerCm !== null}
         onCalibrateClick={() => setShowCalibration(true)}
+        onScrollCalibrateClick={() => setShowScrollCalibration(true)}
         onResetCalibration={handleResetCalibration}
-        unlockedTitleCount={unlockedTitles.size}
+        unlockedTitleCount={activePackUnlocks.size}
         onTitleGalleryClick={() => setShowTitleGallery(true)}
+        runHistoryCount={runHistory.length}
+        onRunHistoryClick={() => setShowRunHistory(true)}
+        onBackupClick={() => setShowBackup(true)}
+        achievementPacks={packManifest ?? [BUILTIN_MANIFEST_ENTRY]}
+        achievementPackId={achievementPackId}
+        onAchievementPackChange={handleAchievementPackChange}
+        achievementPackError={packError ? packErrorMessage(packError, t) : null}
+        localeSetting={localeSetting}
+        onLocaleSettingChange={setLocaleSetting}
+        unitSystem={unitSystem}
+        onUnitSystemChange={setUnitSystem}
+        ghostEnabled={ghostEnabled}
+        onGhostEnabledChange={setGhostEnabled}
+        ghost={showGhost && ghostRun?.samples ? {
+          depthCm: ghostDepthCm,
+          samples: ghostRun.samples,
+          currentSamples,
+          deltas: ghostDeltas,
+        } : null}
+        nextMilestoneCm={nextMilestoneCm}
+        splitSettings={
+          <SplitSettings
+            definition={splitDefinition}
+            milestoneCount={milestonesCm.length}
+            sumOfBestMs={sumOfBestMs}
+            bestPossibleMs={bestPossibleMs}
+            onChange={handleSplitDefinitionChange}
+            onExport={handleExportSplits}
+            onImport={handleImportSplits}
+          />
+        }
       />
 
       {/* Main Content Container */}
@@ -726,7 +1636,7 @@ const App: React.FC = () => {
            />
         </div>
         <p className={`text-center text-xs mt-2 font-mono transition-colors duration-200 ${normVelocity > 0.8 ? 'text-yellow-300 animate-pulse font-bold' : 'text-gray-500'}`}>
-           {normVelocity > 0.9 ? '⚠️ REALITY TEARING IMMINENT ⚠️' : 'PHYSICAL DISPLACEMENT ATTEMPT DETECTED'}
+           {normVelocity > 0.9 ? t.stage.tearing : t.stage.detected}
         </p>
       </div>
 
@@ -738,19 +1648,20 @@ const App: React.FC = () => {
       {/* Footer Links */}
       <div className="absolute bottom-4 left-0 right-0 z-30 flex justify-center pointer-events-auto">
         <div className="flex items-center gap-3 rounded-full border border-gray-800 bg-black/70 px-3 py-1 text-xs font-mono text-gray-300 shadow-[0_0_12px_rgba(0,0,0,0.6)]">
-          <a href="/guide.html" target="_blank" rel="noopener" className="hover:text-white transition-colors">GUIDE</a>
+          <a href="/guide.html" target="_blank" rel="noopener" className="hover:text-white transition-colors">{t.stage.guide}</a>
           <span className="text-gray-600">|</span>
-          <a href="/terms.html" target="_blank" rel="noopener" className="hover:text-white transition-colors">TERMS</a>
+          <a href="/terms.html" target="_blank" rel="noopener" className="hover:text-white transition-colors">{t.stage.terms}</a>
           <span className="text-gray-600">|</span>
-          <a href="/privacy.html" target="_blank" rel="noopener" className="hover:text-white transition-colors">PRIVACY</a>
+          <a href="/privacy.html" target="_blank" rel="noopener" className="hover:text-white transition-colors">{t.stage.privacy}</a>
         </div>
       </div>
 
       <div className="absolute bottom-12 text-gray-500 font-mono text-xs animate-bounce opacity-60">
-         ▼ SCROLL TO PROVE EXISTENCE ▼
+         {t.stage.prompt}
       </div>
       
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,240 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Backup, RestoreMode } from '../lib/backup';
+import { errorMessage, useI18n } from '../lib/i18n';
+
+interface BackupPanelProps {
+  pxToCm: number;
+  onExportFile: () => void;
+  onCreateCode: () => Promise<string>;
+  onParseFile: (file: File) => Promise<Backup>;
+  onParseCode: (code: string) => Promise<Backup>;
+  onRestore: (backup: Backup, mode: RestoreMode) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatDate = (epochMs: number): string => new Date(epochMs).toLocaleString();
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({
+  pxToCm,
+  onExportFile,
+  onCreateCode,
+  onParseFile,
+  onParseCode,
+  onRestore,
+  onClose,
+}) => {
+  const { t, units } = useI18n();
+  const [closing, setClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [code, setCode] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [pending, setPending] = useState<Backup | null>(null);
+  const [confirmMode, setConfirmMode] = useState<RestoreMode | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleClose = useCallback(() => {
+    setClosing(true);
+    setTimeout(onClose, 300);
+  }, [onClose]);
+
+  const withErrorReport = (action: () => Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    action().catch((e: unknown) => setError(errorMessage(e, t)));
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    withErrorReport(async () => {
+      setPending(await onParseFile(file));
+      setConfirmMode(null);
+    });
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!pending) return;
+    // どちらのモードも一度確認してから実行する
+    if (confirmMode !== mode) {
+      setConfirmMode(mode);
+      return;
+    }
+    withErrorReport(async () => {
+      await onRestore(pending, mode);
+      setPending(null);
+      setConfirmMode(null);
+      setNotice(mode === 'merge' ? t.backup.merged : t.backup.overwritten);
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[80] flex items-center justify-center pointer-events-auto"
+      style={{
+        background: 'rgba(0,0,0,0.85)',
+        backdropFilter: 'blur(6px)',
+        opacity: closing ? 0 : 1,
+        transition: 'opacity 0.3s',
+      }}
+      onClick={handleClose}
+    >
+      <div
+        className="relative w-[90vw] max-w-lg max-h-[80vh] overflow-y-auto rounded-xl border border-gray-700 bg-gray-950/95 p-5 font-mono"
+        style={{
+          transform: closing ? 'scale(0.9) translateY(20px)' : 'scale(1) translateY(0)',
+          transition: 'transform 0.3s',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-bold text-green-400 tracking-wide">{t.backup.title}</h2>
+            <p className="text-xs text-gray-500 mt-0.5">{t.backup.subtitle}</p>
+          </div>
+          <button
+            className="text-gray-500 hover:text-white transition-colors text-xl leading-none px-2"
+            onClick={handleClose}
+          >
+            {t.common.close}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-3 rounded border border-red-800 bg-red-950/40 px-3 py-2 text-xs text-red-300">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mb-3 rounded border border-green-800 bg-green-950/40 px-3 py-2 text-xs text-green-300">
+            {notice}
+          </div>
+        )}
+
+        {/* Backup */}
+        <div className="mb-5 flex flex-col gap-2 text-xs">
+          <div className="text-[10px] text-gray-500">BACKUP</div>
+          <div className="flex gap-2">
+            <button
+              className="flex-1 rounded border border-gray-700 px-2 py-1.5 text-gray-300 hover:bg-gray-800"
+              onClick={onExportFile}
+            >
+              {t.backup.exportFile}
+            </button>
+            <button
+              className="flex-1 rounded border border-gray-700 px-2 py-1.5 text-gray-300 hover:bg-gray-800"
+              onClick={() => withErrorReport(async () => setCode(await onCreateCode()))}
+            >
+              {t.backup.createCode}
+            </button>
+          </div>
+          {code && (
+            <div className="flex flex-col gap-1">
+              <textarea
+                readOnly
+                value={code}
+                className="h-20 w-full resize-none rounded border border-gray-700 bg-gray-900 p-2 text-[10px] text-gray-300 break-all"
+                onFocus={(e) => e.target.select()}
+              />
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>{t.backup.codeLength(code.length)}</span>
+                <button
+                  className="rounded border border-gray-700 px-2 py-0.5 text-gray-300 hover:bg-gray-800"
+                  onClick={() =>
+                    withErrorReport(async () => {
+                      await navigator.clipboard.writeText(code);
+                      setNotice(t.backup.copied);
+                    })
+                  }
+                >
+                  {t.backup.copy}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Restore */}
+        <div className="flex flex-col gap-2 text-xs">
+          <div className="text-[10px] text-gray-500">RESTORE</div>
+          <div className="flex gap-2">
+            <button
+              className="rounded border border-gray-700 px-2 py-1.5 text-gray-300 hover:bg-gray-800"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {t.backup.importFile}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <input
+              type="text"
+              value={codeInput}
+              placeholder={t.backup.codePlaceholder}
+              onChange={(e) => setCodeInput(e.target.value)}
+              className="min-w-0 flex-1 rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-300"
+            />
+            <button
+              className="rounded border border-gray-700 px-2 py-1.5 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+              disabled={codeInput.trim().length === 0}
+              onClick={() =>
+                withErrorReport(async () => {
+                  setPending(await onParseCode(codeInput));
+                  setConfirmMode(null);
+                })
+              }
+            >
+              {t.backup.importCode}
+            </button>
+          </div>
+
+          {pending && (
+            <div className="mt-2 rounded-lg border border-green-800/60 bg-green-950/20 px-3 py-2">
+              <div className="flex justify-between text-gray-400">
+                <span>{t.backup.createdAt}</span>
+                <span>{formatDate(pending.createdAt)}</span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>{t.backup.highScore}</span>
+                <span className="text-white">{units.distance(pending.save.highScorePx * pxToCm)}</span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>{t.backup.titles}</span>
+                <span className="text-white">{pending.save.unlocks.length}</span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>{t.backup.runs}</span>
+                <span className="text-white">
+                  {t.backup.runCount(pending.runs.length, pending.complete)}
+                </span>
+              </div>
+              <div className="mt-3 flex gap-2">
+                <button
+                  className="flex-1 rounded bg-green-600 px-2 py-1.5 font-bold text-black hover:bg-green-500"
+                  onClick={() => handleRestore('merge')}
+                >
+                  {confirmMode === 'merge' ? t.backup.confirmMerge : t.backup.merge}
+                </button>
+                <button
+                  className="flex-1 rounded border border-red-800 px-2 py-1.5 text-red-400 active:bg-red-900/40"
+                  onClick={() => handleRestore('overwrite')}
+                >
+                  {confirmMode === 'overwrite' ? t.backup.confirmOverwrite : t.backup.overwrite}
+                </button>
+              </div>
+              <p className="mt-2 text-[10px] text-gray-500">
+                {t.backup.restoreHelp}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { CalibrationProfile, DisplaySignature } from '../lib/calibrationProfiles';
+import { Messages, useI18n } from '../lib/i18n';
+
+export const formatSignature = (signature: DisplaySignature, t: Messages): string =>
+  `${signature.screenWidth}×${signature.screenHeight} · ${signature.dpr}x · ${t.calibration.profiles.pointers[signature.pointer]}`;
+
+interface CalibrationProfilesProps {
+  profiles: CalibrationProfile[];
+  currentKey: string;
+  onApplyHere: (profile: CalibrationProfile) => void;
+  onDelete: (key: string) => void;
+}
+
+export const CalibrationProfiles: React.FC<CalibrationProfilesProps> = ({
+  profiles,
+  currentKey,
+  onApplyHere,
+  onDelete,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <details className="w-full max-w-xs text-[10px] font-mono text-gray-400">
+      <summary className="cursor-pointer text-gray-500 hover:text-gray-300">{t.calibration.profiles.title(profiles.length)}</summary>
+      <div className="mt-2 flex flex-col gap-1 max-h-40 overflow-y-auto">
+        {profiles.length === 0 && <div className="text-gray-600">{t.calibration.profiles.empty}</div>}
+        {profiles.map((profile) => {
+          const current = profile.key === currentKey;
+          return (
+            <div
+              key={profile.key}
+              className={`flex items-center gap-2 rounded border px-2 py-1 ${
+                current ? 'border-yellow-700 bg-yellow-900/20' : 'border-gray-800 bg-gray-900/60'
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-gray-300">
+                  {profile.signature ? formatSignature(profile.signature, t) : t.calibration.profiles.legacy}
+                </div>
+                {profile.pxPerCm && (
+                  <div className="text-gray-500">
+                    {t.calibration.profiles.scale(profile.pxPerCm.x.toFixed(2), profile.pxPerCm.y.toFixed(2))}
+                  </div>
+                )}
+                {profile.inputScale && (
+                  <div className="text-gray-500">
+                    {t.calibration.profiles.inputScale(
+                      profile.inputScale.wheel.toFixed(3),
+                      profile.inputScale.touch.toFixed(3)
+                    )}
+                  </div>
+                )}
+              </div>
+              {current ? (
+                <span className="text-yellow-400">{t.calibration.profiles.current}</span>
+              ) : (
+                <button
+                  className="rounded border border-gray-700 px-1 text-gray-300 hover:bg-gray-800"
+                  onClick={() => onApplyHere(profile)}
+                >
+                  {t.calibration.profiles.applyHere}
+                </button>
+              )}
+              <button
+                className="rounded border border-red-900 px-1 text-red-400 hover:bg-red-900/40"
+                onClick={() => onDelete(profile.key)}
+              >
+                {t.calibration.profiles.delete}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
@@ -1,95 +1,199 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { useI18n } from '../lib/i18n';
+import { PxPerCm } from '../types';
+import { COIN_SET_IDS, COIN_SETS, CoinSetId, detectCoinSet, ID1_CARD_MM, RULER_CM } from '../data/calibration';
 
 // Calibration reference objects
-type CalibMode = 'ruler' | 'coin';
+type CalibMode = 'card' | 'ruler' | 'coin';
+type Axis = keyof PxPerCm;
 
-interface CoinOption {
-  label: string;
-  diameterMm: number;
-}
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 1.8;
+const SCALE_STEP = 0.005;
+const CARD_CORNER_MM = 3.18;
 
-const COINS: CoinOption[] = [
-  { label: '1円玉', diameterMm: 20.0 },
-  { label: '5円玉', diameterMm: 22.0 },
-  { label: '10円玉', diameterMm: 23.5 },
-  { label: '50円玉', diameterMm: 21.0 },
-  { label: '100円玉', diameterMm: 22.6 },
-  { label: '500円玉', diameterMm: 26.5 },
-];
+const clampScale = (value: number): number => Math.min(MAX_SCALE, Math.max(MIN_SCALE, value));
 
-const RULER_CM = 5; // 定規で合わせる長さ
+interface ScaleSliderProps {
+  label?: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const ScaleSlider: React.FC<ScaleSliderProps> = ({ label, value, onChange }) => (
+  <div className="w-full">
+    <div className="flex items-center gap-3">
+      {label && <span className="w-12 text-[10px] text-gray-400 font-mono">{label}</span>}
+      <button
+        className="text-yellow-400 text-xl font-bold px-2 py-1 bg-gray-800 rounded active:bg-gray-700"
+        onClick={() => onChange(clampScale(+(value - SCALE_STEP).toFixed(3)))}
+      >
+        −
+      </button>
+      <input
+        type="range"
+        min={MIN_SCALE}
+        max={MAX_SCALE}
+        step={SCALE_STEP}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="flex-1 accent-yellow-400 h-2"
+      />
+      <button
+        className="text-yellow-400 text-xl font-bold px-2 py-1 bg-gray-800 rounded active:bg-gray-700"
+        onClick={() => onChange(clampScale(+(value + SCALE_STEP).toFixed(3)))}
+      >
+        +
+      </button>
+    </div>
+    <div className="text-center text-gray-600 text-[10px] mt-1 font-mono">
+      {((value - 1) * 100) >= 0 ? '+' : ''}{((value - 1) * 100).toFixed(1)}%
+    </div>
+  </div>
+);
 
 interface CalibrationProps {
-  onCalibrate: (pxPerCm: number) => void;
+  onCalibrate: (pxPerCm: PxPerCm) => void;
   onCancel: () => void;
-  initialPxPerCm: number;
+  initialPxPerCm: PxPerCm;
+  profileManager: React.ReactNode;
 }
 
 export const CardCalibration: React.FC<CalibrationProps> = ({
   onCalibrate,
   onCancel,
   initialPxPerCm,
+  profileManager,
 }) => {
-  const [mode, setMode] = useState<CalibMode>('ruler');
+  const { t } = useI18n();
+  const [mode, setMode] = useState<CalibMode>('card');
+  // 定規・硬貨は縦横の比を保ったまま拡大縮小し、カードは縦横を別々に合わせる
   const [scale, setScale] = useState(1.0);
+  const [cardScale, setCardScale] = useState<PxPerCm>({ x: 1, y: 1 });
+  const [coinSet, setCoinSet] = useState<CoinSetId>(() => detectCoinSet());
   const [selectedCoin, setSelectedCoin] = useState(0);
+  const dragRef = useRef<{ axis: Axis; start: number; startScale: number } | null>(null);
+
+  // Card: an ID-1 rectangle, each side adjusted independently
+  const cardBasePx: PxPerCm = {
+    x: (ID1_CARD_MM.width / 10) * initialPxPerCm.x,
+    y: (ID1_CARD_MM.height / 10) * initialPxPerCm.y,
+  };
+  const cardWidthPx = cardBasePx.x * cardScale.x;
+  const cardHeightPx = cardBasePx.y * cardScale.y;
 
   // Ruler: display a line that should be exactly RULER_CM cm
-  const rulerLengthPx = RULER_CM * initialPxPerCm * scale;
+  const rulerLengthPx = RULER_CM * initialPxPerCm.x * scale;
 
   // Coin: display a circle that should match the selected coin
-  const coin = COINS[selectedCoin];
-  const coinDiameterPx = (coin.diameterMm / 10) * initialPxPerCm * scale;
+  const coins = COIN_SETS[coinSet];
+  const coin = coins[Math.min(selectedCoin, coins.length - 1)];
+  const coinWidthPx = (coin.diameterMm / 10) * initialPxPerCm.x * scale;
+  const coinHeightPx = (coin.diameterMm / 10) * initialPxPerCm.y * scale;
+  const coinLabel = t.calibration.coins[coin.id];
+  const [rulerBefore, rulerLength, rulerAfter] = t.calibration.rulerHint(`${RULER_CM}cm`);
+  const [coinBefore, coinName, coinAfter] = t.calibration.coinHint(coinLabel);
+
+  const selectMode = (next: CalibMode) => {
+    setMode(next);
+    setScale(1.0);
+    setCardScale({ x: 1, y: 1 });
+  };
+
+  const handleDragStart = (axis: Axis) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { axis, start: axis === 'x' ? e.clientX : e.clientY, startScale: cardScale[axis] };
+  };
+
+  const handleDragMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = (drag.axis === 'x' ? e.clientX : e.clientY) - drag.start;
+    // 枠は中央寄せなので、辺は大きさの変化の半分しか動かない。辺が指に付いてくるよう2倍する
+    const next = clampScale(drag.startScale + (2 * delta) / cardBasePx[drag.axis]);
+    setCardScale((s) => ({ ...s, [drag.axis]: next }));
+  };
+
+  const handleDragEnd = () => {
+    dragRef.current = null;
+  };
 
   const handleConfirm = () => {
-    let realPxPerCm: number;
-    if (mode === 'ruler') {
-      // rulerLengthPx represents RULER_CM cm
-      realPxPerCm = rulerLengthPx / RULER_CM;
+    if (mode === 'card') {
+      // cardWidthPx represents 85.60 mm, cardHeightPx 53.98 mm
+      onCalibrate({ x: cardWidthPx / (ID1_CARD_MM.width / 10), y: cardHeightPx / (ID1_CARD_MM.height / 10) });
     } else {
-      // coinDiameterPx represents coin.diameterMm mm = coin.diameterMm/10 cm
-      realPxPerCm = coinDiameterPx / (coin.diameterMm / 10);
+      onCalibrate({ x: initialPxPerCm.x * scale, y: initialPxPerCm.y * scale });
     }
-    onCalibrate(realPxPerCm);
   };
 
+  const dragHandleProps = (axis: Axis) => ({
+    onPointerDown: handleDragStart(axis),
+    onPointerMove: handleDragMove,
+    onPointerUp: handleDragEnd,
+    onPointerCancel: handleDragEnd,
+  });
+
   return (
     <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col items-center justify-center p-4 select-none">
       {/* Title */}
       <div className="text-white text-center mb-4">
-        <h2 className="text-lg font-bold mb-1">📐 キャリブレーション</h2>
+        <h2 className="text-lg font-bold mb-1">{t.calibration.title}</h2>
         <p className="text-xs text-gray-400 leading-relaxed max-w-[280px]">
-          実物に合わせてスライダーで調整してください
+          {t.calibration.hint}
         </p>
       </div>
 
       {/* Mode tabs */}
       <div className="flex gap-1 mb-4">
-        <button
-          className={`px-4 py-1.5 rounded text-xs font-bold transition-colors ${
-            mode === 'ruler'
-              ? 'bg-yellow-600 text-black'
-              : 'bg-gray-800 text-gray-400 border border-gray-600'
-          }`}
-          onClick={() => { setMode('ruler'); setScale(1.0); }}
-        >
-          📏 定規
-        </button>
-        <button
-          className={`px-4 py-1.5 rounded text-xs font-bold transition-colors ${
-            mode === 'coin'
-              ? 'bg-yellow-600 text-black'
-              : 'bg-gray-800 text-gray-400 border border-gray-600'
-          }`}
-          onClick={() => { setMode('coin'); setScale(1.0); }}
-        >
-          🪙 硬貨
-        </button>
+        {(['card', 'ruler', 'coin'] as const).map((option) => (
+          <button
+            key={option}
+            className={`px-4 py-1.5 rounded text-xs font-bold transition-colors ${
+              mode === option
+                ? 'bg-yellow-600 text-black'
+                : 'bg-gray-800 text-gray-400 border border-gray-600'
+            }`}
+            onClick={() => selectMode(option)}
+          >
+            {t.calibration[option]}
+          </button>
+        ))}
       </div>
 
       {/* Reference display */}
       <div className="flex flex-col items-center justify-center min-h-[120px]">
-        {mode === 'ruler' ? (
+        {mode === 'card' ? (
+          /* === CARD MODE === */
+          <div className="flex flex-col items-center">
+            <div
+              className="relative border-2 border-yellow-400 flex items-center justify-center"
+              style={{
+                width: `${cardWidthPx}px`,
+                height: `${cardHeightPx}px`,
+                borderRadius: `${(CARD_CORNER_MM / 10) * initialPxPerCm.x * cardScale.x}px`,
+                boxShadow: '0 0 15px rgba(250,204,21,0.15)',
+              }}
+            >
+              <div className="text-yellow-400/30 text-[9px] font-mono text-center leading-tight">
+                <div>ID-1</div>
+                <div>{ID1_CARD_MM.width.toFixed(2)} × {ID1_CARD_MM.height.toFixed(2)} mm</div>
+              </div>
+              {/* Drag handles (right edge = width, bottom edge = height) */}
+              <div
+                className="absolute right-[-10px] top-1/2 -translate-y-1/2 w-4 h-10 rounded bg-yellow-400 cursor-ew-resize touch-none"
+                {...dragHandleProps('x')}
+              />
+              <div
+                className="absolute bottom-[-10px] left-1/2 -translate-x-1/2 w-10 h-4 rounded bg-yellow-400 cursor-ns-resize touch-none"
+                {...dragHandleProps('y')}
+              />
+            </div>
+            <div className="mt-6 text-xs text-gray-500 font-mono max-w-[280px] text-center">
+              {t.calibration.cardHint}
+            </div>
+          </div>
+        ) : mode === 'ruler' ? (
           /* === RULER MODE === */
           <div className="flex flex-col items-center">
             {/* The ruler line */}
@@ -115,25 +219,41 @@ export const CardCalibration: React.FC<CalibrationProps> = ({
               <div className="absolute right-0 top-[14px] text-[9px] text-yellow-400/70 translate-x-[-50%]">{RULER_CM}</div>
             </div>
             <div className="mt-6 text-xs text-gray-500 font-mono">
-              この線を定規で <span className="text-yellow-400 font-bold">{RULER_CM}cm</span> に合わせてください
+              {rulerBefore}<span className="text-yellow-400 font-bold">{rulerLength}</span>{rulerAfter}
             </div>
           </div>
         ) : (
           /* === COIN MODE === */
           <div className="flex flex-col items-center">
+            {/* Currency selector */}
+            <div className="flex gap-1 mb-2">
+              {COIN_SET_IDS.map((id) => (
+                <button
+                  key={id}
+                  className={`px-2 py-0.5 rounded text-[10px] font-mono transition-colors ${
+                    id === coinSet
+                      ? 'bg-yellow-600 text-black font-bold'
+                      : 'bg-gray-800 text-gray-400 border border-gray-700'
+                  }`}
+                  onClick={() => { setCoinSet(id); setSelectedCoin(0); setScale(1.0); }}
+                >
+                  {id.toUpperCase()}
+                </button>
+              ))}
+            </div>
             {/* Coin selector */}
             <div className="flex flex-wrap gap-1 mb-4 justify-center max-w-[280px]">
-              {COINS.map((c, i) => (
+              {coins.map((c, i) => (
                 <button
-                  key={i}
+                  key={c.id}
                   className={`px-2 py-1 rounded text-[10px] transition-colors ${
-                    i === selectedCoin
+                    c.id === coin.id
                       ? 'bg-yellow-600 text-black font-bold'
                       : 'bg-gray-800 text-gray-400 border border-gray-700'
                   }`}
                   onClick={() => { setSelectedCoin(i); setScale(1.0); }}
                 >
-                  {c.label}
+                  {t.calibration.coins[c.id]}
                 </button>
               ))}
             </div>
@@ -141,51 +261,41 @@ export const CardCalibration: React.FC<CalibrationProps> = ({
             <div
               className="border-2 border-dashed border-yellow-400 rounded-full flex items-center justify-center transition-all duration-100"
               style={{
-                width: `${coinDiameterPx}px`,
-                height: `${coinDiameterPx}px`,
+                width: `${coinWidthPx}px`,
+                height: `${coinHeightPx}px`,
                 boxShadow: '0 0 15px rgba(250,204,21,0.15)',
               }}
             >
               <div className="text-yellow-400/30 text-[9px] font-mono text-center leading-tight">
-                <div>{coin.label}</div>
+                <div>{coinLabel}</div>
                 <div>{coin.diameterMm}mm</div>
               </div>
             </div>
             <div className="mt-3 text-xs text-gray-500 font-mono">
-              <span className="text-yellow-400 font-bold">{coin.label}</span> を円に重ねてサイズを合わせてください
+              {coinBefore}<span className="text-yellow-400 font-bold">{coinName}</span>{coinAfter}
             </div>
           </div>
         )}
       </div>
 
       {/* Slider */}
-      <div className="mt-4 w-full max-w-xs px-4">
-        <div className="flex items-center gap-3">
-          <button
-            className="text-yellow-400 text-xl font-bold px-2 py-1 bg-gray-800 rounded active:bg-gray-700"
-            onClick={() => setScale(s => Math.max(0.5, +(s - 0.005).toFixed(3)))}
-          >
-            −
-          </button>
-          <input
-            type="range"
-            min={0.5}
-            max={1.8}
-            step={0.005}
-            value={scale}
-            onChange={(e) => setScale(parseFloat(e.target.value))}
-            className="flex-1 accent-yellow-400 h-2"
-          />
-          <button
-            className="text-yellow-400 text-xl font-bold px-2 py-1 bg-gray-800 rounded active:bg-gray-700"
-            onClick={() => setScale(s => Math.min(1.8, +(s + 0.005).toFixed(3)))}
-          >
-            +
-          </button>
-        </div>
-        <div className="text-center text-gray-600 text-[10px] mt-1 font-mono">
-          {((scale - 1) * 100) >= 0 ? '+' : ''}{((scale - 1) * 100).toFixed(1)}%
-        </div>
+      <div className="mt-4 w-full max-w-xs px-4 flex flex-col gap-2">
+        {mode === 'card' ? (
+          <>
+            <ScaleSlider
+              label={t.calibration.horizontal}
+              value={cardScale.x}
+              onChange={(x) => setCardScale((s) => ({ ...s, x }))}
+            />
+            <ScaleSlider
+              label={t.calibration.vertical}
+              value={cardScale.y}
+              onChange={(y) => setCardScale((s) => ({ ...s, y }))}
+            />
+          </>
+        ) : (
+          <ScaleSlider value={scale} onChange={setScale} />
+        )}
       </div>
 
       {/* Buttons */}
@@ -194,15 +304,18 @@ export const CardCalibration: React.FC<CalibrationProps> = ({
           onClick={onCancel}
           className="px-5 py-2 bg-gray-800 text-gray-400 rounded border border-gray-600 text-sm active:bg-gray-700"
         >
-          キャンセル
+          {t.common.cancel}
         </button>
         <button
           onClick={handleConfirm}
           className="px-5 py-2 bg-yellow-600 text-black rounded font-bold text-sm active:bg-yellow-500"
         >
-          ✓ OK
+          {t.common.ok}
         </button>
       </div>
+
+      {/* Saved profiles for other displays */}
+      <div className="mt-5 w-full max-w-xs px-4">{profileManager}</div>
     </div>
   );
 };
@@ -0,0 +1,57 @@
+import React from 'react';
+import { DailyOutcome, DailyResult, DailyRules } from '../lib/daily';
+import { formatTime } from '../lib/format';
+import { useI18n } from '../lib/i18n';
+
+// ===== DailyChallengeCard: 今日のルールと成績（左の HUD に出す） =====
+
+interface DailyChallengeCardProps {
+  rules: DailyRules;
+  result: DailyResult | null;
+  streak: number;
+  running: boolean;
+  runTime: number; // ms
+  outcome: DailyOutcome | null; // 今回のランの判定（null = 判定前）
+}
+
+export const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({
+  rules,
+  result,
+  streak,
+  running,
+  runTime,
+  outcome,
+}) => {
+  const { t, units } = useI18n();
+
+  let status: React.ReactNode = null;
+  if (outcome?.cleared) {
+    status = <span className="text-green-400">{t.daily.cleared(formatTime(outcome.timeMs))}</span>;
+  } else if (outcome) {
+    status = <span className="text-red-400">{t.daily.failed}</span>;
+  } else if (running) {
+    status = <span className="text-yellow-300">{t.daily.remaining(formatTime(Math.max(0, rules.timeLimitMs - runTime)))}</span>;
+  }
+
+  return (
+    <div className="mt-1 flex flex-col gap-0.5 bg-black/70 border border-purple-800 text-purple-200 px-3 py-1 rounded text-xs">
+      <div className="flex justify-between gap-3">
+        <span className="font-bold">{t.daily.title}</span>
+        <span className="text-gray-400">{rules.dateKey}</span>
+      </div>
+      <div className="text-[10px] text-gray-400">{t.daily.rules(rules.resistance, rules.inertiaEnabled, rules.gravityMultiplier)}</div>
+      <div className="text-[10px]">
+        {t.daily.target(units.distance(rules.targetCm), formatTime(rules.timeLimitMs))}
+      </div>
+      {status && <div className="text-[11px] font-bold">{status}</div>}
+      <div className="flex justify-between gap-3 text-[10px] text-gray-400">
+        <span>
+          {result?.bestTimeMs != null ? t.daily.best(formatTime(result.bestTimeMs)) : t.daily.noBest}
+          {' · '}
+          {t.daily.attempts(result?.attempts ?? 0)}
+        </span>
+        {streak > 0 && <span className="text-orange-400">{t.daily.streak(streak)}</span>}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,16 @@
-import React from 'react';
-import { SplitRecord } from '../types';
+import React, { useState } from 'react';
+import { GAME_MODES, GameMode, GhostDelta, ResistanceType, RunIntegrity, RunSample, SplitRecord } from '../types';
+import { GhostCurve } from './GhostOverlay';
+import { isPackAvailable, PackManifestEntry } from '../lib/achievementPacks';
+import { LOCALE_NAMES, LOCALES, LocaleSetting, localized, useI18n } from '../lib/i18n';
+import { formatDelta, formatTime, UNIT_SYSTEMS, UnitSystem } from '../lib/format';
+
+export interface GhostHudInfo {
+  depthCm: number; // ゴーストの現在深度
+  samples: RunSample[];
+  currentSamples: RunSample[];
+  deltas: GhostDelta[];
+}
 
 interface DepthMeterProps {
   depth: number; // In pixels
@@ -11,44 +22,49 @@ interface DepthMeterProps {
   maxSpeed: number; // m/s
   totalDistance: number; // m
   maxAccel: number; // m/s^2
+  integrity: RunIntegrity | null; // null = ラン中でない
   scrollCount: number;
   pxToCm: number;
   inertiaEnabled: boolean;
   onInertiaEnabledChange: (value: boolean) => void;
+  resistance: ResistanceType;
+  onResistanceChange: (value: ResistanceType) => void;
+  rulesLocked: boolean; // デイリーチャレンジ中は抵抗・入力モードをその日のルールで固定
+  gameMode: GameMode;
+  onGameModeChange: (value: GameMode) => void;
+  challenge: React.ReactNode; // デイリーチャレンジのカード（無ければ null）
   isCalibrated: boolean;
   onCalibrateClick: () => void;
+  onScrollCalibrateClick: () => void;
   onResetCalibration: () => void;
   unlockedTitleCount: number;
   onTitleGalleryClick: () => void;
+  runHistoryCount: number;
+  onRunHistoryClick: () => void;
+  onBackupClick: () => void;
+  achievementPacks: PackManifestEntry[];
+  achievementPackId: string;
+  onAchievementPackChange: (id: string) => void;
+  achievementPackError: string | null;
+  localeSetting: LocaleSetting;
+  onLocaleSettingChange: (value: LocaleSetting) => void;
+  unitSystem: UnitSystem;
+  onUnitSystemChange: (value: UnitSystem) => void;
+  ghostEnabled: boolean;
+  onGhostEnabledChange: (value: boolean) => void;
+  ghost: GhostHudInfo | null;
+  nextMilestoneCm: number | null;
+  splitSettings: React.ReactNode;
 }
 
-const formatDistance = (pixels: number, pxToCm: number): string => {
-  const cm = pixels * pxToCm;
-  if (cm < 100) {
-    return `${cm.toFixed(1)} cm`;
-  } else {
-    return `${(cm / 100).toFixed(2)} m`;
-  }
-};
-
-const formatTime = (ms: number): string => {
-  const seconds = Math.floor(ms / 1000);
-  const decimals = Math.floor((ms % 1000) / 10); // 2 digits
-  return `${seconds}.${decimals.toString().padStart(2, '0')}s`;
-};
+// 細かいスプリットだと数百行になるので、HUD には直近のものだけ表示する
+const VISIBLE_SPLITS = 8;
 
-const formatSpeedMps = (mps: number): string => {
-  const cmPerSec = mps * 100;
-  if (cmPerSec < 100) {
-    return `${cmPerSec.toFixed(1)} cm/s`;
-  }
-  return `${mps.toFixed(2)} m/s`;
-};
-
-const formatKmhFromMps = (mps: number): string => {
-  const kmh = mps * 3.6;
-  return `${kmh.toFixed(1)} km/h`;
-};
+const RESISTANCE_OPTIONS: { value: ResistanceType; label: string }[] = [
+  { value: ResistanceType.STATIC, label: 'STATIC' },
+  { value: ResistanceType.ELASTIC, label: 'ELASTIC' },
+  { value: ResistanceType.GLITCH, label: 'GLITCH' },
+];
 
 export const DepthMeter: React.FC<DepthMeterProps> = ({
   depth,
@@ -60,27 +76,89 @@ export const DepthMeter: React.FC<DepthMeterProps> = ({
   maxSpeed,
   totalDistance,
   maxAccel,
+  integrity,
   scrollCount,
   pxToCm,
   inertiaEnabled,
   onInertiaEnabledChange,
+  resistance,
+  onResistanceChange,
+  rulesLocked,
+  gameMode,
+  onGameModeChange,
+  challenge,
   isCalibrated,
   onCalibrateClick,
+  onScrollCalibrateClick,
   onResetCalibration,
   unlockedTitleCount,
-  onTitleGalleryClick
+  onTitleGalleryClick,
+  runHistoryCount,
+  onRunHistoryClick,
+  onBackupClick,
+  achievementPacks,
+  achievementPackId,
+  onAchievementPackChange,
+  achievementPackError,
+  localeSetting,
+  onLocaleSettingChange,
+  unitSystem,
+  onUnitSystemChange,
+  ghostEnabled,
+  onGhostEnabledChange,
+  ghost,
+  nextMilestoneCm,
+  splitSettings
 }) => {
+  const { t, locale, units } = useI18n();
+  const [splitSettingsOpen, setSplitSettingsOpen] = useState(false);
+  const ghostDeltaByCm = new Map<number, number>((ghost?.deltas ?? []).map((d): [number, number] => [d.distanceCm, d.deltaMs]));
+  const splitCms = new Set(splits.map((split) => split.distanceCm));
+  // スプリット以外のチェックポイント（称号の高さ）は直近のものだけ表示
+  const extraGhostDeltas = (ghost?.deltas ?? []).filter((d) => !splitCms.has(d.distanceCm)).slice(-3).reverse();
+  const visibleSplits = splits.slice(-VISIBLE_SPLITS);
+
   return (
     <>
       {/* LEFT HUD: Depth & Record */}
       <div className="fixed top-4 left-4 z-50 font-mono text-sm md:text-base pointer-events-none select-none">
         <div className="flex flex-col gap-1">
           <div className="bg-black/80 border border-red-500 text-red-500 px-3 py-1 rounded shadow-[0_0_10px_rgba(239,68,68,0.3)]">
-            DEPTH: {formatDistance(depth, pxToCm)}
+            {t.hud.depth}: {units.distance(depth * pxToCm)}
           </div>
           <div className="bg-black/80 border border-gray-600 text-gray-400 px-3 py-1 rounded text-xs">
-            BEST: {formatDistance(highScore, pxToCm)}
+            {t.hud.best}: {units.distance(highScore * pxToCm)}
           </div>
+          {integrity && (
+            <div
+              className={`bg-black/70 border px-3 py-1 rounded text-[10px] ${
+                integrity.verdict === 'verified' ? 'border-green-900 text-green-500' : 'border-orange-700 text-orange-400'
+              }`}
+            >
+              <div>{t.hud.integrity[integrity.verdict]}</div>
+              {integrity.flags.map((flag) => (
+                <div key={flag} className="max-w-[200px] text-gray-400">
+                  {t.integrityFlags[flag]}
+                </div>
+              ))}
+            </div>
+          )}
+          {challenge}
+          {ghost && (
+            <div className="mt-1 flex flex-col gap-1 bg-black/70 border border-cyan-800 text-cyan-300 px-3 py-1 rounded text-xs">
+              <div className="flex justify-between gap-3">
+                <span>{t.hud.ghost}</span>
+                <span>{units.distance(ghost.depthCm)}</span>
+              </div>
+              <GhostCurve ghostSamples={ghost.samples} currentSamples={ghost.currentSamples} />
+              {extraGhostDeltas.map((d) => (
+                <div key={d.distanceCm} className="flex justify-between gap-3 text-[10px]">
+                  <span className="text-gray-400">{units.compactDistance(d.distanceCm)}</span>
+                  <span className={d.deltaMs < 0 ? 'text-green-400' : 'text-red-400'}>{formatDelta(d.deltaMs)}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -88,7 +166,7 @@ export const DepthMeter: React.FC<DepthMeterProps> = ({
         <div className="fixed top-4 right-4 z-50 flex flex-col items-end gap-2 font-mono select-none">
         {/* Timer */}
         <div className="flex flex-col items-end">
-          <div className="text-xs text-gray-500 mb-1">RUN TIME</div>
+          <div className="text-xs text-gray-500 mb-1">{t.hud.runTime}</div>
           <div className={`text-3xl md:text-4xl font-bold tracking-tighter ${runTime > 0 ? 'text-white' : 'text-gray-700'}`} style={{ fontVariantNumeric: 'tabular-nums' }}>
             {formatTime(runTime)}
           </div>
@@ -97,33 +175,33 @@ export const DepthMeter: React.FC<DepthMeterProps> = ({
         {/* Speedometer */}
         <div className="flex items-center gap-2 mt-2 bg-black/60 backdrop-blur px-3 py-2 rounded-lg border-r-2 border-yellow-500">
            <div className="text-right">
-            <div className="text-xl text-yellow-400 font-bold leading-none">{formatSpeedMps(currentSpeedMps)}</div>
-            <div className="text-[10px] text-yellow-600 leading-none mt-1">{formatKmhFromMps(currentSpeedMps)}</div>
+            <div className="text-xl text-yellow-400 font-bold leading-none">{units.speed(currentSpeedMps)}</div>
+            <div className="text-[10px] text-yellow-600 leading-none mt-1">{units.speedAlt(currentSpeedMps)}</div>
            </div>
-           <div className="text-xs text-gray-500 rotate-90 origin-center tracking-widest">SPD</div>
+           <div className="text-xs text-gray-500 rotate-90 origin-center tracking-widest">{t.hud.speed}</div>
         </div>
 
         {/* 追加: スクロール統計（シンプル） */}
         <div className="flex flex-col gap-1 mt-2 bg-black/70 px-3 py-2 rounded-lg border border-gray-700 text-xs min-w-[160px]">
-          <div className="flex justify-between"><span>AVE SPEED</span><span className="font-mono">{aveSpeed.toFixed(2)} m/s</span></div>
-          <div className="flex justify-between"><span>MAX SPEED</span><span className="font-mono">{maxSpeed.toFixed(2)} m/s</span></div>
-          <div className="flex justify-between"><span>TOTAL DIST</span><span className="font-mono">{totalDistance.toFixed(2)} m</span></div>
-          <div className="flex justify-between"><span>MAX ACCEL</span><span className="font-mono">{maxAccel.toFixed(2)} m/s²</span></div>
-          <div className="flex justify-between"><span>SCROLL COUNT</span><span className="font-mono">{scrollCount}</span></div>
+          <div className="flex justify-between"><span>{t.hud.aveSpeed}</span><span className="font-mono">{units.speed(aveSpeed)}</span></div>
+          <div className="flex justify-between"><span>{t.hud.maxSpeed}</span><span className="font-mono">{units.speed(maxSpeed)}</span></div>
+          <div className="flex justify-between"><span>{t.hud.totalDistance}</span><span className="font-mono">{units.distance(totalDistance * 100)}</span></div>
+          <div className="flex justify-between"><span>{t.hud.maxAccel}</span><span className="font-mono">{units.accel(maxAccel)}</span></div>
+          <div className="flex justify-between"><span>{t.hud.scrollCount}</span><span className="font-mono">{scrollCount}</span></div>
         </div>
 
         <div className="mt-2 bg-black/70 px-3 py-2 rounded-lg border border-gray-700 text-xs min-w-[160px] pointer-events-auto flex flex-col gap-2">
           {/* Calibration status & button */}
           <div className="flex items-center justify-between gap-2">
             <span className={isCalibrated ? 'text-green-400' : 'text-gray-500'}>
-              {isCalibrated ? '✓ 補正済み' : '自動推定'}
+              {isCalibrated ? t.hud.calibrated : t.hud.autoEstimated}
             </span>
             {isCalibrated ? (
               <button
                 className="text-[10px] text-red-400 border border-red-800 rounded px-2 py-0.5 active:bg-red-900/40"
                 onClick={onResetCalibration}
               >
-                RESET
+                {t.hud.resetCalibration}
               </button>
             ) : null}
           </div>
@@ -131,34 +209,172 @@ export const DepthMeter: React.FC<DepthMeterProps> = ({
             className="w-full py-1.5 bg-yellow-600/80 text-black rounded font-bold text-xs active:bg-yellow-500 transition-colors"
             onClick={onCalibrateClick}
           >
-            📐 CALIBRATE
+            {t.hud.calibrate}
           </button>
-          <label className="flex items-center justify-between gap-2">
-            <span>INERTIA</span>
+          <button
+            className="w-full py-1 bg-gray-800 text-yellow-400 rounded border border-yellow-800 font-bold text-[10px] active:bg-gray-700 transition-colors"
+            onClick={onScrollCalibrateClick}
+          >
+            {t.hud.calibrateScroll}
+          </button>
+          <label
+            className="flex items-center justify-between gap-2"
+            title={rulesLocked ? t.hud.rulesLocked : undefined}
+          >
+            <span>{t.hud.inertia}</span>
             <input
               type="checkbox"
               checked={inertiaEnabled}
+              disabled={rulesLocked}
               onChange={(e) => onInertiaEnabledChange(e.target.checked)}
             />
           </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>{t.hud.ghostToggle}</span>
+            <input
+              type="checkbox"
+              checked={ghostEnabled}
+              onChange={(e) => onGhostEnabledChange(e.target.checked)}
+            />
+          </label>
+          <div className="flex flex-col gap-1">
+            <span>{t.hud.gameMode}</span>
+            <div className="flex flex-wrap gap-1">
+              {GAME_MODES.map((option) => (
+                <button
+                  key={option}
+                  className={`flex-1 rounded px-1 py-0.5 text-[9px] font-bold transition-colors ${
+                    gameMode === option
+                      ? 'bg-red-600 text-black'
+                      : 'bg-gray-800 text-gray-400 border border-gray-700'
+                  }`}
+                  onClick={() => onGameModeChange(option)}
+                >
+                  {t.hud.gameModes[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-1" title={rulesLocked ? t.hud.rulesLocked : undefined}>
+            <span>{t.hud.resistance}</span>
+            <div className="flex gap-1">
+              {RESISTANCE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  className={`flex-1 rounded px-1 py-0.5 text-[9px] font-bold transition-colors disabled:opacity-50 ${
+                    resistance === option.value
+                      ? 'bg-red-600 text-black'
+                      : 'bg-gray-800 text-gray-400 border border-gray-700'
+                  }`}
+                  disabled={rulesLocked}
+                  onClick={() => onResistanceChange(option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span>{t.hud.titlePack}</span>
+            <select
+              className="rounded border border-gray-700 bg-gray-900 px-1 py-0.5 text-[10px] text-gray-300"
+              value={achievementPackId}
+              onChange={(e) => onAchievementPackChange(e.target.value)}
+            >
+              {achievementPacks.map((pack) => {
+                const text = localized(pack, pack.translations, locale);
+                return (
+                  <option key={pack.id} value={pack.id} disabled={!isPackAvailable(pack)} title={text.description}>
+                    {text.name}{pack.months ? t.hud.limitedPack : ''}
+                  </option>
+                );
+              })}
+            </select>
+            {achievementPackError && (
+              <span className="text-[9px] leading-tight text-red-400 max-w-[160px]">{achievementPackError}</span>
+            )}
+          </div>
+          <div className="flex flex-col gap-1">
+            <span>{t.hud.language}</span>
+            <div className="flex gap-1">
+              {(['auto', ...LOCALES] as const).map((option) => (
+                <button
+                  key={option}
+                  className={`flex-1 rounded px-1 py-0.5 text-[9px] font-bold transition-colors ${
+                    localeSetting === option
+                      ? 'bg-red-600 text-black'
+                      : 'bg-gray-800 text-gray-400 border border-gray-700'
+                  }`}
+                  onClick={() => onLocaleSettingChange(option)}
+                >
+                  {option === 'auto' ? t.hud.languageAuto : LOCALE_NAMES[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span>{t.hud.units}</span>
+            <div className="flex gap-1">
+              {UNIT_SYSTEMS.map((option) => (
+                <button
+                  key={option}
+                  className={`flex-1 rounded px-1 py-0.5 text-[9px] font-bold transition-colors ${
+                    unitSystem === option
+                      ? 'bg-red-600 text-black'
+                      : 'bg-gray-800 text-gray-400 border border-gray-700'
+                  }`}
+                  onClick={() => onUnitSystemChange(option)}
+                >
+                  {t.hud.unitSystems[option]}
+                </button>
+              ))}
+            </div>
+          </div>
           <button
             className="w-full py-1.5 bg-gray-800 hover:bg-gray-700 text-yellow-400 rounded font-bold text-xs transition-colors border border-gray-700"
             onClick={onTitleGalleryClick}
           >
-            🏆 称号 {unlockedTitleCount > 0 ? `(${unlockedTitleCount})` : ''}
+            {t.hud.titles(unlockedTitleCount)}
+          </button>
+          <button
+            className="w-full py-1.5 bg-gray-800 hover:bg-gray-700 text-cyan-400 rounded font-bold text-xs transition-colors border border-gray-700"
+            onClick={onRunHistoryClick}
+          >
+            {t.hud.history(runHistoryCount)}
+          </button>
+          <button
+            className="w-full py-1.5 bg-gray-800 hover:bg-gray-700 text-green-400 rounded font-bold text-xs transition-colors border border-gray-700"
+            onClick={onBackupClick}
+          >
+            {t.hud.backup}
           </button>
         </div>
 
         {/* Splits / Laps */}
-        <div className="mt-4 flex flex-col gap-1 items-end w-32">
-          {splits.map((split) => (
-            <div key={split.distanceCm} className="flex justify-between w-full text-xs bg-black/80 border-b border-gray-800 px-2 py-1 text-green-400 animate-[pulse_0.5s_ease-out]">
-              <span>{split.distanceCm >= 100 ? `${split.distanceCm/100}m` : `${split.distanceCm}cm`}</span>
+        <div className="mt-4 flex flex-col gap-1 items-end w-40">
+          <button
+            className="text-[10px] text-gray-500 hover:text-gray-300 pointer-events-auto"
+            onClick={() => setSplitSettingsOpen((open) => !open)}
+          >
+            {t.hud.splits} {splitSettingsOpen ? '▾' : '▸'}
+          </button>
+          {splitSettingsOpen && splitSettings}
+          {splits.length > visibleSplits.length && (
+            <div className="text-[10px] text-gray-600">{t.hud.moreSplits(splits.length - visibleSplits.length)}</div>
+          )}
+          {visibleSplits.map((split) => (
+            <div key={split.distanceCm} className="flex justify-between gap-2 w-full text-xs bg-black/80 border-b border-gray-800 px-2 py-1 text-green-400 animate-[pulse_0.5s_ease-out]">
+              <span>{units.compactDistance(split.distanceCm)}</span>
+              {ghostDeltaByCm.has(split.distanceCm) && (
+                <span className={(ghostDeltaByCm.get(split.distanceCm) ?? 0) < 0 ? 'text-green-300' : 'text-red-400'}>
+                  {formatDelta(ghostDeltaByCm.get(split.distanceCm) ?? 0)}
+                </span>
+              )}
               <span className="font-bold">{formatTime(split.timeMs)}</span>
             </div>
           ))}
-          {splits.length === 0 && runTime > 0 && (
-            <div className="text-[10px] text-gray-600 italic">NEXT: 1m</div>
+          {nextMilestoneCm !== null && runTime > 0 && (
+            <div className="text-[10px] text-gray-600 italic">{t.hud.next} {units.compactDistance(nextMilestoneCm)}</div>
           )}
         </div>
 
@@ -0,0 +1,71 @@
+import React from 'react';
+import { RunSample } from '../types';
+
+// ===== GhostCurve: depth-over-time sparkline for the HUD =====
+
+interface GhostCurveProps {
+  ghostSamples: RunSample[];
+  currentSamples: RunSample[];
+  width?: number;
+  height?: number;
+}
+
+const toPath = (samples: RunSample[], maxT: number, maxCm: number, width: number, height: number): string =>
+  samples
+    .map((s, i) => {
+      const x = (s.t / maxT) * width;
+      const y = (s.depthCm / maxCm) * height; // 深いほど下
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+export const GhostCurve: React.FC<GhostCurveProps> = ({
+  ghostSamples,
+  currentSamples,
+  width = 140,
+  height = 48,
+}) => {
+  const all = [...ghostSamples, ...currentSamples];
+  const maxT = Math.max(1, ...all.map((s) => s.t));
+  const maxCm = Math.max(1, ...all.map((s) => s.depthCm));
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <rect x={0} y={0} width={width} height={height} fill="rgba(0,0,0,0.5)" stroke="rgba(75,85,99,0.6)" />
+      <path
+        d={toPath(ghostSamples, maxT, maxCm, width, height)}
+        fill="none"
+        stroke="rgba(34,211,238,0.7)"
+        strokeWidth={1.5}
+        strokeDasharray="3 2"
+      />
+      <path d={toPath(currentSamples, maxT, maxCm, width, height)} fill="none" stroke="#ef4444" strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+// ===== GhostMarker: where the ghost is relative to you, on the background =====
+
+interface GhostMarkerProps {
+  offsetPx: number; // 正 = ゴーストの方が深い（画面の下側）
+  label: string;
+}
+
+export const GhostMarker: React.FC<GhostMarkerProps> = ({ offsetPx, label }) => {
+  const limit = (window.innerHeight || 0) / 2 - 24;
+  const clamped = Math.max(-limit, Math.min(limit, offsetPx));
+  const offscreen = clamped !== offsetPx;
+
+  return (
+    <div
+      className="absolute left-0 right-0 pointer-events-none flex items-center gap-2 px-6"
+      style={{ top: `calc(50% + ${clamped}px)`, opacity: offscreen ? 0.4 : 0.8 }}
+    >
+      <div className="h-[2px] flex-1 bg-gradient-to-r from-transparent via-cyan-400/60 to-transparent" />
+      <span className="font-mono text-[10px] text-cyan-300 whitespace-nowrap">
+        {offscreen ? (offsetPx > 0 ? '▼ ' : '▲ ') : ''}👻 {label}
+      </span>
+      <div className="h-[2px] flex-1 bg-gradient-to-r from-transparent via-cyan-400/60 to-transparent" />
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TIER_STYLES } from './TitleUnlockOverlay';
+import { downloadBlob, shareOrDownload } from '../lib/download';
+import { formatTime, UnitFormatter } from '../lib/format';
+import { Messages, useI18n } from '../lib/i18n';
+import { renderResultCard, ResultCardContent, resultLink, SharedResult } from '../lib/resultCard';
+import { ResultImageDetails } from '../lib/resultImage';
+import { runModeLabel } from '../lib/runHistory';
+
+const SITE_NAME = 'THE IMMOVABLE SCROLL';
+
+// 数値とモード名は見る人の単位系・言葉で、称号は送った人の言葉のまま載せる
+const cardContent = (
+  result: SharedResult,
+  t: Messages,
+  units: UnitFormatter,
+  details: ResultImageDetails | undefined
+): ResultCardContent => ({
+  siteName: SITE_NAME,
+  depth: units.distance(result.maxDepthCm),
+  time: formatTime(result.runTimeMs),
+  mode: runModeLabel(result.mode, t),
+  splits: result.splits.map((split) => ({
+    distance: units.compactDistance(split.distanceCm),
+    time: formatTime(split.timeMs),
+  })),
+  title: result.title && {
+    heading: t.resultCard.titleHeading(TIER_STYLES[result.title.tier].label),
+    label: result.title.label,
+    style: TIER_STYLES[result.title.tier],
+  },
+  details,
+});
+
+// ===== ResultCardPanel: カードのプレビューと保存・共有 =====
+
+interface ResultCardPanelProps {
+  result: SharedResult;
+  actions?: boolean; // 届いた結果を見るときはボタンを出さない
+  details?: ResultImageDetails; // 自分のランの結果画面だけ（リンクには載らない）
+}
+
+export const ResultCardPanel: React.FC<ResultCardPanelProps> = ({ result, actions = true, details }) => {
+  const { t, units } = useI18n();
+  const [image, setImage] = useState<{ blob: Blob; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    setImage(null);
+    setError(null);
+    renderResultCard(cardContent(result, t, units, details))
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImage({ blob, url });
+      })
+      .catch(() => {
+        if (!cancelled) setError(t.resultCard.failed);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [result, t, units, details]);
+
+  const filename = `immovable-card-${new Date(result.finishedAt).toISOString().slice(0, 10)}.png`;
+
+  const withErrorReport = useCallback(async (action: () => Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch {
+      setError(t.resultCard.failed);
+    }
+  }, [t]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {image ? (
+        <img src={image.url} alt={units.distance(result.maxDepthCm)} className="w-full rounded border border-gray-800" />
+      ) : (
+        <div
+          className={`${details ? 'aspect-[1/2]' : 'aspect-[40/21]'} w-full rounded border border-gray-800 bg-gray-900 animate-pulse`}
+        />
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      {notice && <div className="text-xs text-cyan-300">{notice}</div>}
+      {actions && (
+        <div className="flex flex-wrap justify-end gap-2 text-xs">
+          <button
+            className="rounded border border-gray-700 px-2 py-1 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+            disabled={!image}
+            onClick={() => image && downloadBlob(filename, image.blob)}
+          >
+            {t.resultCard.download}
+          </button>
+          {typeof navigator.share === 'function' && (
+            <button
+              className="rounded border border-gray-700 px-2 py-1 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+              disabled={!image}
+              onClick={() =>
+                image &&
+                withErrorReport(() =>
+                  shareOrDownload(
+                    filename,
+                    image.blob,
+                    t.resultCard.shareText(units.distance(result.maxDepthCm), formatTime(result.runTimeMs)),
+                    resultLink(result, window.location)
+                  )
+                )
+              }
+            >
+              {t.resultCard.share}
+            </button>
+          )}
+          <button
+            className="rounded border border-gray-700 px-2 py-1 text-gray-300 hover:bg-gray-800"
+            onClick={() =>
+              withErrorReport(async () => {
+                await navigator.clipboard.writeText(resultLink(result, window.location));
+                setNotice(t.resultCard.copied);
+              })
+            }
+          >
+            {t.resultCard.copyLink}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ===== SharedResultView: 共有リンク (#result=...) で開かれたときの表示 =====
+
+interface SharedResultViewProps {
+  result: SharedResult | null; // null = リンクが壊れていた
+  onClose: () => void;
+}
+
+export const SharedResultView: React.FC<SharedResultViewProps> = ({ result, onClose }) => {
+  const { t, locale } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col items-center justify-center p-4 select-none">
+      <div className="text-white text-center mb-4">
+        <h2 className="text-lg font-bold mb-1">{t.resultCard.received}</h2>
+        {result && (
+          <p className="text-xs text-gray-400">
+            {t.resultCard.receivedAt(new Date(result.finishedAt).toLocaleDateString(locale))}
+          </p>
+        )}
+      </div>
+
+      <div className="w-[90vw] max-w-lg">
+        {result ? (
+          <ResultCardPanel result={result} actions={false} />
+        ) : (
+          <div className="rounded border border-red-800 bg-red-950/40 px-3 py-2 text-xs text-red-300">
+            {t.resultCard.invalidLink}
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={onClose}
+        className="mt-8 px-6 py-2 bg-yellow-600 text-black rounded font-bold text-sm active:bg-yellow-500"
+      >
+        {t.resultCard.play}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { RunRecord } from '../types';
+import { personalBestsOf, runModeKey, runModeKeysOf, runModeLabel } from '../lib/runHistory';
+import { errorMessage, useI18n } from '../lib/i18n';
+import { formatTime } from '../lib/format';
+
+type SortKey = 'date' | 'depth' | 'time' | 'speed';
+
+const SORT_OPTIONS: SortKey[] = ['date', 'depth', 'time', 'speed'];
+
+const SORTERS: Record<SortKey, (a: RunRecord, b: RunRecord) => number> = {
+  date: (a, b) => b.finishedAt - a.finishedAt,
+  depth: (a, b) => b.maxDepthCm - a.maxDepthCm,
+  time: (a, b) => b.runTime - a.runTime,
+  speed: (a, b) => b.maxSpeed - a.maxSpeed,
+};
+
+const formatDate = (epochMs: number): string => {
+  const d = new Date(epochMs);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+interface RunHistoryProps {
+  runs: RunRecord[];
+  onPin: (id: string, pinned: boolean) => void;
+  onDelete: (id: string) => void;
+  onWatch: (id: string) => Promise<void>;
+  onExportReplay: (id: string) => Promise<void>;
+  onImportReplay: (file: File) => Promise<void>;
+  onExportRuns: (runs: RunRecord[], format: 'json' | 'csv') => void;
+  onExportCurrentRun: (format: 'json' | 'csv') => void;
+  onImportRuns: (file: File) => Promise<number>;
+  onClose: () => void;
+}
+
+export const RunHistory: React.FC<RunHistoryProps> = ({
+  runs,
+  onPin,
+  onDelete,
+  onWatch,
+  onExportReplay,
+  onImportReplay,
+  onExportRuns,
+  onExportCurrentRun,
+  onImportRuns,
+  onClose,
+}) => {
+  const { t, units } = useI18n();
+  const [closing, setClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const runsFileInputRef = useRef<HTMLInputElement>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [modeFilter, setModeFilter] = useState<string>('ALL');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const handleClose = useCallback(() => {
+    setClosing(true);
+    setTimeout(onClose, 300);
+  }, [onClose]);
+
+  const visibleRuns = useMemo(
+    () =>
+      runs
+        .filter((run) => modeFilter === 'ALL' || runModeKey(run) === modeFilter)
+        .sort(SORTERS[sortKey]),
+    [runs, modeFilter, sortKey]
+  );
+
+  // ピン留めがあればそれを、なければ最深ランをモードごとの自己ベストとする
+  const personalBests = useMemo(() => personalBestsOf(runs), [runs]);
+  const modeKeys = useMemo(() => runModeKeysOf(runs), [runs]);
+  const personalBestIds = useMemo(() => new Set(personalBests.map((run) => run.id)), [personalBests]);
+
+  const withErrorReport = (action: () => Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    action().catch((e: unknown) => setError(errorMessage(e, t)));
+  };
+
+  const handleImportRunsFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    withErrorReport(async () => {
+      const added = await onImportRuns(file);
+      setNotice(t.history.imported(added));
+    });
+  };
+
+  const handleExportCurrent = (format: 'json' | 'csv') => {
+    withErrorReport(async () => onExportCurrentRun(format));
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) withErrorReport(() => onImportReplay(file));
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirmDeleteId !== id) {
+      setConfirmDeleteId(id);
+      return;
+    }
+    setConfirmDeleteId(null);
+    onDelete(id);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[80] flex items-center justify-center pointer-events-auto"
+      style={{
+        background: 'rgba(0,0,0,0.85)',
+        backdropFilter: 'blur(6px)',
+        opacity: closing ? 0 : 1,
+        transition: 'opacity 0.3s',
+      }}
+      onClick={handleClose}
+    >
+      <div
+        className="relative w-[90vw] max-w-lg max-h-[80vh] overflow-y-auto rounded-xl border border-gray-700 bg-gray-950/95 p-5 font-mono"
+        style={{
+          transform: closing ? 'scale(0.9) translateY(20px)' : 'scale(1) translateY(0)',
+          transition: 'transform 0.3s',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-bold text-cyan-400 tracking-wide">{t.history.title}</h2>
+            <p className="text-xs text-gray-500 mt-0.5">{t.history.count(runs.length)}</p>
+          </div>
+          <button
+            className="ml-auto mr-2 rounded border border-gray-700 px-2 py-1 text-[10px] text-gray-300 hover:bg-gray-800"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {t.history.importReplay}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <button
+            className="text-gray-500 hover:text-white transition-colors text-xl leading-none px-2"
+            onClick={handleClose}
+          >
+            {t.common.close}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-3 rounded border border-red-800 bg-red-950/40 px-3 py-2 text-xs text-red-300">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mb-3 rounded border border-cyan-800 bg-cyan-950/40 px-3 py-2 text-xs text-cyan-300">
+            {notice}
+          </div>
+        )}
+
+        {/* Data export / import (spreadsheet analysis) */}
+        <div className="mb-4 flex flex-wrap items-center gap-1 text-[10px]">
+          <span className="mr-1 text-gray-500">{t.history.visibleRuns}</span>
+          <button
+            className="rounded border border-gray-700 px-2 py-0.5 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+            disabled={visibleRuns.length === 0}
+            onClick={() => onExportRuns(visibleRuns, 'json')}
+          >
+            ⬇ JSON
+          </button>
+          <button
+            className="rounded border border-gray-700 px-2 py-0.5 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+            disabled={visibleRuns.length === 0}
+            onClick={() => onExportRuns(visibleRuns, 'csv')}
+          >
+            ⬇ CSV
+          </button>
+          <span className="ml-2 mr-1 text-gray-500">{t.history.currentRun}</span>
+          <button
+            className="rounded border border-gray-700 px-2 py-0.5 text-gray-300 hover:bg-gray-800"
+            onClick={() => handleExportCurrent('json')}
+          >
+            ⬇ JSON
+          </button>
+          <button
+            className="rounded border border-gray-700 px-2 py-0.5 text-gray-300 hover:bg-gray-800"
+            onClick={() => handleExportCurrent('csv')}
+          >
+            ⬇ CSV
+          </button>
+          <button
+            className="ml-auto rounded border border-gray-700 px-2 py-0.5 text-gray-300 hover:bg-gray-800"
+            onClick={() => runsFileInputRef.current?.click()}
+          >
+            {t.history.importRuns}
+          </button>
+          <input
+            ref={runsFileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportRunsFile}
+          />
+        </div>
+
+        {/* Personal bests per mode */}
+        {personalBests.length > 0 && (
+          <div className="mb-4 flex flex-col gap-1">
+            <div className="text-[10px] text-gray-500">{t.history.personalBest}</div>
+            {personalBests.map((run) => (
+              <div
+                key={run.id}
+                className="flex items-center justify-between gap-2 rounded border border-cyan-800/60 bg-cyan-900/20 px-2 py-1 text-xs"
+              >
+                <span className="text-gray-400">{run.pinned ? '📌 ' : ''}{runModeLabel(runModeKey(run), t)}</span>
+                <span className="text-cyan-300 font-bold">{units.distance(run.maxDepthCm)}</span>
+                <span className="text-gray-400">{formatTime(run.runTime)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Controls */}
+        <div className="mb-3 flex gap-2 text-xs">
+          <select
+            className="flex-1 rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-300"
+            value={modeFilter}
+            onChange={(e) => setModeFilter(e.target.value)}
+          >
+            <option value="ALL">{t.history.allModes}</option>
+            {modeKeys.map((key) => (
+              <option key={key} value={key}>{runModeLabel(key, t)}</option>
+            ))}
+          </select>
+          <select
+            className="flex-1 rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-300"
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option} value={option}>{t.history.sorts[option]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Run list */}
+        <div className="flex flex-col gap-2">
+          {visibleRuns.map((run) => (
+            <div
+              key={run.id}
+              className={`rounded-lg border px-3 py-2 text-xs ${
+                personalBestIds.has(run.id) ? 'border-cyan-700/60 bg-cyan-950/30' : 'border-gray-800 bg-gray-900/40'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-gray-500">{formatDate(run.finishedAt)}</span>
+                <span className="text-[10px] text-gray-500">{runModeLabel(runModeKey(run), t)}</span>
+              </div>
+              <div className="mt-1 flex items-center justify-between gap-2">
+                <span className="text-base font-bold text-white">{units.distance(run.maxDepthCm)}</span>
+                <span className="text-gray-300">{formatTime(run.runTime)}</span>
+                <span className="text-gray-400">{units.speed(run.maxSpeed)}</span>
+              </div>
+              <div className="mt-1 flex items-center justify-between gap-2 text-[10px] text-gray-500">
+                <span>
+                  {t.history.runSummary(run.splits.length, run.scrollCount)}
+                  {run.calibrated ? t.history.calibrated : ''}
+                  {run.integrity?.verdict === 'suspicious' && (
+                    <span
+                      className="text-orange-400"
+                      title={run.integrity.flags.map((flag) => t.integrityFlags[flag]).join('\n')}
+                    >
+                      {t.history.suspicious}
+                    </span>
+                  )}
+                </span>
+                <span className="flex gap-1">
+                  {run.hasReplay && (
+                    <>
+                      <button
+                        className="rounded border border-gray-700 px-2 py-0.5 text-gray-300"
+                        onClick={() => withErrorReport(() => onWatch(run.id))}
+                      >
+                        ▶
+                      </button>
+                      <button
+                        className="rounded border border-gray-700 px-2 py-0.5 text-gray-300"
+                        onClick={() => withErrorReport(() => onExportReplay(run.id))}
+                      >
+                        ⬇
+                      </button>
+                    </>
+                  )}
+                  <button
+                    className={`rounded border px-2 py-0.5 ${
+                      run.pinned ? 'border-cyan-500 text-cyan-300' : 'border-gray-700 text-gray-400'
+                    }`}
+                    onClick={() => onPin(run.id, !run.pinned)}
+                  >
+                    {t.history.pin}
+                  </button>
+                  <button
+                    className="rounded border border-red-800 px-2 py-0.5 text-red-400 active:bg-red-900/40"
+                    onClick={() => handleDelete(run.id)}
+                  >
+                    {confirmDeleteId === run.id ? t.history.confirmDelete : '🗑'}
+                  </button>
+                </span>
+              </div>
+            </div>
+          ))}
+          {visibleRuns.length === 0 && (
+            <div className="py-6 text-center text-xs text-gray-600">{t.history.empty}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useMemo } from 'react';
+import { Achievement } from '../data/achievements';
+import { RunRecord } from '../types';
+import { TIER_STYLES } from './TitleUnlockOverlay';
+import { ResultCardPanel } from './ResultCard';
+import { ChartPoint, chartBounds, downsample, projectPoints, zeroLineY } from '../lib/chart';
+import { formatDelta, formatSignedDistance, formatTime } from '../lib/format';
+import { localized, useI18n } from '../lib/i18n';
+import { cardTitleFor, sharedResultOf } from '../lib/resultCard';
+import { ResultImageChart, ResultImageDetails } from '../lib/resultImage';
+import { runModeKey, runModeLabel } from '../lib/runHistory';
+import { compareSplits, compareWithHistory, depthPoints, speedSeries } from '../lib/runSummary';
+
+// ===== LineChart: 結果画面の小さな折れ線グラフ =====
+
+interface ChartSeries {
+  points: ChartPoint[];
+  color: string;
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  label: string;
+  series: ChartSeries[];
+  flipped?: boolean;
+  formatY: (value: number) => string;
+  width?: number;
+  height?: number;
+}
+
+const toPath = (points: ChartPoint[]): string =>
+  points.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+
+const LineChart: React.FC<LineChartProps> = ({ label, series, flipped = false, formatY, width = 300, height = 72 }) => {
+  const bounds = chartBounds(series.map((s) => s.points));
+
+  return (
+    <div className="flex flex-col gap-0.5">
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{label}</span>
+        <span>{formatTime(bounds.maxX)}</span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full overflow-visible">
+        <rect x={0} y={0} width={width} height={height} fill="rgba(17,24,39,0.8)" stroke="rgba(75,85,99,0.6)" />
+        {bounds.minY < 0 && (
+          <line
+            x1={0}
+            x2={width}
+            y1={zeroLineY(bounds, height, flipped)}
+            y2={zeroLineY(bounds, height, flipped)}
+            stroke="rgba(107,114,128,0.6)"
+            strokeDasharray="3 3"
+          />
+        )}
+        {series.map((s, i) => (
+          <path
+            key={i}
+            d={toPath(projectPoints(s.points, bounds, width, height, flipped))}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={1.5}
+            strokeDasharray={s.dashed ? '3 2' : undefined}
+          />
+        ))}
+        <text x={4} y={flipped ? height - 4 : 10} fontSize={8} fill="#6b7280">
+          {formatY(bounds.maxY)}
+        </text>
+      </svg>
+    </div>
+  );
+};
+
+// ===== RunResults: ランが終わったときの結果画面 =====
+
+interface RunResultsProps {
+  run: RunRecord;
+  titles: Achievement[]; // このランで解放した称号
+  achievements: Achievement[]; // 選択中の称号パック（結果カードの称号を選ぶ）
+  history: RunRecord[];
+  onClose: () => void;
+}
+
+const DEPTH_COLOR = '#ef4444';
+const BEST_COLOR = 'rgba(34,211,238,0.7)';
+const SPEED_COLOR = '#facc15';
+const ACCEL_COLOR = '#c084fc';
+
+export const RunResults: React.FC<RunResultsProps> = ({ run, titles, achievements, history, onClose }) => {
+  const { t, locale, units } = useI18n();
+
+  const comparison = useMemo(() => compareWithHistory(run, history), [run, history]);
+  const splits = useMemo(() => compareSplits(run, comparison.personalBest), [run, comparison.personalBest]);
+  const depthSeries = useMemo(() => downsample(depthPoints(run.samples ?? [])), [run]);
+  const bestSeries = useMemo(
+    () => downsample(depthPoints(comparison.personalBest?.samples ?? [])),
+    [comparison.personalBest]
+  );
+  const sharedResult = useMemo(
+    () => sharedResultOf(run, cardTitleFor(run, titles, achievements), locale),
+    [run, titles, achievements, locale]
+  );
+  const speeds = useMemo(() => speedSeries(run.samples ?? []), [run]);
+  const speedPoints = useMemo(() => downsample(speeds.map((p) => ({ x: p.t, y: p.speedMps }))), [speeds]);
+  const accelPoints = useMemo(() => downsample(speeds.map((p) => ({ x: p.t, y: p.accelMps2 }))), [speeds]);
+
+  const stats = useMemo(
+    () => [
+      { label: t.hud.depth, value: units.distance(run.maxDepthCm) },
+      { label: t.hud.runTime, value: formatTime(run.runTime) },
+      { label: t.hud.maxSpeed, value: units.speed(run.maxSpeed) },
+      { label: t.hud.maxAccel, value: units.accel(run.maxAccel) },
+      { label: t.hud.totalDistance, value: units.distance(run.totalDistance * 100) },
+      { label: t.hud.scrollCount, value: String(run.scrollCount) },
+    ],
+    [t, units, run]
+  );
+
+  // 結果カードの PNG には、カードの下にこの画面の数値とグラフも載せる
+  const details = useMemo<ResultImageDetails>(() => {
+    const chart = (
+      label: string,
+      series: ResultImageChart['series'],
+      format: (value: number) => string,
+      flipped = false
+    ): ResultImageChart => {
+      const bounds = chartBounds(series.map((s) => s.points));
+      return { label, series, flipped, maxLabel: format(bounds.maxY), durationLabel: formatTime(bounds.maxX) };
+    };
+    const charts = [
+      chart(
+        t.results.depthChart,
+        [
+          { points: bestSeries, color: BEST_COLOR },
+          { points: depthSeries, color: DEPTH_COLOR },
+        ],
+        units.compactDistance,
+        true
+      ),
+      chart(t.results.speedChart, [{ points: speedPoints, color: SPEED_COLOR }], units.compactSpeed),
+      chart(t.results.accelChart, [{ points: accelPoints, color: ACCEL_COLOR }], units.compactAccel),
+    ];
+    return { stats, charts };
+  }, [t, units, stats, bestSeries, depthSeries, speedPoints, accelPoints]);
+
+  const best = comparison.personalBest;
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center pointer-events-auto bg-black/85 backdrop-blur-sm">
+      <div className="relative w-[90vw] max-w-lg max-h-[85vh] overflow-y-auto rounded-xl border border-gray-700 bg-gray-950/95 p-5 font-mono">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-bold text-red-500 tracking-wide">{t.results.title}</h2>
+            <p className="text-xs text-gray-500 mt-0.5">{runModeLabel(runModeKey(run), t)}</p>
+          </div>
+          <button className="text-gray-500 hover:text-white transition-colors text-xl leading-none px-2" onClick={onClose}>
+            {t.common.close}
+          </button>
+        </div>
+
+        {/* Headline stats */}
+        <div className="mb-4 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+          {stats.map((stat) => (
+            <div key={stat.label} className="flex justify-between gap-2">
+              <span className="text-gray-500">{stat.label}</span>
+              <span className="text-white font-bold">{stat.value}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Charts */}
+        <div className="mb-4 flex flex-col gap-2">
+          <LineChart
+            label={t.results.depthChart}
+            series={[
+              { points: bestSeries, color: BEST_COLOR, dashed: true },
+              { points: depthSeries, color: DEPTH_COLOR },
+            ]}
+            flipped
+            formatY={units.compactDistance}
+          />
+          <LineChart
+            label={t.results.speedChart}
+            series={[{ points: speedPoints, color: SPEED_COLOR }]}
+            formatY={units.compactSpeed}
+          />
+          <LineChart
+            label={t.results.accelChart}
+            series={[{ points: accelPoints, color: ACCEL_COLOR }]}
+            formatY={units.compactAccel}
+          />
+        </div>
+
+        {/* Splits vs personal best */}
+        <div className="mb-4 flex flex-col gap-1 text-xs">
+          <div className="text-[10px] text-gray-500">{t.results.splits}</div>
+          {splits.length === 0 && <div className="text-gray-600">{t.results.noSplits}</div>}
+          {splits.map((split) => (
+            <div key={split.distanceCm} className="flex justify-between gap-2">
+              <span className="text-gray-400">{units.compactDistance(split.distanceCm)}</span>
+              <span className="text-white">{formatTime(split.timeMs)}</span>
+              <span
+                className={`w-14 text-right ${
+                  split.bestMs === null ? 'text-gray-600' : split.timeMs <= split.bestMs ? 'text-green-400' : 'text-red-400'
+                }`}
+              >
+                {split.bestMs === null ? '—' : formatDelta(split.timeMs - split.bestMs)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Titles earned this run */}
+        <div className="mb-4 flex flex-col gap-1 text-xs">
+          <div className="text-[10px] text-gray-500">{t.results.titles}</div>
+          {titles.length === 0 && <div className="text-gray-600">{t.results.noTitles}</div>}
+          {titles.map((achievement) => (
+            <div key={achievement.key} className="font-bold" style={{ color: TIER_STYLES[achievement.tier].accent }}>
+              🏆 {localized(achievement, achievement.translations, locale).label}
+            </div>
+          ))}
+        </div>
+
+        {/* History comparison */}
+        <div className="mb-4 flex flex-col gap-1 text-xs">
+          <div className="text-[10px] text-gray-500">{t.results.history}</div>
+          {comparison.modeRunCount === 1 ? (
+            <div className="text-gray-400">{t.results.firstRun}</div>
+          ) : (
+            <>
+              <div className="text-white">{t.results.rank(comparison.depthRank, comparison.modeRunCount)}</div>
+              {best && (
+                <div className="text-cyan-300">
+                  {t.results.personalBest(
+                    units.distance(best.maxDepthCm),
+                    formatSignedDistance(run.maxDepthCm - best.maxDepthCm, units)
+                  )}
+                </div>
+              )}
+              {comparison.averageDepthCm !== null && (
+                <div className="text-gray-400">{t.results.average(units.distance(comparison.averageDepthCm))}</div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Result card (PNG / share / link) */}
+        <div className="mb-4 flex flex-col gap-1">
+          <div className="text-[10px] text-gray-500">{t.resultCard.title}</div>
+          <ResultCardPanel result={sharedResult} details={details} />
+        </div>
+      </div>
+    </div>
+  );
+};
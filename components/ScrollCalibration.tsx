@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../lib/i18n';
+import { InputScale, measureInputScale, normalizeWheelDelta, ScrollSource } from '../lib/input';
+
+// 指の移動量を測る方法
+type ScrollCalibMode = 'distance' | 'notches';
+type Phase = 'idle' | 'measuring' | 'done';
+
+const NOTCH_COUNT = 10;
+const DEFAULT_TRAVEL_CM = 5;
+const DEFAULT_NOTCH_MM = 3; // 直径 24mm 前後・1周 24 ノッチの一般的なホイール
+
+interface ScrollCalibrationProps {
+  pxPerCm: number; // 縦方向
+  lineHeightPx: number;
+  pageHeightPx: number;
+  current: InputScale | null;
+  onApply: (source: ScrollSource, scale: number) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const ScrollCalibration: React.FC<ScrollCalibrationProps> = ({
+  pxPerCm,
+  lineHeightPx,
+  pageHeightPx,
+  current,
+  onApply,
+  onReset,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<ScrollCalibMode>('distance');
+  const [travelCm, setTravelCm] = useState(DEFAULT_TRAVEL_CM);
+  const [notchMm, setNotchMm] = useState(DEFAULT_NOTCH_MM);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [totals, setTotals] = useState<Record<ScrollSource, number>>({ wheel: 0, touch: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  // 計測中はゲームの入力処理が止まっている（オーバーレイ表示中）ので、ここで直接受け取る
+  useEffect(() => {
+    if (phase !== 'measuring') return;
+    const add = (source: ScrollSource, delta: number) =>
+      setTotals((prev) => ({ ...prev, [source]: prev[source] + delta }));
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      add('wheel', normalizeWheelDelta(e, lineHeightPx, pageHeightPx));
+    };
+    let touchY = 0;
+    const handleTouchStart = (e: TouchEvent) => {
+      touchY = e.touches[0].clientY;
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      e.preventDefault();
+      const y = e.touches[0].clientY;
+      add('touch', touchY - y);
+      touchY = y;
+    };
+
+    window.addEventListener('wheel', handleWheel, { passive: false });
+    window.addEventListener('touchstart', handleTouchStart, { passive: false });
+    window.addEventListener('touchmove', handleTouchMove, { passive: false });
+    return () => {
+      window.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+    };
+  }, [phase, lineHeightPx, pageHeightPx]);
+
+  // 計測中に多く届いた方の入力を測ったものとみなす
+  const source: ScrollSource = Math.abs(totals.touch) > Math.abs(totals.wheel) ? 'touch' : 'wheel';
+  const scrolledPx = Math.abs(totals[source]);
+  const expectedCm = mode === 'distance' ? travelCm : (NOTCH_COUNT * notchMm) / 10;
+  const measured = phase === 'done' ? measureInputScale(expectedCm, scrolledPx, pxPerCm) : null;
+
+  const start = () => {
+    setTotals({ wheel: 0, touch: 0 });
+    setError(null);
+    setPhase('measuring');
+  };
+
+  const finish = () => {
+    setPhase('done');
+    if (mode === 'notches' && source !== 'wheel') {
+      setError(t.scrollCalibration.wheelOnly);
+    } else if (measureInputScale(expectedCm, scrolledPx, pxPerCm) === null) {
+      setError(t.scrollCalibration.invalid);
+    }
+  };
+
+  const selectMode = (next: ScrollCalibMode) => {
+    setMode(next);
+    setPhase('idle');
+    setError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col items-center justify-center p-4 select-none">
+      {/* Title */}
+      <div className="text-white text-center mb-4">
+        <h2 className="text-lg font-bold mb-1">{t.scrollCalibration.title}</h2>
+        <p className="text-xs text-gray-400 leading-relaxed max-w-[280px]">{t.scrollCalibration.hint}</p>
+      </div>
+
+      {/* Mode tabs */}
+      <div className="flex gap-1 mb-4">
+        {(['distance', 'notches'] as const).map((option) => (
+          <button
+            key={option}
+            className={`px-4 py-1.5 rounded text-xs font-bold transition-colors ${
+              mode === option
+                ? 'bg-yellow-600 text-black'
+                : 'bg-gray-800 text-gray-400 border border-gray-600'
+            }`}
+            onClick={() => selectMode(option)}
+          >
+            {t.scrollCalibration[option]}
+          </button>
+        ))}
+      </div>
+
+      {/* Target */}
+      <div className="w-full max-w-xs flex flex-col gap-2 text-xs font-mono text-gray-400">
+        <label className="flex items-center justify-between gap-2">
+          <span>{mode === 'distance' ? t.scrollCalibration.travelLabel : t.scrollCalibration.notchLabel}</span>
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={mode === 'distance' ? travelCm : notchMm}
+            disabled={phase === 'measuring'}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!Number.isFinite(value) || value <= 0) return;
+              if (mode === 'distance') setTravelCm(value);
+              else setNotchMm(value);
+            }}
+            className="w-20 rounded border border-gray-700 bg-gray-900 px-1 text-right text-gray-200"
+          />
+        </label>
+        <div className="text-gray-500 leading-relaxed">
+          {mode === 'distance'
+            ? t.scrollCalibration.distanceHint(`${travelCm}cm`)
+            : t.scrollCalibration.notchHint(NOTCH_COUNT)}
+        </div>
+      </div>
+
+      {/* Measurement */}
+      <div className="mt-4 min-h-[72px] flex flex-col items-center justify-center gap-1 font-mono">
+        {phase !== 'idle' && (
+          <div className={`text-sm ${phase === 'measuring' ? 'text-yellow-400 animate-pulse' : 'text-gray-300'}`}>
+            {t.scrollCalibration.measured(scrolledPx.toFixed(0))}
+            <span className="ml-2 text-[10px] text-gray-500">{t.scrollCalibration.sources[source]}</span>
+          </div>
+        )}
+        {measured !== null && !error && (
+          <div className="text-lg text-yellow-300 font-bold">
+            {t.scrollCalibration.result(t.scrollCalibration.sources[source], measured.toFixed(3))}
+          </div>
+        )}
+        {error && <div className="text-xs text-red-400 max-w-[280px] text-center">{error}</div>}
+        {current && (
+          <div className="text-[10px] text-gray-600">
+            {t.scrollCalibration.current(current.wheel.toFixed(3), current.touch.toFixed(3))}
+          </div>
+        )}
+      </div>
+
+      {/* Buttons */}
+      <div className="mt-5 flex flex-wrap justify-center gap-3">
+        <button
+          onClick={onClose}
+          className="px-5 py-2 bg-gray-800 text-gray-400 rounded border border-gray-600 text-sm active:bg-gray-700"
+        >
+          {t.common.cancel}
+        </button>
+        {phase === 'measuring' ? (
+          <button
+            onClick={finish}
+            className="px-5 py-2 bg-yellow-600 text-black rounded font-bold text-sm active:bg-yellow-500"
+          >
+            {t.scrollCalibration.finish}
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            className="px-5 py-2 bg-gray-800 text-yellow-400 rounded border border-yellow-700 font-bold text-sm active:bg-gray-700"
+          >
+            {phase === 'done' ? t.scrollCalibration.retry : t.scrollCalibration.start}
+          </button>
+        )}
+        {measured !== null && !error && (
+          <button
+            onClick={() => onApply(source, measured)}
+            className="px-5 py-2 bg-yellow-600 text-black rounded font-bold text-sm active:bg-yellow-500"
+          >
+            {t.scrollCalibration.apply}
+          </button>
+        )}
+      </div>
+      {current && (
+        <button className="mt-4 text-[10px] text-red-400 hover:text-red-300" onClick={onReset}>
+          {t.scrollCalibration.reset}
+        </button>
+      )}
+    </div>
+  );
+};
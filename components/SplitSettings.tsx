@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { parseMetersList, SplitDefinition, SplitSetKind } from '../lib/splits';
+import { errorMessage, useI18n } from '../lib/i18n';
+import { formatTime } from '../lib/format';
+
+const KIND_OPTIONS: SplitSetKind[] = ['default', 'interval', 'achievements', 'custom'];
+
+interface SplitSettingsProps {
+  definition: SplitDefinition;
+  milestoneCount: number;
+  sumOfBestMs: number | null;
+  bestPossibleMs: number | null;
+  onChange: (definition: SplitDefinition) => void;
+  onExport: () => void;
+  onImport: (file: File) => Promise<void>;
+}
+
+export const SplitSettings: React.FC<SplitSettingsProps> = ({
+  definition,
+  milestoneCount,
+  sumOfBestMs,
+  bestPossibleMs,
+  onChange,
+  onExport,
+  onImport,
+}) => {
+  const { t } = useI18n();
+  const [customText, setCustomText] = useState(definition.customM.join(', '));
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setCustomText(definition.customM.join(', '));
+  }, [definition.customM]);
+
+  const applyCustom = () => {
+    const customM = parseMetersList(customText);
+    if (customM.length === 0) {
+      setError(t.splitSettings.customError);
+      return;
+    }
+    setError(null);
+    onChange({ ...definition, customM });
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    onImport(file).catch((err: unknown) => setError(errorMessage(err, t)));
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 bg-black/80 border border-gray-700 rounded px-2 py-2 text-[10px] pointer-events-auto">
+      <div className="flex gap-1">
+        {KIND_OPTIONS.map((kind) => (
+          <button
+            key={kind}
+            className={`flex-1 rounded px-1 py-0.5 font-bold transition-colors ${
+              definition.kind === kind
+                ? 'bg-green-600 text-black'
+                : 'bg-gray-800 text-gray-400 border border-gray-700'
+            }`}
+            onClick={() => onChange({ ...definition, kind })}
+          >
+            {t.splitSettings.kinds[kind]}
+          </button>
+        ))}
+      </div>
+
+      {definition.kind === 'interval' && (
+        <label className="flex items-center justify-between gap-2 text-gray-400">
+          <span>{t.splitSettings.every}</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={definition.intervalM}
+            onChange={(e) => {
+              const intervalM = parseFloat(e.target.value);
+              if (Number.isFinite(intervalM) && intervalM > 0) onChange({ ...definition, intervalM });
+            }}
+            className="w-16 rounded border border-gray-700 bg-gray-900 px-1 text-right text-gray-200"
+          />
+          <span>m</span>
+        </label>
+      )}
+
+      {definition.kind === 'custom' && (
+        <input
+          type="text"
+          value={customText}
+          placeholder="1, 10, 100 (m)"
+          onChange={(e) => setCustomText(e.target.value)}
+          onBlur={applyCustom}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') applyCustom();
+          }}
+          className="rounded border border-gray-700 bg-gray-900 px-1 py-0.5 text-gray-200"
+        />
+      )}
+
+      <div className="flex justify-between text-gray-500">
+        <span>{t.splitSettings.count}</span>
+        <span>{milestoneCount}</span>
+      </div>
+      <div className="flex justify-between text-gray-400">
+        <span>{t.splitSettings.sumOfBest}</span>
+        <span className="text-yellow-300">{sumOfBestMs !== null ? formatTime(sumOfBestMs) : '--'}</span>
+      </div>
+      <div className="flex justify-between text-gray-400">
+        <span>{t.splitSettings.bestPossible}</span>
+        <span className="text-yellow-300">{bestPossibleMs !== null ? formatTime(bestPossibleMs) : '--'}</span>
+      </div>
+
+      {error && <div className="text-red-400">{error}</div>}
+
+      <div className="flex gap-1">
+        <button
+          className="flex-1 rounded border border-gray-700 px-1 py-0.5 text-gray-300 hover:bg-gray-800"
+          onClick={onExport}
+        >
+          {t.splitSettings.export}
+        </button>
+        <button
+          className="flex-1 rounded border border-gray-700 px-1 py-0.5 text-gray-300 hover:bg-gray-800"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {t.splitSettings.import}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+      </div>
+    </div>
+  );
+};
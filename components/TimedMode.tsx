@@ -0,0 +1,141 @@
+import React from 'react';
+import { SimulationState, TimedMode } from '../types';
+import { formatTime, UnitFormatter } from '../lib/format';
+import { Messages, useI18n } from '../lib/i18n';
+import { ENDURANCE_BAND_CM, enduranceGravityAt, SPRINT_LIMIT_MS, TARGET_RACE_CM } from '../lib/timedModes';
+
+export const formatTimedScore = (mode: TimedMode, score: number, units: UnitFormatter): string =>
+  mode === 'sprint' ? units.distance(score) : formatTime(score);
+
+const rulesText = (mode: TimedMode, t: Messages, units: UnitFormatter): string => {
+  if (mode === 'sprint') return t.timed.rules.sprint(formatTime(SPRINT_LIMIT_MS));
+  if (mode === 'endurance') return t.timed.rules.endurance(units.distance(ENDURANCE_BAND_CM));
+  return t.timed.rules.target(units.distance(TARGET_RACE_CM));
+};
+
+// ===== TimedModeCard: ラン中の残り時間など（左の HUD に出す） =====
+
+interface TimedModeCardProps {
+  mode: TimedMode;
+  sim: SimulationState;
+  pxToCm: number;
+  best: number | null;
+}
+
+export const TimedModeCard: React.FC<TimedModeCardProps> = ({ mode, sim, pxToCm, best }) => {
+  const { t, units } = useI18n();
+  const depthCm = sim.virtualDepth * pxToCm;
+
+  let status: string | null = null;
+  if (sim.running && mode === 'sprint') {
+    status = t.timed.remaining(formatTime(Math.max(0, SPRINT_LIMIT_MS - sim.runTime)));
+  } else if (sim.running && mode === 'endurance') {
+    const enteredAt = sim.splits.find((split) => split.distanceCm === ENDURANCE_BAND_CM)?.timeMs;
+    status = enteredAt === undefined
+      ? t.timed.belowBand(units.distance(ENDURANCE_BAND_CM))
+      : t.timed.held(formatTime(sim.runTime - enteredAt));
+  } else if (sim.running && mode === 'target') {
+    status = t.timed.toGo(units.distance(Math.max(0, TARGET_RACE_CM - depthCm)));
+  }
+
+  return (
+    <div className="mt-1 flex flex-col gap-0.5 bg-black/70 border border-amber-700 text-amber-200 px-3 py-1 rounded text-xs">
+      <div className="font-bold">{t.timed.names[mode]}</div>
+      {status && <div className="text-[11px] font-bold text-yellow-300">{status}</div>}
+      {mode === 'endurance' && sim.running && (
+        <div className="text-[10px] text-red-300">{t.timed.gravity(enduranceGravityAt(sim.runTime).toFixed(1))}</div>
+      )}
+      <div className="text-[10px] text-gray-400">
+        {best !== null ? t.timed.best(formatTimedScore(mode, best, units)) : t.timed.noBest}
+      </div>
+    </div>
+  );
+};
+
+// ===== TimedModeStart: スタート前の説明とカウントダウン =====
+
+interface TimedModeStartProps {
+  mode: TimedMode;
+  countdown: number | null; // null = スタート待ち, 0 = GO
+  onStart: () => void;
+}
+
+export const TimedModeStart: React.FC<TimedModeStartProps> = ({ mode, countdown, onStart }) => {
+  const { t, units } = useI18n();
+
+  if (countdown !== null) {
+    return (
+      <div className="fixed inset-0 z-40 flex items-center justify-center pointer-events-none select-none">
+        <div key={countdown} className="text-8xl font-black text-yellow-400 drop-shadow-[0_0_20px_rgba(250,204,21,0.6)] animate-pulse">
+          {countdown > 0 ? countdown : t.timed.go}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center pointer-events-none select-none">
+      <div className="pointer-events-auto flex flex-col items-center gap-3 rounded-lg border border-amber-700 bg-black/85 px-6 py-5 text-center max-w-[300px]">
+        <h2 className="text-lg font-bold text-amber-300">{t.timed.names[mode]}</h2>
+        <p className="text-xs text-gray-400 leading-relaxed">{rulesText(mode, t, units)}</p>
+        <button
+          className="px-6 py-2 bg-yellow-600 text-black rounded font-bold text-sm active:bg-yellow-500"
+          onClick={onStart}
+        >
+          {t.timed.start}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ===== TimedModeResult: 終了画面 =====
+
+interface TimedModeResultProps {
+  mode: TimedMode;
+  score: number | null; // null = 記録なし
+  best: number | null;
+  isNewBest: boolean;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+export const TimedModeResult: React.FC<TimedModeResultProps> = ({ mode, score, best, isNewBest, onRetry, onClose }) => {
+  const { t, units } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col items-center justify-center p-4 select-none">
+      <div className="text-white text-center mb-6">
+        <h2 className="text-lg font-bold mb-1">{t.timed.resultTitle}</h2>
+        <p className="text-xs text-gray-400">{t.timed.names[mode]}</p>
+      </div>
+
+      <div className="text-xs text-gray-500 font-mono">{t.timed.score}</div>
+      <div className="text-4xl font-black font-mono text-yellow-300 mb-2">
+        {score !== null ? formatTimedScore(mode, score, units) : t.timed.dnf}
+      </div>
+      {isNewBest ? (
+        <div className="text-sm font-bold text-green-400 animate-pulse">{t.timed.newBest}</div>
+      ) : (
+        <div className="text-xs text-gray-400 font-mono">
+          {best !== null ? t.timed.best(formatTimedScore(mode, best, units)) : t.timed.noBest}
+        </div>
+      )}
+
+      <div className="mt-8 flex gap-3">
+        <button
+          onClick={onClose}
+          className="px-5 py-2 bg-gray-800 text-gray-400 rounded border border-gray-600 text-sm active:bg-gray-700"
+        >
+          {t.common.close}
+        </button>
+        <button
+          onClick={onRetry}
+          className="px-5 py-2 bg-yellow-600 text-black rounded font-bold text-sm active:bg-yellow-500"
+        >
+          {t.timed.retry}
+        </button>
+      </div>
+    </div>
+  );
+};
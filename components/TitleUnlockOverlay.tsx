@@ -1,5 +1,17 @@
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
-import { ACHIEVEMENTS } from '../data/achievements';
+import {
+  Achievement,
+  AchievementCategory,
+  AchievementTier,
+  ACHIEVEMENT_CATEGORIES,
+  ACHIEVEMENT_TIERS,
+  tierRank,
+} from '../data/achievements';
+import { AchievementContext, AchievementProgress, evaluateAchievement, ProgressUnit } from '../lib/achievements';
+import { localized, Messages, useI18n } from '../lib/i18n';
+import { UnlockRecord } from '../types';
+import { formatCompactNumber, formatTime, UnitFormatter } from '../lib/format';
+import { runModeLabel } from '../lib/runHistory';
 
 // ===== Sparkle SVG path (4-pointed star) =====
 const SPARKLE_PATH =
@@ -15,15 +27,64 @@ interface Sparkle {
   duration: number;
 }
 
-const COLORS = ['#FFC700', '#FFD700', '#FFAA00', '#FFE066', '#FFFFFF', '#FFA0FF', '#60A5FA'];
+// ===== Tier styles =====
+// レアリティが高いほど演出を派手にする（パーティクル数・リングの大きさ・色）
+interface TierStyle {
+  label: string;
+  accent: string;
+  accentLight: string;
+  glow: string; // rgb triplet
+  sparkleCount: number;
+  ringSize: number;
+  colors: string[];
+}
+
+export const TIER_STYLES: Record<AchievementTier, TierStyle> = {
+  bronze: {
+    label: 'BRONZE',
+    accent: '#CD7F32',
+    accentLight: '#F0B27A',
+    glow: '205, 127, 50',
+    sparkleCount: 12,
+    ringSize: 160,
+    colors: ['#CD7F32', '#E09A5B', '#F0B27A', '#FFFFFF'],
+  },
+  silver: {
+    label: 'SILVER',
+    accent: '#C0C7D0',
+    accentLight: '#F1F5F9',
+    glow: '192, 199, 208',
+    sparkleCount: 18,
+    ringSize: 190,
+    colors: ['#C0C7D0', '#E2E8F0', '#FFFFFF', '#93C5FD'],
+  },
+  gold: {
+    label: 'GOLD',
+    accent: '#FFC700',
+    accentLight: '#FFE066',
+    glow: '255, 199, 0',
+    sparkleCount: 24,
+    ringSize: 220,
+    colors: ['#FFC700', '#FFD700', '#FFAA00', '#FFE066', '#FFFFFF', '#FFA0FF', '#60A5FA'],
+  },
+  legendary: {
+    label: 'LEGENDARY',
+    accent: '#E879F9',
+    accentLight: '#A5F3FC',
+    glow: '232, 121, 249',
+    sparkleCount: 40,
+    ringSize: 280,
+    colors: ['#E879F9', '#A5F3FC', '#FFC700', '#F472B6', '#FFFFFF', '#818CF8', '#4ADE80'],
+  },
+};
 
-function generateSparkles(count: number): Sparkle[] {
+function generateSparkles(count: number, colors: string[]): Sparkle[] {
   return Array.from({ length: count }, (_, i) => ({
     id: `s${i}-${Date.now()}`,
     x: (Math.random() - 0.5) * 80,
     y: (Math.random() - 0.5) * 60,
     size: Math.random() * 16 + 8,
-    color: COLORS[Math.floor(Math.random() * COLORS.length)],
+    color: colors[Math.floor(Math.random() * colors.length)],
     delay: Math.random() * 0.6,
     duration: 0.6 + Math.random() * 0.5,
   }));
@@ -32,20 +93,25 @@ function generateSparkles(count: number): Sparkle[] {
 // ===== TitleUnlockOverlay =====
 interface TitleUnlockOverlayProps {
   title: string | null;
+  tier: AchievementTier;
 }
 
-export const TitleUnlockOverlay: React.FC<TitleUnlockOverlayProps> = ({ title }) => {
+export const TitleUnlockOverlay: React.FC<TitleUnlockOverlayProps> = ({ title, tier }) => {
   const [visible, setVisible] = useState(false);
   const [displayTitle, setDisplayTitle] = useState<string | null>(null);
   const [phase, setPhase] = useState<'enter' | 'show' | 'exit'>('enter');
   const [sparkles, setSparkles] = useState<Sparkle[]>([]);
+  const { t } = useI18n();
+  const [displayTier, setDisplayTier] = useState<AchievementTier>(tier);
+  const style = TIER_STYLES[displayTier];
 
   useEffect(() => {
     if (title) {
       setDisplayTitle(title);
+      setDisplayTier(tier);
       setVisible(true);
       setPhase('enter');
-      setSparkles(generateSparkles(20));
+      setSparkles(generateSparkles(TIER_STYLES[tier].sparkleCount, TIER_STYLES[tier].colors));
 
       const enterTimer = setTimeout(() => setPhase('show'), 100);
       const exitTimer = setTimeout(() => setPhase('exit'), 2800);
@@ -60,6 +126,7 @@ export const TitleUnlockOverlay: React.FC<TitleUnlockOverlayProps> = ({ title })
         clearTimeout(hideTimer);
       };
     }
+    // tier は title と同時に変わるので title だけを見る
   }, [title]);
 
   if (!visible || !displayTitle) return null;
@@ -113,11 +180,11 @@ export const TitleUnlockOverlay: React.FC<TitleUnlockOverlayProps> = ({ title })
       <div
         className="absolute"
         style={{
-          width: 200,
-          height: 200,
+          width: style.ringSize,
+          height: style.ringSize,
           borderRadius: '50%',
-          border: '2px solid rgba(255, 199, 0, 0.6)',
-          boxShadow: '0 0 40px rgba(255, 199, 0, 0.3), inset 0 0 40px rgba(255, 199, 0, 0.1)',
+          border: `2px solid rgba(${style.glow}, 0.6)`,
+          boxShadow: `0 0 40px rgba(${style.glow}, 0.3), inset 0 0 40px rgba(${style.glow}, 0.1)`,
           animation: phase !== 'enter' ? 'ring-burst 1s ease-out 0.1s both' : 'none',
           opacity: phase === 'exit' ? 0 : 1,
           transition: 'opacity 0.5s',
@@ -142,22 +209,23 @@ export const TitleUnlockOverlay: React.FC<TitleUnlockOverlayProps> = ({ title })
         <div
           className="text-[10px] tracking-[0.3em] uppercase font-mono"
           style={{
-            color: '#FFC700',
-            textShadow: '0 0 10px rgba(255, 199, 0, 0.5)',
+            color: style.accent,
+            textShadow: `0 0 10px rgba(${style.glow}, 0.5)`,
             animation: 'text-glow 2s ease-in-out infinite alternate',
           }}
         >
-          ★ TITLE UNLOCKED ★
+          {displayTier === 'legendary' ? '✦' : '★'} {t.title.unlocked(style.label)}{' '}
+          {displayTier === 'legendary' ? '✦' : '★'}
         </div>
 
         {/* Main title */}
         <div
           className="text-2xl md:text-3xl font-black tracking-tight text-center"
           style={{
-            background: 'linear-gradient(135deg, #FFC700 0%, #FFFFFF 40%, #FFC700 60%, #FFE066 100%)',
+            background: `linear-gradient(135deg, ${style.accent} 0%, #FFFFFF 40%, ${style.accent} 60%, ${style.accentLight} 100%)`,
             WebkitBackgroundClip: 'text',
             WebkitTextFillColor: 'transparent',
-            filter: 'drop-shadow(0 0 20px rgba(255, 199, 0, 0.5))',
+            filter: `drop-shadow(0 0 20px rgba(${style.glow}, 0.5))`,
           }}
         >
           {displayTitle}
@@ -167,8 +235,8 @@ export const TitleUnlockOverlay: React.FC<TitleUnlockOverlayProps> = ({ title })
         <div
           className="h-[1px] mt-1"
           style={{
-            width: phase === 'show' ? 200 : 0,
-            background: 'linear-gradient(90deg, transparent, #FFC700, transparent)',
+            width: phase === 'show' ? style.ringSize : 0,
+            background: `linear-gradient(90deg, transparent, ${style.accent}, transparent)`,
             transition: 'width 0.6s ease-out 0.3s',
           }}
         />
@@ -179,14 +247,113 @@ export const TitleUnlockOverlay: React.FC<TitleUnlockOverlayProps> = ({ title })
 
 // ===== TitleGallery =====
 
+type StatusFilter = 'all' | 'unlocked' | 'locked';
+type GallerySortKey = 'default' | 'tier' | 'recent' | 'progress';
+
+const STATUS_OPTIONS: StatusFilter[] = ['all', 'unlocked', 'locked'];
+const SORT_OPTIONS: GallerySortKey[] = ['default', 'tier', 'recent', 'progress'];
+
+interface GalleryEntry {
+  achievement: Achievement;
+  record: UnlockRecord | null;
+  progress: AchievementProgress;
+  index: number; // 定義順（標準の並び）
+}
+
+// 解放済みは進捗 100% とみなす。日時不明 (0) の解放記録は最後に並べる
+const GALLERY_SORTERS: Record<GallerySortKey, (a: GalleryEntry, b: GalleryEntry) => number> = {
+  default: (a, b) => a.index - b.index,
+  tier: (a, b) => tierRank(b.achievement.tier) - tierRank(a.achievement.tier) || a.index - b.index,
+  recent: (a, b) => (b.record?.unlockedAt ?? -1) - (a.record?.unlockedAt ?? -1) || a.index - b.index,
+  progress: (a, b) =>
+    (b.record ? 1 : b.progress.ratio) - (a.record ? 1 : a.progress.ratio) || a.index - b.index,
+};
+
 interface TitleGalleryProps {
-  unlockedKeys: Set<string>;
+  packName: string;
+  achievements: Achievement[];
+  unlocks: Map<string, UnlockRecord>; // 称号キー（パック内）→ 解放記録
+  context: AchievementContext;
   onClose: () => void;
 }
 
-export const TitleGallery: React.FC<TitleGalleryProps> = ({ unlockedKeys, onClose }) => {
+const formatProgressValue = (value: number, unit: ProgressUnit, units: UnitFormatter, t: Messages): string => {
+  switch (unit) {
+    case 'm':
+      return units.compactDistance(value * 100);
+    case 'm/s':
+      return units.compactSpeed(value);
+    case 'm/s²':
+      return units.compactAccel(value);
+    case 'times':
+      return `${formatCompactNumber(value)}${t.gallery.timesUnit}`;
+    default:
+      return `${formatCompactNumber(value)}${unit}`;
+  }
+};
+
+const formatProgress = ({ current, target, unit }: AchievementProgress, units: UnitFormatter, t: Messages): string =>
+  `${formatProgressValue(Math.min(current, target), unit, units, t)} / ${formatProgressValue(target, unit, units, t)}`;
+
+// 条件文はパックの原文（メートル法）なので、他の単位系では条件から組み立て直す
+const formatRequirement = (achievement: Achievement, requirement: string, units: UnitFormatter, t: Messages): string => {
+  if (units.system === 'metric') return requirement;
+  const { condition } = achievement;
+  const templates = t.gallery.requirements;
+  switch (condition.type) {
+    case 'depth':
+      return templates.depth(units.compactDistance(condition.meters * 100));
+    case 'depthWithoutGravity':
+      return templates.depthWithoutGravity(units.compactDistance(condition.meters * 100));
+    case 'lifetimeDistance':
+      return templates.lifetimeDistance(units.compactDistance(condition.meters * 100));
+    case 'streak':
+      return templates.streak(condition.runs, units.compactDistance(condition.meters * 100));
+    case 'maxSpeed':
+      return templates.maxSpeed(units.compactSpeed(condition.mps));
+    case 'maxAccel':
+      return templates.maxAccel(units.compactAccel(condition.mps2));
+    default:
+      return requirement;
+  }
+};
+
+const formatUnlockDate = (epochMs: number, t: Messages): string => {
+  if (epochMs <= 0) return t.common.unknown;
+  const d = new Date(epochMs);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const TitleGallery: React.FC<TitleGalleryProps> = ({ packName, achievements, unlocks, context, onClose }) => {
+  const { t, locale, units } = useI18n();
   const [closing, setClosing] = useState(false);
-  const unlockedCount = ACHIEVEMENTS.filter((t) => unlockedKeys.has(t.key)).length;
+  const [categoryFilter, setCategoryFilter] = useState<AchievementCategory | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [sortKey, setSortKey] = useState<GallerySortKey>('default');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const entries = useMemo<GalleryEntry[]>(
+    () =>
+      achievements.map((achievement, index) => ({
+        achievement,
+        record: unlocks.get(achievement.key) ?? null,
+        progress: evaluateAchievement(achievement, context),
+        index,
+      })),
+    [achievements, unlocks, context]
+  );
+
+  const visibleEntries = useMemo(
+    () =>
+      entries
+        .filter((e) => categoryFilter === 'all' || e.achievement.category === categoryFilter)
+        .filter((e) => statusFilter === 'all' || (statusFilter === 'unlocked') === (e.record !== null))
+        .sort(GALLERY_SORTERS[sortKey]),
+    [entries, categoryFilter, statusFilter, sortKey]
+  );
+
+  const unlockedCount = entries.filter((e) => e.record).length;
 
   const handleClose = useCallback(() => {
     setClosing(true);
@@ -216,54 +383,176 @@ export const TitleGallery: React.FC<TitleGalleryProps> = ({ unlockedKeys, onClos
         {/* Header */}
         <div className="flex items-center justify-between mb-4">
           <div>
-            <h2 className="text-lg font-bold text-yellow-400 font-mono tracking-wide">🏆 称号一覧</h2>
+            <h2 className="text-lg font-bold text-yellow-400 font-mono tracking-wide">{t.gallery.title}</h2>
             <p className="text-xs text-gray-500 mt-0.5">
-              {unlockedCount} / {ACHIEVEMENTS.length} 解放済み
+              {t.gallery.summary(packName, unlockedCount, achievements.length)}
             </p>
           </div>
           <button
             className="text-gray-500 hover:text-white transition-colors text-xl leading-none px-2"
             onClick={handleClose}
           >
-            ✕
+            {t.common.close}
           </button>
         </div>
 
+        {/* Tier summary */}
+        <div className="mb-3 grid grid-cols-4 gap-1 text-[10px] font-mono">
+          {ACHIEVEMENT_TIERS.map((tier) => {
+            const inTier = entries.filter((e) => e.achievement.tier === tier);
+            return (
+              <div
+                key={tier}
+                className="rounded border border-gray-800 bg-gray-900/40 px-1 py-1 text-center"
+                style={{ color: TIER_STYLES[tier].accent }}
+              >
+                <div>{TIER_STYLES[tier].label}</div>
+                <div className="text-gray-400">
+                  {inTier.filter((e) => e.record).length}/{inTier.length}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Category filter */}
+        <div className="mb-2 flex flex-wrap gap-1 text-[10px]">
+          {(['all', ...ACHIEVEMENT_CATEGORIES] as const).map((category) => (
+            <button
+              key={category}
+              className={`rounded border px-2 py-0.5 ${
+                categoryFilter === category
+                  ? 'border-yellow-600 bg-yellow-900/30 text-yellow-300'
+                  : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+              }`}
+              onClick={() => setCategoryFilter(category)}
+            >
+              {category === 'all' ? t.gallery.all : t.gallery.categories[category]}
+            </button>
+          ))}
+        </div>
+
+        {/* Controls */}
+        <div className="mb-3 flex gap-2 text-xs">
+          <select
+            className="flex-1 rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-300"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          >
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option} value={option}>{t.gallery.statuses[option]}</option>
+            ))}
+          </select>
+          <select
+            className="flex-1 rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-300"
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as GallerySortKey)}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option} value={option}>{t.gallery.sorts[option]}</option>
+            ))}
+          </select>
+        </div>
+
         {/* Title list */}
         <div className="flex flex-col gap-2">
-          {ACHIEVEMENTS.map((t) => {
-            const unlocked = unlockedKeys.has(t.key);
+          {visibleEntries.length === 0 && (
+            <p className="py-4 text-center text-xs text-gray-600">{t.gallery.empty}</p>
+          )}
+          {visibleEntries.map(({ achievement, record, progress }) => {
+            const unlocked = record !== null;
+            const tierStyle = TIER_STYLES[achievement.tier];
+            const expanded = expandedKey === achievement.key;
+            const text = localized(achievement, achievement.translations, locale);
             return (
               <div
-                key={t.key}
-                className={`flex items-center gap-3 px-3 py-2 rounded-lg border transition-all ${
-                  unlocked
-                    ? 'border-yellow-700/50 bg-yellow-900/20'
-                    : 'border-gray-800 bg-gray-900/40 opacity-50'
+                key={achievement.key}
+                className={`px-3 py-2 rounded-lg border transition-all cursor-pointer ${
+                  unlocked ? 'bg-gray-900/60' : 'border-gray-800 bg-gray-900/40 opacity-50'
                 }`}
+                style={unlocked ? { borderColor: `rgba(${tierStyle.glow}, 0.45)` } : undefined}
+                onClick={() => setExpandedKey(expanded ? null : achievement.key)}
               >
-                <div
-                  className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm"
-                  style={{
-                    background: unlocked
-                      ? 'linear-gradient(135deg, #FFC700, #FFE066)'
-                      : '#1a1a1a',
-                    color: unlocked ? '#000' : '#333',
-                    boxShadow: unlocked ? '0 0 12px rgba(255, 199, 0, 0.3)' : 'none',
-                  }}
-                >
-                  {unlocked ? '★' : '?'}
-                </div>
-                <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-3">
                   <div
-                    className={`text-sm font-bold font-mono ${unlocked ? 'text-yellow-300' : 'text-gray-600'}`}
+                    className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm"
+                    style={{
+                      background: unlocked
+                        ? `linear-gradient(135deg, ${tierStyle.accent}, ${tierStyle.accentLight})`
+                        : '#1a1a1a',
+                      color: unlocked ? '#000' : '#333',
+                      boxShadow: unlocked ? `0 0 12px rgba(${tierStyle.glow}, 0.3)` : 'none',
+                    }}
                   >
-                    {unlocked ? t.label : '???'}
+                    {unlocked ? '★' : '?'}
                   </div>
-                  <div className="text-[10px] text-gray-500 truncate">
-                    {unlocked ? t.requirement : '条件を満たすと解放されます'}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="text-sm font-bold font-mono truncate"
+                        style={{ color: unlocked ? tierStyle.accentLight : '#4b5563' }}
+                      >
+                        {unlocked ? text.label : t.gallery.hiddenLabel}
+                      </span>
+                      <span
+                        className="ml-auto flex-shrink-0 text-[9px] font-mono tracking-wider"
+                        style={{ color: tierStyle.accent }}
+                      >
+                        {tierStyle.label}
+                      </span>
+                    </div>
+                    <div className="text-[10px] text-gray-500 truncate">
+                      {unlocked ? formatRequirement(achievement, text.requirement, units, t) : t.gallery.lockedHint}
+                    </div>
+                    {!unlocked && (
+                      <div className="mt-1 flex items-center gap-2">
+                        <div className="h-1 flex-1 bg-gray-800 rounded-full overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-yellow-600/70"
+                            style={{ width: `${progress.ratio * 100}%` }}
+                          />
+                        </div>
+                        <span className="text-[9px] font-mono text-gray-500 whitespace-nowrap">
+                          {formatProgress(progress, units, t)}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
+
+                {/* Detail */}
+                {expanded && (
+                  <div className="mt-2 border-t border-gray-800 pt-2 text-[10px] font-mono text-gray-400 flex flex-col gap-0.5">
+                    <div className="flex justify-between">
+                      <span>{t.gallery.detail.tier}</span>
+                      <span style={{ color: tierStyle.accent }}>{t.gallery.tiers[achievement.tier]}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>{t.gallery.detail.category}</span>
+                      <span>{t.gallery.categories[achievement.category]}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>{t.gallery.detail.progress}</span>
+                      <span>{formatProgress(progress, units, t)}</span>
+                    </div>
+                    {record && (
+                      <>
+                        <div className="flex justify-between">
+                          <span>{t.gallery.detail.unlockedAt}</span>
+                          <span>{formatUnlockDate(record.unlockedAt, t)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>{t.gallery.detail.runTime}</span>
+                          <span>{record.runTimeMs !== null ? formatTime(record.runTimeMs) : t.common.unknown}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>{t.gallery.detail.mode}</span>
+                          <span>{record.mode ? runModeLabel(record.mode, t) : t.common.unknown}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -275,14 +564,14 @@ export const TitleGallery: React.FC<TitleGalleryProps> = ({ unlockedKeys, onClos
             <div
               className="h-full rounded-full transition-all duration-500"
               style={{
-                  width: `${(unlockedCount / ACHIEVEMENTS.length) * 100}%`,
+                width: `${(unlockedCount / achievements.length) * 100}%`,
                 background: 'linear-gradient(90deg, #FFC700, #FFE066)',
                 boxShadow: '0 0 8px rgba(255, 199, 0, 0.4)',
               }}
             />
           </div>
           <p className="text-[10px] text-gray-600 text-center mt-1">
-              COMPLETION: {((unlockedCount / ACHIEVEMENTS.length) * 100).toFixed(0)}%
+            {t.gallery.completion}: {((unlockedCount / achievements.length) * 100).toFixed(0)}%
           </p>
         </div>
       </div>
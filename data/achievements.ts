@@ -1,51 +1,140 @@
-export interface Achievement {
-  key: string;
-  meters: number;
+import { Translations } from '../types';
+
+// 称号の解放条件。データとして宣言し、lib/achievements.ts の評価関数で判定する
+export type AchievementCondition =
+  | { type: 'depth'; meters: number } // このランで到達した深さ
+  | { type: 'maxSpeed'; mps: number }
+  | { type: 'maxAccel'; mps2: number }
+  | { type: 'runTime'; seconds: number } // 着地せずに浮いていた時間
+  | { type: 'scrollCount'; count: number }
+  | { type: 'depthWithoutGravity'; meters: number } // 一度も重力に引き戻されずに到達
+  | { type: 'lifetimeDistance'; meters: number } // 全ランの累計移動距離
+  | { type: 'streak'; runs: number; meters: number }; // 連続 runs 回、meters 以上に到達
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold' | 'legendary';
+export type AchievementCategory = 'depth' | 'speed' | 'endurance' | 'technique' | 'lifetime';
+
+export const ACHIEVEMENT_TIERS: AchievementTier[] = ['bronze', 'silver', 'gold', 'legendary'];
+export const ACHIEVEMENT_CATEGORIES: AchievementCategory[] = ['depth', 'speed', 'endurance', 'technique', 'lifetime'];
+
+/** レア度の順位（bronze = 0 … legendary = 3） */
+export const tierRank = (tier: AchievementTier): number => ACHIEVEMENT_TIERS.indexOf(tier);
+
+/** 一番レアな称号（同じレア度なら配列の後ろ＝後から解放した方）。解放の演出と結果カードで同じものを選ぶ */
+export const rarestAchievement = (achievements: Achievement[]): Achievement =>
+  achievements.reduce((best, a) => (tierRank(a.tier) >= tierRank(best.tier) ? a : best));
+
+export interface AchievementText {
   label: string;
   requirement: string;
 }
 
-export const ACHIEVEMENTS: Achievement[] = [
-  { key: '77.7', meters: 77.7, label: '77.7m / いい感じのゾロ目', requirement: '77.7mに到達' },
-  { key: '200', meters: 200, label: '200m / 観覧車よりちょい高いかも', requirement: '200mに到達' },
-  { key: '333', meters: 333, label: '333m / 東京タワーのてっぺん', requirement: '333mに到達' },
-  { key: '500', meters: 500, label: '500m / なんかもう十分高い', requirement: '500mに到達' },
-  { key: '634', meters: 634, label: '634m / 東京スカイツリーのてっぺん', requirement: '634mに到達' },
-  { key: '800', meters: 800, label: '800m / 雲に片足つっこんだ気分', requirement: '800mに到達' },
-  { key: '1000', meters: 1000, label: '1000m / ついに1km', requirement: '1000mに到達' },
-  { key: '1200', meters: 1200, label: '1200m / 深呼吸がちょっと怖い', requirement: '1200mに到達' },
-  { key: '1337', meters: 1337, label: '1337m / 1337(LEET)って懐かしい', requirement: '1337mに到達' },
-  { key: '1500', meters: 1500, label: '1500m / ここまで来ると意地', requirement: '1500mに到達' },
-  { key: '1609.34', meters: 1609.34, label: '1609.34m / ちょうど1マイル', requirement: '1609.34mに到達' },
-  { key: '1800', meters: 1800, label: '1800m / 地図の縮尺が変わる', requirement: '1800mに到達' },
-  { key: '2025', meters: 2025, label: '2025m / 西暦2025年と同じ数字', requirement: '2025mに到達' },
-  { key: '2200', meters: 2200, label: '2200m / だいたい山ひとつ分', requirement: '2200mに到達' },
-  { key: '2600', meters: 2600, label: '2600m / そろそろ引き返す？', requirement: '2600mに到達' },
-  { key: '2718.28', meters: 2718.28, label: '2718.28m / ネイピア数 e のにおい', requirement: '2718.28mに到達' },
-  { key: '3000', meters: 3000, label: '3000m / 3kmおめでとう', requirement: '3000mに到達' },
-  { key: '3141.59', meters: 3141.59, label: '3141.59m / 円周率っぽい高度', requirement: '3141.59mに到達' },
-  { key: '3500', meters: 3500, label: '3500m / 空気が薄い気がする（気分）', requirement: '3500mに到達' },
-  { key: '3776.12', meters: 3776.12, label: '3776.12m / 富士山の標高', requirement: '3776.12mに到達' },
-  { key: '4000', meters: 4000, label: '4000m / スクロール職人見習い', requirement: '4000mに到達' },
-  { key: '4444', meters: 4444, label: '4444m / 4が並ぶとちょっと強そう', requirement: '4444mに到達' },
-  { key: '4600', meters: 4600, label: '4600m / ちょっとした遠征', requirement: '4600mに到達' },
-  { key: '5300', meters: 5300, label: '5300m / いったん休憩する？', requirement: '5300mに到達' },
-  { key: '5778', meters: 5778, label: '5778m / 太陽表面温度(K)らしい', requirement: '5778mに到達' },
-  { key: '6100', meters: 6100, label: '6100m / 指が主役になってきた', requirement: '6100mに到達' },
-  { key: '6371', meters: 6371, label: '6371m / 地球半径(km)と同じ数字', requirement: '6371mに到達' },
-  { key: '7000', meters: 7000, label: '7000m / もう戻れない感じ', requirement: '7000mに到達' },
-  { key: '8100', meters: 8100, label: '8100m / スクロール職人', requirement: '8100mに到達' },
-  { key: '8848.86', meters: 8848.86, label: '8848.86m / エベレストの標高', requirement: '8848.86mに到達' },
-  { key: '9300', meters: 9300, label: '9300m / 1万mが見えてきた', requirement: '9300mに到達' },
-  { key: '10000', meters: 10000, label: '10000m / 10km通過。暇人の境地？', requirement: '10000mに到達' },
+export interface Achievement extends AchievementText {
+  key: string;
+  condition: AchievementCondition;
+  tier: AchievementTier;
+  category: AchievementCategory;
+  translations?: Translations<AchievementText>;
+}
+
+const BASE_ACHIEVEMENTS: Achievement[] = [
+  { key: '77.7', condition: { type: 'depth', meters: 77.7 }, tier: 'bronze', category: 'depth', label: '77.7m / いい感じのゾロ目', requirement: '77.7mに到達' },
+  { key: '200', condition: { type: 'depth', meters: 200 }, tier: 'bronze', category: 'depth', label: '200m / 観覧車よりちょい高いかも', requirement: '200mに到達' },
+  { key: '333', condition: { type: 'depth', meters: 333 }, tier: 'bronze', category: 'depth', label: '333m / 東京タワーのてっぺん', requirement: '333mに到達' },
+  { key: '500', condition: { type: 'depth', meters: 500 }, tier: 'bronze', category: 'depth', label: '500m / なんかもう十分高い', requirement: '500mに到達' },
+  { key: '634', condition: { type: 'depth', meters: 634 }, tier: 'bronze', category: 'depth', label: '634m / 東京スカイツリーのてっぺん', requirement: '634mに到達' },
+  { key: '800', condition: { type: 'depth', meters: 800 }, tier: 'bronze', category: 'depth', label: '800m / 雲に片足つっこんだ気分', requirement: '800mに到達' },
+  { key: '1000', condition: { type: 'depth', meters: 1000 }, tier: 'silver', category: 'depth', label: '1000m / ついに1km', requirement: '1000mに到達' },
+  { key: '1200', condition: { type: 'depth', meters: 1200 }, tier: 'silver', category: 'depth', label: '1200m / 深呼吸がちょっと怖い', requirement: '1200mに到達' },
+  { key: '1337', condition: { type: 'depth', meters: 1337 }, tier: 'silver', category: 'depth', label: '1337m / 1337(LEET)って懐かしい', requirement: '1337mに到達' },
+  { key: '1500', condition: { type: 'depth', meters: 1500 }, tier: 'silver', category: 'depth', label: '1500m / ここまで来ると意地', requirement: '1500mに到達' },
+  { key: '1609.34', condition: { type: 'depth', meters: 1609.34 }, tier: 'silver', category: 'depth', label: '1609.34m / ちょうど1マイル', requirement: '1609.34mに到達' },
+  { key: '1800', condition: { type: 'depth', meters: 1800 }, tier: 'silver', category: 'depth', label: '1800m / 地図の縮尺が変わる', requirement: '1800mに到達' },
+  { key: '2025', condition: { type: 'depth', meters: 2025 }, tier: 'silver', category: 'depth', label: '2025m / 西暦2025年と同じ数字', requirement: '2025mに到達' },
+  { key: '2200', condition: { type: 'depth', meters: 2200 }, tier: 'silver', category: 'depth', label: '2200m / だいたい山ひとつ分', requirement: '2200mに到達' },
+  { key: '2600', condition: { type: 'depth', meters: 2600 }, tier: 'silver', category: 'depth', label: '2600m / そろそろ引き返す？', requirement: '2600mに到達' },
+  { key: '2718.28', condition: { type: 'depth', meters: 2718.28 }, tier: 'silver', category: 'depth', label: '2718.28m / ネイピア数 e のにおい', requirement: '2718.28mに到達' },
+  { key: '3000', condition: { type: 'depth', meters: 3000 }, tier: 'silver', category: 'depth', label: '3000m / 3kmおめでとう', requirement: '3000mに到達' },
+  { key: '3141.59', condition: { type: 'depth', meters: 3141.59 }, tier: 'silver', category: 'depth', label: '3141.59m / 円周率っぽい高度', requirement: '3141.59mに到達' },
+  { key: '3500', condition: { type: 'depth', meters: 3500 }, tier: 'gold', category: 'depth', label: '3500m / 空気が薄い気がする（気分）', requirement: '3500mに到達' },
+  { key: '3776.12', condition: { type: 'depth', meters: 3776.12 }, tier: 'gold', category: 'depth', label: '3776.12m / 富士山の標高', requirement: '3776.12mに到達' },
+  { key: '4000', condition: { type: 'depth', meters: 4000 }, tier: 'gold', category: 'depth', label: '4000m / スクロール職人見習い', requirement: '4000mに到達' },
+  { key: '4444', condition: { type: 'depth', meters: 4444 }, tier: 'gold', category: 'depth', label: '4444m / 4が並ぶとちょっと強そう', requirement: '4444mに到達' },
+  { key: '4600', condition: { type: 'depth', meters: 4600 }, tier: 'gold', category: 'depth', label: '4600m / ちょっとした遠征', requirement: '4600mに到達' },
+  { key: '5300', condition: { type: 'depth', meters: 5300 }, tier: 'gold', category: 'depth', label: '5300m / いったん休憩する？', requirement: '5300mに到達' },
+  { key: '5778', condition: { type: 'depth', meters: 5778 }, tier: 'gold', category: 'depth', label: '5778m / 太陽表面温度(K)らしい', requirement: '5778mに到達' },
+  { key: '6100', condition: { type: 'depth', meters: 6100 }, tier: 'gold', category: 'depth', label: '6100m / 指が主役になってきた', requirement: '6100mに到達' },
+  { key: '6371', condition: { type: 'depth', meters: 6371 }, tier: 'gold', category: 'depth', label: '6371m / 地球半径(km)と同じ数字', requirement: '6371mに到達' },
+  { key: '7000', condition: { type: 'depth', meters: 7000 }, tier: 'gold', category: 'depth', label: '7000m / もう戻れない感じ', requirement: '7000mに到達' },
+  { key: '8100', condition: { type: 'depth', meters: 8100 }, tier: 'legendary', category: 'depth', label: '8100m / スクロール職人', requirement: '8100mに到達' },
+  { key: '8848.86', condition: { type: 'depth', meters: 8848.86 }, tier: 'legendary', category: 'depth', label: '8848.86m / エベレストの標高', requirement: '8848.86mに到達' },
+  { key: '9300', condition: { type: 'depth', meters: 9300 }, tier: 'legendary', category: 'depth', label: '9300m / 1万mが見えてきた', requirement: '9300mに到達' },
+  { key: '10000', condition: { type: 'depth', meters: 10000 }, tier: 'legendary', category: 'depth', label: '10000m / 10km通過。暇人の境地？', requirement: '10000mに到達' },
+  { key: 'speed-5', condition: { type: 'maxSpeed', mps: 5 }, tier: 'bronze', category: 'speed', label: '秒速5m / 指が残像になる', requirement: '最高速度 5 m/s に到達' },
+  { key: 'speed-20', condition: { type: 'maxSpeed', mps: 20 }, tier: 'gold', category: 'speed', label: '秒速20m / 指先の新幹線', requirement: '最高速度 20 m/s に到達' },
+  { key: 'accel-100', condition: { type: 'maxAccel', mps2: 100 }, tier: 'silver', category: 'speed', label: '100m/s² / 急発進の達人', requirement: '最大加速度 100 m/s² に到達' },
+  { key: 'time-60', condition: { type: 'runTime', seconds: 60 }, tier: 'bronze', category: 'endurance', label: '1分間 / 地に足がつかない', requirement: '60秒間着地せずにいる' },
+  { key: 'time-600', condition: { type: 'runTime', seconds: 600 }, tier: 'gold', category: 'endurance', label: '10分間 / 浮遊生活', requirement: '600秒間着地せずにいる' },
+  { key: 'scroll-500', condition: { type: 'scrollCount', count: 500 }, tier: 'silver', category: 'technique', label: '500回 / 往復ビンタ', requirement: '1ランでスクロール方向を500回切り替える' },
+  { key: 'nogravity-100', condition: { type: 'depthWithoutGravity', meters: 100 }, tier: 'gold', category: 'technique', label: '100m / 重力なんて知らない', requirement: '一度も重力に引き戻されずに100mに到達' },
+  { key: 'lifetime-10000', condition: { type: 'lifetimeDistance', meters: 10000 }, tier: 'silver', category: 'lifetime', label: '累計10km / 塵も積もれば', requirement: '累計移動距離 10km' },
+  { key: 'streak-3x100', condition: { type: 'streak', runs: 3, meters: 100 }, tier: 'silver', category: 'technique', label: '3連続100m / 安定感の鬼', requirement: '3ラン連続で100mに到達' },
 ];
 
-for (let index = 1; index < ACHIEVEMENTS.length; index += 1) {
-  const prev = ACHIEVEMENTS[index - 1];
-  const current = ACHIEVEMENTS[index];
-  if (current.meters - prev.meters < 100) {
-    throw new Error(
-      `Achievement spacing rule violated: "${prev.key}" and "${current.key}" must be 100m apart.`
-    );
-  }
-}
+// 英語版の称号名。深さの称号の条件文は高さから組み立てる
+const reach = (key: string, label: string): [string, AchievementText] => [key, { label, requirement: `Reach ${key}m` }];
+
+const ACHIEVEMENT_TEXT_EN = new Map<string, AchievementText>([
+  reach('77.7', '77.7m / Nice repdigits'),
+  reach('200', '200m / A bit taller than a Ferris wheel'),
+  reach('333', '333m / Top of Tokyo Tower'),
+  reach('500', '500m / Honestly, high enough'),
+  reach('634', '634m / Top of Tokyo Skytree'),
+  reach('800', '800m / One foot in the clouds'),
+  reach('1000', '1000m / Finally 1km'),
+  reach('1200', '1200m / Deep breaths feel risky'),
+  reach('1337', '1337m / 1337 (LEET), how nostalgic'),
+  reach('1500', '1500m / Pure stubbornness now'),
+  reach('1609.34', '1609.34m / Exactly one mile'),
+  reach('1800', '1800m / The map zooms out'),
+  reach('2025', '2025m / Same number as the year 2025'),
+  reach('2200', '2200m / About one mountain'),
+  reach('2600', '2600m / Time to turn back?'),
+  reach('2718.28', "2718.28m / A whiff of Euler's number e"),
+  reach('3000', '3000m / Congrats on 3km'),
+  reach('3141.59', '3141.59m / Suspiciously pi-shaped altitude'),
+  reach('3500', '3500m / The air feels thin (mentally)'),
+  reach('3776.12', '3776.12m / Height of Mount Fuji'),
+  reach('4000', '4000m / Apprentice scroll artisan'),
+  reach('4444', '4444m / Four 4s look kind of strong'),
+  reach('4600', '4600m / A small expedition'),
+  reach('5300', '5300m / Maybe take a break?'),
+  reach('5778', "5778m / The Sun's surface temperature (K), apparently"),
+  reach('6100', '6100m / Your finger is the star now'),
+  reach('6371', "6371m / Same number as Earth's radius (km)"),
+  reach('7000', '7000m / No turning back now'),
+  reach('8100', '8100m / Scroll artisan'),
+  reach('8848.86', '8848.86m / Height of Mount Everest'),
+  reach('9300', '9300m / 10,000m in sight'),
+  reach('10000', '10000m / 10km. Peak idleness?'),
+  ['speed-5', { label: '5 m/s / Finger afterimages', requirement: 'Reach a top speed of 5 m/s' }],
+  ['speed-20', { label: '20 m/s / Bullet-train fingertip', requirement: 'Reach a top speed of 20 m/s' }],
+  ['accel-100', { label: '100 m/s² / Master of the jump start', requirement: 'Reach a peak acceleration of 100 m/s²' }],
+  ['time-60', { label: '1 minute / Feet off the ground', requirement: 'Stay airborne for 60 seconds' }],
+  ['time-600', { label: '10 minutes / Life afloat', requirement: 'Stay airborne for 600 seconds' }],
+  ['scroll-500', { label: '500 flips / Back-and-forth slapping', requirement: 'Switch scroll direction 500 times in one run' }],
+  ['nogravity-100', { label: '100m / What is gravity?', requirement: 'Reach 100m without ever being pulled back by gravity' }],
+  ['lifetime-10000', { label: '10km total / Every little bit adds up', requirement: 'Scroll 10km in total' }],
+  ['streak-3x100', { label: '3×100m / Unshakably consistent', requirement: 'Reach 100m in 3 runs in a row' }],
+]);
+
+export const ACHIEVEMENTS: Achievement[] = BASE_ACHIEVEMENTS.map((achievement) => {
+  const en = ACHIEVEMENT_TEXT_EN.get(achievement.key);
+  return en ? { ...achievement, translations: { en } } : achievement;
+});
+
+/** 深さ条件の称号の高さ (m)。スプリットやゴーストのチェックポイントに使う */
+export const depthAchievementMeters = (achievement: Achievement): number | null =>
+  achievement.condition.type === 'depth' ? achievement.condition.meters : null;
+
+export const DEPTH_ACHIEVEMENTS = ACHIEVEMENTS.filter((achievement) => depthAchievementMeters(achievement) !== null);
@@ -0,0 +1,96 @@
+// キャリブレーションに使う実物の寸法
+
+// ISO/IEC 7810 ID-1（キャッシュカード・クレジットカード・運転免許証など）
+export const ID1_CARD_MM = { width: 85.6, height: 53.98 };
+
+export const RULER_CM = 5; // 定規で合わせる長さ
+
+export type CoinSetId = 'jpy' | 'usd' | 'eur' | 'gbp';
+
+export const COIN_SET_IDS: CoinSetId[] = ['jpy', 'usd', 'eur', 'gbp'];
+
+export interface CoinOption {
+  id: string; // 文言カタログ calibration.coins のキー
+  diameterMm: number;
+}
+
+export const COIN_SETS = {
+  jpy: [
+    { id: 'jpy1', diameterMm: 20.0 },
+    { id: 'jpy5', diameterMm: 22.0 },
+    { id: 'jpy10', diameterMm: 23.5 },
+    { id: 'jpy50', diameterMm: 21.0 },
+    { id: 'jpy100', diameterMm: 22.6 },
+    { id: 'jpy500', diameterMm: 26.5 },
+  ],
+  usd: [
+    { id: 'usd1c', diameterMm: 19.05 },
+    { id: 'usd5c', diameterMm: 21.21 },
+    { id: 'usd10c', diameterMm: 17.91 },
+    { id: 'usd25c', diameterMm: 24.26 },
+    { id: 'usd50c', diameterMm: 30.61 },
+    { id: 'usd1', diameterMm: 26.49 },
+  ],
+  eur: [
+    { id: 'eur1c', diameterMm: 16.25 },
+    { id: 'eur2c', diameterMm: 18.75 },
+    { id: 'eur5c', diameterMm: 21.25 },
+    { id: 'eur10c', diameterMm: 19.75 },
+    { id: 'eur20c', diameterMm: 22.25 },
+    { id: 'eur50c', diameterMm: 24.25 },
+    { id: 'eur1', diameterMm: 23.25 },
+    { id: 'eur2', diameterMm: 25.75 },
+  ],
+  gbp: [
+    { id: 'gbp1p', diameterMm: 20.3 },
+    { id: 'gbp2p', diameterMm: 25.9 },
+    { id: 'gbp5p', diameterMm: 18.0 },
+    { id: 'gbp10p', diameterMm: 24.5 },
+    { id: 'gbp20p', diameterMm: 21.4 },
+    { id: 'gbp50p', diameterMm: 27.3 },
+    { id: 'gbp1', diameterMm: 23.43 },
+    { id: 'gbp2', diameterMm: 28.4 },
+  ],
+} as const satisfies Record<CoinSetId, readonly CoinOption[]>;
+
+export type CoinId = (typeof COIN_SETS)[CoinSetId][number]['id'];
+
+// ユーロ圏（国コード）
+const EURO_REGIONS = [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK',
+];
+// 地域の付かない言語タグ ('de', 'fr' など) で使う既定
+const LANGUAGE_COIN_SETS: Record<string, CoinSetId> = {
+  ja: 'jpy',
+  en: 'usd',
+  de: 'eur',
+  fr: 'eur',
+  it: 'eur',
+  es: 'eur',
+  nl: 'eur',
+  pt: 'eur',
+  fi: 'eur',
+  el: 'eur',
+};
+
+const regionCoinSet = (region: string): CoinSetId | null => {
+  if (region === 'JP') return 'jpy';
+  if (region === 'US') return 'usd';
+  if (region === 'GB') return 'gbp';
+  return EURO_REGIONS.includes(region) ? 'eur' : null;
+};
+
+/** ブラウザの言語タグ（'en-GB' など）から、手元にありそうな硬貨の種類を推定する */
+export const detectCoinSet = (
+  languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []
+): CoinSetId => {
+  for (const language of languages) {
+    const [primary, ...subtags] = language.split('-');
+    const region = subtags.find((tag) => /^[A-Za-z]{2}$/.test(tag));
+    const fromRegion = region ? regionCoinSet(region.toUpperCase()) : null;
+    if (fromRegion) return fromRegion;
+    const fromLanguage = LANGUAGE_COIN_SETS[primary.toLowerCase()];
+    if (fromLanguage) return fromLanguage;
+  }
+  return 'usd';
+};
@@ -0,0 +1,393 @@
+import { Messages } from './ja';
+
+export const en: Messages = {
+  common: {
+    close: '✕',
+    cancel: 'Cancel',
+    ok: '✓ OK',
+    unknown: 'Unknown',
+  },
+  hud: {
+    depth: 'DEPTH',
+    best: 'BEST',
+    ghost: '👻 GHOST',
+    runTime: 'RUN TIME',
+    speed: 'SPD',
+    aveSpeed: 'AVE SPEED',
+    maxSpeed: 'MAX SPEED',
+    totalDistance: 'TOTAL DIST',
+    maxAccel: 'MAX ACCEL',
+    scrollCount: 'SCROLL COUNT',
+    calibrated: '✓ Calibrated',
+    autoEstimated: 'Auto-estimated',
+    resetCalibration: 'RESET',
+    calibrate: '📐 CALIBRATE',
+    calibrateScroll: '🖐 SCROLL CALIBRATE',
+    inertia: 'INERTIA',
+    ghostToggle: 'GHOST',
+    resistance: 'RESISTANCE',
+    titlePack: 'TITLE PACK',
+    limitedPack: ' (limited)',
+    language: 'LANGUAGE',
+    languageAuto: 'AUTO',
+    units: 'UNITS',
+    unitSystems: {
+      metric: 'METRIC',
+      imperial: 'IMPERIAL',
+      fun: 'FUN',
+    },
+    titles: (count: number) => `🏆 Titles ${count > 0 ? `(${count})` : ''}`,
+    history: (count: number) => `📜 History ${count > 0 ? `(${count})` : ''}`,
+    backup: '💾 Backup',
+    splits: 'SPLITS',
+    moreSplits: (count: number) => `+${count} more`,
+    next: 'NEXT:',
+    gameMode: 'MODE',
+    gameModes: {
+      free: 'FREE',
+      daily: 'DAILY',
+      sprint: 'SPRINT',
+      endurance: 'ENDURE',
+      target: 'TARGET',
+    },
+    rulesLocked: 'Fixed by today’s rules during the daily challenge',
+    integrity: {
+      verified: '✓ VERIFIED',
+      suspicious: '⚠ SUSPICIOUS',
+    },
+  },
+  modes: {
+    base: (resistance: string, inertiaEnabled: boolean) =>
+      `${resistance} · ${inertiaEnabled ? 'Inertia' : 'Direct input'}`,
+    daily: (date: string) => `Daily ${date}`,
+    timed: {
+      sprint: 'Sprint',
+      endurance: 'Endurance',
+      target: 'Target race',
+    },
+  },
+  daily: {
+    title: '📅 DAILY',
+    rules: (resistance: string, inertiaEnabled: boolean, gravity: number) =>
+      `${resistance} · ${inertiaEnabled ? 'Inertia' : 'Direct input'} · Gravity ×${gravity}`,
+    target: (distance: string, limit: string) => `Target ${distance} / Limit ${limit}`,
+    remaining: (time: string) => `${time} left`,
+    cleared: (time: string) => `✓ Cleared ${time}`,
+    failed: '✕ Failed',
+    best: (time: string) => `Today’s best ${time}`,
+    noBest: 'Not cleared',
+    attempts: (count: number) => `${count} ${count === 1 ? 'attempt' : 'attempts'}`,
+    streak: (days: number) => `🔥 ${days}-day streak`,
+  },
+  timed: {
+    names: {
+      sprint: '⏱ 60-second sprint',
+      endurance: '🏋 Endurance',
+      target: '🎯 Target race',
+    },
+    rules: {
+      sprint: (limit: string) => `Dive as deep as you can in ${limit}. The run ends when time is up`,
+      endurance: (band: string) =>
+        `Get below ${band} and stay there as long as you can. Gravity never stops and keeps getting stronger`,
+      target: (distance: string) => `Reach ${distance} as fast as you can`,
+    },
+    start: '▶ START',
+    go: 'GO!',
+    remaining: (time: string) => `${time} left`,
+    belowBand: (distance: string) => `Timing starts at ${distance}`,
+    held: (time: string) => `Held ${time}`,
+    gravity: (multiplier: string) => `Gravity ×${multiplier}`,
+    toGo: (distance: string) => `${distance} to go`,
+    best: (score: string) => `Best ${score}`,
+    noBest: 'No best yet',
+    resultTitle: '🏁 FINISH',
+    score: 'SCORE',
+    dnf: 'No result',
+    newBest: '🎉 New personal best!',
+    retry: '↻ Retry',
+  },
+  results: {
+    title: '📊 RESULT',
+    depthChart: 'Depth',
+    speedChart: 'Speed',
+    accelChart: 'Acceleration',
+    splits: 'Splits vs personal best',
+    noSplits: 'No splits',
+    titles: 'Titles earned this run',
+    noTitles: 'None',
+    history: 'Compared with history',
+    firstRun: 'First run in this mode',
+    rank: (rank: number, count: number) => `#${rank} of ${count} runs in this mode`,
+    personalBest: (depth: string, diff: string) => `Personal best ${depth} (${diff})`,
+    average: (depth: string) => `Average ${depth}`,
+  },
+  resultCard: {
+    title: '🪪 Result card',
+    download: '⬇ PNG',
+    share: '📤 Share',
+    copyLink: '🔗 Copy link',
+    copied: 'Link copied',
+    failed: 'Couldn’t create the result card',
+    titleHeading: (tier: string) => `★ ${tier} TITLE ★`,
+    shareText: (depth: string, time: string) => `I scrolled down ${depth} (${time})`,
+    received: '📨 Shared result',
+    receivedAt: (date: string) => `Run from ${date}`,
+    invalidLink: 'This result link is broken or was cut off',
+    play: '▶ Try it yourself',
+  },
+  integrityFlags: {
+    untrusted: 'Some input was sent by a script',
+    cadence: 'Some input repeated at a mechanically fixed amount and interval',
+    sustainedSpeed: 'Kept moving faster than a person can sustain',
+  },
+  stage: {
+    tearing: '⚠️ REALITY TEARING IMMINENT ⚠️',
+    detected: 'PHYSICAL DISPLACEMENT ATTEMPT DETECTED',
+    prompt: '▼ SCROLL TO PROVE EXISTENCE ▼',
+    guide: 'GUIDE',
+    terms: 'TERMS',
+    privacy: 'PRIVACY',
+  },
+  resume: {
+    title: 'Saved run found',
+    body: (distance: string, seconds: number) => `You can resume from your last run (${distance} / ${seconds}s).`,
+    resume: 'Resume',
+    startFresh: 'Start over',
+  },
+  replay: {
+    playing: '▶ REPLAY',
+    finished: '■ REPLAY END',
+    exit: '✕ EXIT',
+  },
+  storage: {
+    quota: 'Could not save: storage is full',
+    unavailable: 'Could not save to storage',
+    recovered: 'Your save data was damaged; everything readable has been restored',
+  },
+  packs: {
+    manifestError: (detail: string) => `Could not load the title pack list: ${detail}`,
+    missing: (id: string) => `Title pack "${id}" was not found; switched back to the standard titles`,
+    outOfSeason: (name: string) => `Title pack "${name}" is out of season; switched back to the standard titles`,
+    loadError: (detail: string) => `Could not load the title pack: ${detail}`,
+  },
+  errors: {
+    noActiveRun: 'There is no run in progress',
+    replayNotSaved: 'No replay was saved for this run',
+    data: {
+      invalidJson: 'Could not read it as JSON',
+      wrongFormat: 'This is not data from this app, or it is the wrong kind',
+      unsupportedVersion: 'It was made by a newer version of the app and cannot be read',
+      checksum: 'The data was modified or cut off',
+      damaged: 'The data is damaged',
+      invalid: 'The data contains invalid values',
+      noCompression: 'This browser cannot read compressed data',
+      network: 'Loading failed. Check your connection',
+    },
+  },
+  calibration: {
+    title: '📐 Calibration',
+    hint: 'Adjust the slider until it matches the real object',
+    card: '💳 Card',
+    ruler: '📏 Ruler',
+    coin: '🪙 Coin',
+    cardHint: 'Hold a bank or credit card over the frame and drag the right and bottom edges to match',
+    horizontal: '↔ Width',
+    vertical: '↕ Height',
+    profiles: {
+      title: (count: number) => `Per-display calibration (${count})`,
+      empty: 'None saved yet',
+      current: 'In use',
+      legacy: 'Earlier calibration (unknown display)',
+      scale: (x: string, y: string) => `W ${x} / H ${y} px/cm`,
+      inputScale: (wheel: string, touch: string) => `Scroll ×${wheel} / touch ×${touch}`,
+      applyHere: 'Use on this display',
+      delete: 'Delete',
+      pointers: {
+        coarse: 'touch',
+        fine: 'mouse',
+        none: 'no pointer',
+      },
+    },
+    prompt: (display: string) => `This display (${display}) has not been calibrated yet`,
+    promptCalibrate: '📐 Calibrate',
+    promptLater: 'Later',
+    rulerHint: (length: string): [string, string, string] => ['Match this line to ', length, ' on a ruler'],
+    coinHint: (coin: string): [string, string, string] => ['Place a ', coin, ' on the circle and match its size'],
+    coins: {
+      jpy1: '¥1 coin',
+      jpy5: '¥5 coin',
+      jpy10: '¥10 coin',
+      jpy50: '¥50 coin',
+      jpy100: '¥100 coin',
+      jpy500: '¥500 coin',
+      usd1c: 'Penny (1¢)',
+      usd5c: 'Nickel (5¢)',
+      usd10c: 'Dime (10¢)',
+      usd25c: 'Quarter (25¢)',
+      usd50c: 'Half dollar (50¢)',
+      usd1: 'Dollar coin ($1)',
+      eur1c: '1 cent',
+      eur2c: '2 cent',
+      eur5c: '5 cent',
+      eur10c: '10 cent',
+      eur20c: '20 cent',
+      eur50c: '50 cent',
+      eur1: '€1 coin',
+      eur2: '€2 coin',
+      gbp1p: '1p coin',
+      gbp2p: '2p coin',
+      gbp5p: '5p coin',
+      gbp10p: '10p coin',
+      gbp20p: '20p coin',
+      gbp50p: '50p coin',
+      gbp1: '£1 coin',
+      gbp2: '£2 coin',
+    },
+  },
+  scrollCalibration: {
+    title: '🖐 Scroll calibration',
+    hint: 'Matches scroll amounts to real finger travel so DIRECT mode (INERTIA off) measures 1:1',
+    distance: '📏 Distance',
+    notches: '🖱 Notches',
+    travelLabel: 'Distance to move (cm)',
+    distanceHint: (cm: string) => `Move your fingers ${cm} along a ruler on the trackpad (or touchscreen)`,
+    notchLabel: 'Travel per notch (mm)',
+    notchHint: (count: number) => `Turn the mouse wheel exactly ${count} notches`,
+    start: '▶ Start',
+    finish: '■ Finish',
+    retry: 'Retry',
+    measured: (px: string) => `Scrolled: ${px} px`,
+    sources: {
+      wheel: 'Wheel / trackpad',
+      touch: 'Touch',
+    },
+    result: (source: string, scale: string) => `${source} factor: ×${scale}`,
+    current: (wheel: string, touch: string) => `Current factors: wheel ×${wheel} / touch ×${touch}`,
+    apply: '✓ Save',
+    reset: 'Reset',
+    invalid: 'Could not measure that. Check the distance and try again, moving slowly',
+    wheelOnly: 'Measure notches with a mouse wheel',
+  },
+  units: {
+    phones: (value: string) => `${value} phones`,
+    skytrees: (value: string) => `${value} Skytrees`,
+    phonesPerSecond: (value: string) => `${value} phones/s`,
+  },
+  title: {
+    unlocked: (tier: string) => `${tier} TITLE UNLOCKED`,
+  },
+  gallery: {
+    title: '🏆 Titles',
+    summary: (pack: string, unlocked: number, total: number) => `${pack} · ${unlocked} / ${total} unlocked`,
+    all: 'All',
+    statuses: {
+      all: 'All',
+      unlocked: 'Unlocked',
+      locked: 'Locked',
+    },
+    sorts: {
+      default: 'Default',
+      tier: 'Rarity',
+      recent: 'Recently unlocked',
+      progress: 'Progress',
+    },
+    tiers: {
+      bronze: 'Bronze',
+      silver: 'Silver',
+      gold: 'Gold',
+      legendary: 'Legendary',
+    },
+    categories: {
+      depth: 'Depth',
+      speed: 'Speed',
+      endurance: 'Endurance',
+      technique: 'Technique',
+      lifetime: 'Lifetime',
+    },
+    empty: 'No matching titles',
+    hiddenLabel: '???',
+    lockedHint: 'Meet the requirement to unlock',
+    requirements: {
+      depth: (distance: string) => `Reach ${distance}`,
+      depthWithoutGravity: (distance: string) => `Reach ${distance} without ever being pulled back by gravity`,
+      lifetimeDistance: (distance: string) => `Scroll ${distance} in total`,
+      streak: (runs: number, distance: string) => `Reach ${distance} in ${runs} runs in a row`,
+      maxSpeed: (speed: string) => `Reach a top speed of ${speed}`,
+      maxAccel: (accel: string) => `Reach a peak acceleration of ${accel}`,
+    },
+    detail: {
+      tier: 'Rarity',
+      category: 'Category',
+      progress: 'Progress',
+      unlockedAt: 'Unlocked at',
+      runTime: 'Run time at unlock',
+      mode: 'Mode',
+    },
+    completion: 'COMPLETION',
+    timesUnit: '',
+  },
+  history: {
+    title: '📜 Run history',
+    count: (count: number) => `${count} ${count === 1 ? 'run' : 'runs'}`,
+    importReplay: '⬆ Import replay',
+    visibleRuns: 'Visible runs',
+    currentRun: 'Current run',
+    importRuns: '⬆ Import runs',
+    imported: (count: number) => `Imported ${count} ${count === 1 ? 'run' : 'runs'}`,
+    personalBest: 'PERSONAL BEST',
+    allModes: 'ALL MODES',
+    sorts: {
+      date: 'Newest',
+      depth: 'Depth',
+      time: 'Time',
+      speed: 'Top speed',
+    },
+    runSummary: (splits: number, scrolls: number) => `SPLITS ${splits} / SCROLL ${scrolls}`,
+    calibrated: ' / ✓ Calibrated',
+    suspicious: ' / ⚠ Suspicious input',
+    pin: '📌 PB',
+    confirmDelete: 'Delete?',
+    empty: 'No runs yet',
+  },
+  splitSettings: {
+    kinds: {
+      default: 'DEFAULT',
+      interval: 'EVERY N',
+      achievements: 'TITLES',
+      custom: 'CUSTOM',
+    },
+    every: 'EVERY',
+    count: 'SPLITS',
+    sumOfBest: 'SUM OF BEST',
+    bestPossible: 'BEST POSSIBLE',
+    export: '⬇ EXPORT',
+    import: '⬆ IMPORT',
+    customError: 'Enter distances in meters, separated by commas',
+  },
+  backup: {
+    title: '💾 Backup',
+    subtitle: 'Move titles, records, calibration, settings and run history to another device',
+    exportFile: '⬇ Save to file (full history)',
+    createCode: '🔗 Create code (free-play bests only)',
+    codeLength: (length: number) => `${length} characters (fits in a QR code as-is)`,
+    copy: '📋 Copy',
+    copied: 'Copied',
+    importFile: '⬆ Load file',
+    codePlaceholder: 'Paste an IMS1.… code',
+    importCode: 'Load',
+    createdAt: 'Created',
+    highScore: 'Best depth',
+    titles: 'Titles',
+    runs: 'Run history',
+    runCount: (count: number, complete: boolean) =>
+      `${count} ${count === 1 ? 'run' : 'runs'}${complete ? '' : ' (personal bests only)'}`,
+    merge: 'Merge',
+    confirmMerge: 'Merge now?',
+    overwrite: 'Overwrite',
+    confirmOverwrite: 'Really overwrite?',
+    merged: 'Backup merged',
+    overwritten: 'Data replaced with the backup',
+    restoreHelp:
+      'Merge: combines records and titles and keeps this device’s settings. Overwrite: replaces this device’s data.',
+  },
+};
@@ -0,0 +1,397 @@
+// UI 文言の原本。en.ts はこの形 (Messages) に合わせて訳す。
+// HUD の英字ラベルはデザインの一部なので日本語版でもそのまま使う
+export const ja = {
+  common: {
+    close: '✕',
+    cancel: 'キャンセル',
+    ok: '✓ OK',
+    unknown: '不明',
+  },
+  hud: {
+    depth: 'DEPTH',
+    best: 'BEST',
+    ghost: '👻 GHOST',
+    runTime: 'RUN TIME',
+    speed: 'SPD',
+    aveSpeed: 'AVE SPEED',
+    maxSpeed: 'MAX SPEED',
+    totalDistance: 'TOTAL DIST',
+    maxAccel: 'MAX ACCEL',
+    scrollCount: 'SCROLL COUNT',
+    calibrated: '✓ 補正済み',
+    autoEstimated: '自動推定',
+    resetCalibration: 'RESET',
+    calibrate: '📐 CALIBRATE',
+    calibrateScroll: '🖐 SCROLL CALIBRATE',
+    inertia: 'INERTIA',
+    ghostToggle: 'GHOST',
+    resistance: 'RESISTANCE',
+    titlePack: 'TITLE PACK',
+    limitedPack: ' (期間限定)',
+    language: 'LANGUAGE',
+    languageAuto: 'AUTO',
+    units: 'UNITS',
+    unitSystems: {
+      metric: 'METRIC',
+      imperial: 'IMPERIAL',
+      fun: 'FUN',
+    },
+    titles: (count: number) => `🏆 称号 ${count > 0 ? `(${count})` : ''}`,
+    history: (count: number) => `📜 履歴 ${count > 0 ? `(${count})` : ''}`,
+    backup: '💾 バックアップ',
+    splits: 'SPLITS',
+    moreSplits: (count: number) => `+${count} more`,
+    next: 'NEXT:',
+    gameMode: 'MODE',
+    gameModes: {
+      free: 'FREE',
+      daily: 'DAILY',
+      sprint: 'SPRINT',
+      endurance: 'ENDURE',
+      target: 'TARGET',
+    },
+    rulesLocked: 'デイリーチャレンジ中はその日のルールで固定',
+    integrity: {
+      verified: '✓ VERIFIED',
+      suspicious: '⚠ SUSPICIOUS',
+    },
+  },
+  // ランのモード名（履歴・結果・リプレイ）
+  modes: {
+    base: (resistance: string, inertiaEnabled: boolean) =>
+      `${resistance} · ${inertiaEnabled ? '慣性あり' : '直接入力'}`,
+    daily: (date: string) => `デイリー ${date}`,
+    timed: {
+      sprint: 'スプリント',
+      endurance: 'エンデュランス',
+      target: 'ターゲットレース',
+    },
+  },
+  daily: {
+    title: '📅 DAILY',
+    rules: (resistance: string, inertiaEnabled: boolean, gravity: number) =>
+      `${resistance} · ${inertiaEnabled ? '慣性あり' : '直接入力'} · 重力 ×${gravity}`,
+    target: (distance: string, limit: string) => `目標 ${distance} / 制限 ${limit}`,
+    remaining: (time: string) => `残り ${time}`,
+    cleared: (time: string) => `✓ クリア ${time}`,
+    failed: '✕ 失敗',
+    best: (time: string) => `今日のベスト ${time}`,
+    noBest: '未クリア',
+    attempts: (count: number) => `挑戦 ${count} 回`,
+    streak: (days: number) => `🔥 ${days} 日連続`,
+  },
+  timed: {
+    names: {
+      sprint: '⏱ 60秒スプリント',
+      endurance: '🏋 エンデュランス',
+      target: '🎯 ターゲットレース',
+    },
+    rules: {
+      sprint: (limit: string) => `${limit} でどこまで深く潜れるか。時間になったらそこで終了`,
+      endurance: (band: string) =>
+        `${band} より下に潜り、できるだけ長く留まる。重力は常に働き、時間とともに強くなる`,
+      target: (distance: string) => `${distance} まで最速で潜る`,
+    },
+    start: '▶ START',
+    go: 'GO!',
+    remaining: (time: string) => `残り ${time}`,
+    belowBand: (distance: string) => `${distance} まで潜ると計測開始`,
+    held: (time: string) => `キープ ${time}`,
+    gravity: (multiplier: string) => `重力 ×${multiplier}`,
+    toGo: (distance: string) => `あと ${distance}`,
+    best: (score: string) => `ベスト ${score}`,
+    noBest: 'ベストなし',
+    resultTitle: '🏁 FINISH',
+    score: 'SCORE',
+    dnf: '記録なし',
+    newBest: '🎉 自己ベスト更新！',
+    retry: '↻ もう一度',
+  },
+  results: {
+    title: '📊 RESULT',
+    depthChart: '深さ',
+    speedChart: '速さ',
+    accelChart: '加速度',
+    splits: 'スプリット（自己ベスト比）',
+    noSplits: 'スプリットなし',
+    titles: 'このランで獲得した称号',
+    noTitles: 'なし',
+    history: '履歴との比較',
+    firstRun: 'このモードで初めてのラン',
+    rank: (rank: number, count: number) => `同じモードの ${count} 件中 ${rank} 位`,
+    personalBest: (depth: string, diff: string) => `自己ベスト ${depth}（${diff}）`,
+    average: (depth: string) => `平均 ${depth}`,
+  },
+  resultCard: {
+    title: '🪪 結果カード',
+    download: '⬇ PNG',
+    share: '📤 共有',
+    copyLink: '🔗 リンクをコピー',
+    copied: 'リンクをコピーしました',
+    failed: '結果カードを作れませんでした',
+    titleHeading: (tier: string) => `★ ${tier} TITLE ★`,
+    shareText: (depth: string, time: string) => `${depth} まで潜りました（${time}）`,
+    received: '📨 届いた結果',
+    receivedAt: (date: string) => `${date} の記録`,
+    invalidLink: '結果のリンクが壊れているか、途中で切れています',
+    play: '▶ 自分も挑戦する',
+  },
+  integrityFlags: {
+    untrusted: 'スクリプトから送られた入力があります',
+    cadence: '一定の量・間隔で機械的に繰り返す入力があります',
+    sustainedSpeed: '人の操作では続けられない速さで進み続けました',
+  },
+  stage: {
+    tearing: '⚠️ REALITY TEARING IMMINENT ⚠️',
+    detected: 'PHYSICAL DISPLACEMENT ATTEMPT DETECTED',
+    prompt: '▼ SCROLL TO PROVE EXISTENCE ▼',
+    guide: 'GUIDE',
+    terms: 'TERMS',
+    privacy: 'PRIVACY',
+  },
+  resume: {
+    title: '途中セーブを検出',
+    body: (distance: string, seconds: number) => `前回の記録（${distance} / ${seconds}s）から再開できます。`,
+    resume: '再開する',
+    startFresh: '最初から',
+  },
+  replay: {
+    playing: '▶ REPLAY',
+    finished: '■ REPLAY END',
+    exit: '✕ EXIT',
+  },
+  storage: {
+    quota: 'ストレージの容量が不足しているため保存できませんでした',
+    unavailable: 'ストレージに保存できませんでした',
+    recovered: '保存データが壊れていたため、読み込めた範囲で復元しました',
+  },
+  packs: {
+    manifestError: (detail: string) => `称号パック一覧を読み込めませんでした: ${detail}`,
+    missing: (id: string) => `称号パック「${id}」が見つからないため、標準の称号に戻しました`,
+    outOfSeason: (name: string) => `称号パック「${name}」は公開期間外のため、標準の称号に戻しました`,
+    loadError: (detail: string) => `称号パックを読み込めませんでした: ${detail}`,
+  },
+  errors: {
+    noActiveRun: '進行中のランがありません',
+    replayNotSaved: 'このランのリプレイは保存されていません',
+    // 読み込んだデータが使えない理由（lib/dataError.ts の DataErrorKind）
+    data: {
+      invalidJson: 'JSON として読めませんでした',
+      wrongFormat: 'このアプリのデータではないか、種類が違います',
+      unsupportedVersion: '新しいバージョンのアプリで作られたデータのため読めません',
+      checksum: 'データが書き換えられているか、途中で切れています',
+      damaged: 'データが壊れています',
+      invalid: 'データの中身に不正な値があります',
+      noCompression: 'このブラウザは圧縮されたデータを読めません',
+      network: '読み込みに失敗しました。通信状態を確認してください',
+    },
+  },
+  calibration: {
+    title: '📐 キャリブレーション',
+    hint: '実物に合わせてスライダーで調整してください',
+    card: '💳 カード',
+    ruler: '📏 定規',
+    coin: '🪙 硬貨',
+    cardHint: 'キャッシュカードなどを枠に重ね、右と下の辺をドラッグして合わせてください',
+    horizontal: '↔ 横',
+    vertical: '↕ 縦',
+    profiles: {
+      title: (count: number) => `画面ごとの補正値 (${count})`,
+      empty: 'まだ保存されていません',
+      current: '使用中',
+      legacy: '以前の補正値（画面不明）',
+      scale: (x: string, y: string) => `横 ${x} / 縦 ${y} px/cm`,
+      inputScale: (wheel: string, touch: string) => `スクロール ×${wheel} / タッチ ×${touch}`,
+      applyHere: 'この画面に使う',
+      delete: '削除',
+      pointers: {
+        coarse: 'タッチ',
+        fine: 'マウス',
+        none: 'ポインタなし',
+      },
+    },
+    prompt: (display: string) => `この画面（${display}）はまだキャリブレーションされていません`,
+    promptCalibrate: '📐 合わせる',
+    promptLater: 'あとで',
+    // [前, 強調する部分, 後]
+    rulerHint: (length: string): [string, string, string] => ['この線を定規で ', length, ' に合わせてください'],
+    coinHint: (coin: string): [string, string, string] => ['', coin, ' を円に重ねてサイズを合わせてください'],
+    coins: {
+      jpy1: '1円玉',
+      jpy5: '5円玉',
+      jpy10: '10円玉',
+      jpy50: '50円玉',
+      jpy100: '100円玉',
+      jpy500: '500円玉',
+      usd1c: '1セント',
+      usd5c: '5セント',
+      usd10c: '10セント',
+      usd25c: '25セント',
+      usd50c: '50セント',
+      usd1: '1ドル硬貨',
+      eur1c: '1ユーロセント',
+      eur2c: '2ユーロセント',
+      eur5c: '5ユーロセント',
+      eur10c: '10ユーロセント',
+      eur20c: '20ユーロセント',
+      eur50c: '50ユーロセント',
+      eur1: '1ユーロ',
+      eur2: '2ユーロ',
+      gbp1p: '1ペンス',
+      gbp2p: '2ペンス',
+      gbp5p: '5ペンス',
+      gbp10p: '10ペンス',
+      gbp20p: '20ペンス',
+      gbp50p: '50ペンス',
+      gbp1: '1ポンド',
+      gbp2: '2ポンド',
+    },
+  },
+  scrollCalibration: {
+    title: '🖐 スクロールのキャリブレーション',
+    hint: 'DIRECT モード（INERTIA オフ）で指の移動量と深度が 1:1 になるよう、スクロール量を実際の移動距離に合わせます',
+    distance: '📏 距離',
+    notches: '🖱 ノッチ',
+    travelLabel: '動かす距離 (cm)',
+    distanceHint: (cm: string) => `トラックパッド（またはタッチ画面）の上で、定規に沿って指を ${cm} 動かしてください`,
+    notchLabel: '1ノッチの移動量 (mm)',
+    notchHint: (count: number) => `マウスのホイールをちょうど ${count} ノッチ回してください`,
+    start: '▶ 計測開始',
+    finish: '■ 計測終了',
+    retry: 'やり直す',
+    measured: (px: string) => `スクロール量: ${px} px`,
+    sources: {
+      wheel: 'ホイール / トラックパッド',
+      touch: 'タッチ',
+    },
+    result: (source: string, scale: string) => `${source}の倍率: ×${scale}`,
+    current: (wheel: string, touch: string) => `現在の倍率: ホイール ×${wheel} / タッチ ×${touch}`,
+    apply: '✓ 保存',
+    reset: 'リセット',
+    invalid: 'うまく計測できませんでした。距離を確認して、もう一度ゆっくり動かしてください',
+    wheelOnly: 'ノッチの計測はマウスのホイールで行ってください',
+  },
+  units: {
+    phones: (value: string) => `スマホ${value}台分`,
+    skytrees: (value: string) => `スカイツリー${value}本分`,
+    phonesPerSecond: (value: string) => `スマホ${value}台/秒`,
+  },
+  title: {
+    unlocked: (tier: string) => `${tier} TITLE UNLOCKED`,
+  },
+  gallery: {
+    title: '🏆 称号一覧',
+    summary: (pack: string, unlocked: number, total: number) => `${pack} · ${unlocked} / ${total} 解放済み`,
+    all: 'すべて',
+    statuses: {
+      all: 'すべて',
+      unlocked: '解放済み',
+      locked: '未解放',
+    },
+    sorts: {
+      default: '標準',
+      tier: 'レアリティ',
+      recent: '解放日時',
+      progress: '進捗',
+    },
+    tiers: {
+      bronze: 'ブロンズ',
+      silver: 'シルバー',
+      gold: 'ゴールド',
+      legendary: 'レジェンド',
+    },
+    categories: {
+      depth: '深さ',
+      speed: 'スピード',
+      endurance: '耐久',
+      technique: 'テクニック',
+      lifetime: '累計',
+    },
+    empty: '該当する称号はありません',
+    hiddenLabel: '???',
+    lockedHint: '条件を満たすと解放されます',
+    // メートル法以外では条件文を組み立て直して単位を揃える
+    requirements: {
+      depth: (distance: string) => `${distance}に到達`,
+      depthWithoutGravity: (distance: string) => `一度も重力に引き戻されずに${distance}に到達`,
+      lifetimeDistance: (distance: string) => `累計移動距離 ${distance}`,
+      streak: (runs: number, distance: string) => `${runs}ラン連続で${distance}に到達`,
+      maxSpeed: (speed: string) => `最高速度 ${speed} に到達`,
+      maxAccel: (accel: string) => `最大加速度 ${accel} に到達`,
+    },
+    detail: {
+      tier: 'レアリティ',
+      category: 'カテゴリ',
+      progress: '進捗',
+      unlockedAt: '解放日時',
+      runTime: '解放時のタイム',
+      mode: 'モード',
+    },
+    completion: 'COMPLETION',
+    timesUnit: '回',
+  },
+  history: {
+    title: '📜 ラン履歴',
+    count: (count: number) => `${count} 件`,
+    importReplay: '⬆ リプレイ読込',
+    visibleRuns: '表示中のラン',
+    currentRun: '現在のラン',
+    importRuns: '⬆ ラン読込',
+    imported: (count: number) => `${count} 件のランを読み込みました`,
+    personalBest: 'PERSONAL BEST',
+    allModes: 'ALL MODES',
+    sorts: {
+      date: '新しい順',
+      depth: '深さ',
+      time: 'タイム',
+      speed: '最高速度',
+    },
+    runSummary: (splits: number, scrolls: number) => `SPLITS ${splits} / SCROLL ${scrolls}`,
+    calibrated: ' / ✓ 補正済み',
+    suspicious: ' / ⚠ 疑わしい入力',
+    pin: '📌 PB',
+    confirmDelete: '本当に削除？',
+    empty: 'まだ記録がありません',
+  },
+  splitSettings: {
+    kinds: {
+      default: 'DEFAULT',
+      interval: 'EVERY N',
+      achievements: 'TITLES',
+      custom: 'CUSTOM',
+    },
+    every: 'EVERY',
+    count: 'SPLITS',
+    sumOfBest: 'SUM OF BEST',
+    bestPossible: 'BEST POSSIBLE',
+    export: '⬇ EXPORT',
+    import: '⬆ IMPORT',
+    customError: 'メートルをカンマ区切りで入力してください',
+  },
+  backup: {
+    title: '💾 バックアップ',
+    subtitle: '称号・最高記録・補正値・設定・ラン履歴を別の端末へ',
+    exportFile: '⬇ ファイルに保存（全履歴）',
+    createCode: '🔗 コードを作成（自由プレイの自己ベストのみ）',
+    codeLength: (length: number) => `${length} 文字（QR コードにそのまま変換できます）`,
+    copy: '📋 コピー',
+    copied: 'コピーしました',
+    importFile: '⬆ ファイルを読込',
+    codePlaceholder: 'IMS1.… コードを貼り付け',
+    importCode: '読込',
+    createdAt: '作成日時',
+    highScore: '最高記録',
+    titles: '称号',
+    runs: 'ラン履歴',
+    runCount: (count: number, complete: boolean) => `${count} 件${complete ? '' : '（自己ベストのみ）'}`,
+    merge: 'マージ',
+    confirmMerge: 'マージを実行？',
+    overwrite: '上書き',
+    confirmOverwrite: '本当に上書き？',
+    merged: 'バックアップをマージしました',
+    overwritten: 'バックアップで上書きしました',
+    restoreHelp: 'マージ: 記録と称号を統合し、この端末の設定を残します。上書き: この端末のデータを置き換えます。',
+  },
+};
+
+export type Messages = typeof ja;
@@ -1,8 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ACHIEVEMENTS } from './data/achievements';
+import { warnAchievementIssues } from './lib/achievementValidation';
 import './index.css';
 
+warnAchievementIssues(ACHIEVEMENTS);
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
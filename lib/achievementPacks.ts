@@ -0,0 +1,261 @@
+import {
+  Achievement,
+  AchievementCategory,
+  AchievementCondition,
+  AchievementText,
+  AchievementTier,
+  ACHIEVEMENTS,
+  ACHIEVEMENT_CATEGORIES,
+  ACHIEVEMENT_TIERS,
+} from '../data/achievements';
+import { LOCALES } from './i18n';
+import { validateAchievements } from './achievementValidation';
+import { Translations } from '../types';
+import { DataError } from './dataError';
+
+// 称号パック。組み込みの日本のランドマーク集のほか、public/packs/ の JSON を読み込んで差し替えられる
+const PACK_FORMAT = 'immovable-achievement-pack';
+export const PACK_VERSION = 1;
+export const BUILTIN_PACK_ID = 'default';
+export const PACK_DIRECTORY = 'packs';
+export const PACK_MANIFEST_FILE = 'index.json';
+
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+export interface PackText {
+  name: string;
+  description: string;
+}
+
+export interface AchievementPack extends PackText {
+  id: string;
+  achievements: Achievement[];
+  translations?: Translations<PackText>;
+}
+
+/** packs/index.json の1項目。一覧表示のために本体を読まずに済む情報だけを持つ */
+export interface PackManifestEntry extends PackText {
+  id: string;
+  file: string; // packs/ からの相対パス
+  months: number[] | null; // 季節限定パックの公開月 (1-12)。null = 通年
+  translations?: Translations<PackText>;
+}
+
+export const BUILTIN_PACK: AchievementPack = {
+  id: BUILTIN_PACK_ID,
+  name: '日本のランドマーク',
+  description: '東京タワー・スカイツリー・富士山・エベレスト',
+  achievements: ACHIEVEMENTS,
+  translations: {
+    en: { name: 'Japanese landmarks', description: 'Tokyo Tower, Skytree, Mount Fuji and Everest' },
+  },
+};
+
+export const BUILTIN_MANIFEST_ENTRY: PackManifestEntry = {
+  id: BUILTIN_PACK.id,
+  name: BUILTIN_PACK.name,
+  description: BUILTIN_PACK.description,
+  file: '',
+  months: null,
+  translations: BUILTIN_PACK.translations,
+};
+
+/**
+ * 保存する解放記録のキー。パックごとに名前空間を分ける。
+ * 組み込みパックは既存のセーブとの互換のため接頭辞なし
+ */
+export const unlockKeyFor = (packId: string, key: string): string =>
+  packId === BUILTIN_PACK_ID ? key : `${packId}:${key}`;
+
+/** 解放記録のうち、指定パックのものを称号キーで引けるようにする */
+export const packUnlocks = <T>(unlocks: Map<string, T>, pack: AchievementPack): Map<string, T> => {
+  const scoped = new Map<string, T>();
+  pack.achievements.forEach((achievement) => {
+    const record = unlocks.get(unlockKeyFor(pack.id, achievement.key));
+    if (record !== undefined) scoped.set(achievement.key, record);
+  });
+  return scoped;
+};
+
+export const isPackAvailable = (entry: PackManifestEntry, date: Date = new Date()): boolean =>
+  entry.months === null || entry.months.includes(date.getMonth() + 1);
+
+// ===== Validation =====
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// 条件の種類ごとに必要な数値フィールド
+const CONDITION_FIELDS: { [T in AchievementCondition['type']]: string[] } = {
+  depth: ['meters'],
+  maxSpeed: ['mps'],
+  maxAccel: ['mps2'],
+  runTime: ['seconds'],
+  scrollCount: ['count'],
+  depthWithoutGravity: ['meters'],
+  lifetimeDistance: ['meters'],
+  streak: ['runs', 'meters'],
+};
+
+/** { "en": { "label": "..." } } 形式の訳文。知らない言語・フィールドは捨てる */
+const parseTranslations = <T extends object>(
+  value: unknown,
+  fields: (keyof T & string)[],
+  fail: (reason: string) => never
+): Translations<T> | undefined => {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== 'object') return fail('translations');
+  const translations: Translations<T> = {};
+  LOCALES.forEach((locale) => {
+    const raw = (value as Record<string, unknown>)[locale];
+    if (raw === undefined) return;
+    if (!raw || typeof raw !== 'object') fail(`translations.${locale}`);
+    const text: Record<string, string> = {};
+    fields.forEach((field) => {
+      const fieldValue = (raw as Record<string, unknown>)[field];
+      if (fieldValue === undefined) return;
+      if (!isNonEmptyString(fieldValue)) fail(`translations.${locale}.${field}`);
+      text[field] = fieldValue as string;
+    });
+    translations[locale] = text as Partial<T>;
+  });
+  return translations;
+};
+
+const parseCondition = (value: unknown, fail: (reason: string) => never): AchievementCondition => {
+  if (!value || typeof value !== 'object') return fail('condition');
+  const raw = value as Record<string, unknown>;
+  const type = raw.type as AchievementCondition['type'];
+  const fields = Object.prototype.hasOwnProperty.call(CONDITION_FIELDS, type) ? CONDITION_FIELDS[type] : null;
+  if (!fields) return fail(`unknown condition type "${String(raw.type)}"`);
+  const condition: Record<string, unknown> = { type };
+  fields.forEach((field) => {
+    if (!isPositiveNumber(raw[field])) fail(`condition.${field}`);
+    condition[field] = raw[field];
+  });
+  return condition as AchievementCondition;
+};
+
+const parseAchievement = (value: unknown, index: number): Achievement => {
+  const fail = (reason: string): never => {
+    throw new DataError('invalid', `Achievement #${index + 1} is invalid: ${reason}`);
+  };
+  if (!value || typeof value !== 'object') return fail('not an object');
+  const raw = value as Record<string, unknown>;
+  if (!isNonEmptyString(raw.key) || raw.key.includes(':')) fail('key');
+  if (!ACHIEVEMENT_TIERS.includes(raw.tier as AchievementTier)) fail('tier');
+  if (!ACHIEVEMENT_CATEGORIES.includes(raw.category as AchievementCategory)) fail('category');
+  if (!isNonEmptyString(raw.label)) fail('label');
+  if (!isNonEmptyString(raw.requirement)) fail('requirement');
+  return {
+    key: raw.key as string,
+    condition: parseCondition(raw.condition, fail),
+    tier: raw.tier as AchievementTier,
+    category: raw.category as AchievementCategory,
+    label: raw.label as string,
+    requirement: raw.requirement as string,
+    translations: parseTranslations<AchievementText>(raw.translations, ['label', 'requirement'], fail),
+  };
+};
+
+/** パック JSON を検証して読み込む。称号データの整合性ルールに反するものは弾く */
+export const parseAchievementPack = (value: unknown): AchievementPack => {
+  if (!value || typeof value !== 'object') throw new DataError('wrongFormat', 'Achievement pack is empty');
+  const raw = value as Record<string, unknown>;
+  if (raw.format !== PACK_FORMAT) throw new DataError('wrongFormat', 'Not an achievement pack');
+  if (raw.version !== PACK_VERSION) throw new DataError('unsupportedVersion', `Unsupported achievement pack version: ${String(raw.version)}`);
+  if (typeof raw.id !== 'string' || !PACK_ID_PATTERN.test(raw.id) || raw.id === BUILTIN_PACK_ID) {
+    throw new DataError('invalid', `Invalid achievement pack id: ${String(raw.id)}`);
+  }
+  if (!isNonEmptyString(raw.name)) throw new DataError('invalid', `Achievement pack "${raw.id}" has no name`);
+  if (!Array.isArray(raw.achievements) || raw.achievements.length === 0) {
+    throw new DataError('invalid', `Achievement pack "${raw.id}" has no achievements`);
+  }
+
+  const achievements = raw.achievements.map(parseAchievement);
+  const issues = validateAchievements(achievements);
+  if (issues.length > 0) {
+    throw new DataError('invalid', `Achievement pack "${raw.id}" is invalid: ${issues.map((issue) => issue.message).join('; ')}`);
+  }
+  return {
+    id: raw.id,
+    name: raw.name,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    achievements,
+    translations: parseTranslations<PackText>(raw.translations, ['name', 'description'], (reason) => {
+      throw new DataError('invalid', `Achievement pack "${raw.id}" is invalid: ${reason}`);
+    }),
+  };
+};
+
+const parseManifestEntry = (value: unknown, index: number): PackManifestEntry => {
+  const fail = (reason: string): never => {
+    throw new DataError('invalid', `Pack manifest entry #${index + 1} is invalid: ${reason}`);
+  };
+  if (!value || typeof value !== 'object') return fail('not an object');
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || !PACK_ID_PATTERN.test(raw.id) || raw.id === BUILTIN_PACK_ID) fail('id');
+  if (!isNonEmptyString(raw.name)) fail('name');
+  // パック本体は packs/ 直下の .json に限る
+  if (typeof raw.file !== 'string' || !/^[a-z0-9-]+\.json$/.test(raw.file)) fail('file');
+  let months: number[] | null = null;
+  if (raw.months !== undefined) {
+    if (!Array.isArray(raw.months) || raw.months.some((m) => !Number.isInteger(m) || m < 1 || m > 12)) {
+      fail('months');
+    }
+    months = raw.months as number[];
+  }
+  return {
+    id: raw.id as string,
+    name: raw.name as string,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    file: raw.file as string,
+    months,
+    translations: parseTranslations<PackText>(raw.translations, ['name', 'description'], fail),
+  };
+};
+
+export const parsePackManifest = (value: unknown): PackManifestEntry[] => {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as { packs?: unknown }).packs)) {
+    throw new DataError('wrongFormat', 'Pack manifest has no packs');
+  }
+  const entries = (value as { packs: unknown[] }).packs.map(parseManifestEntry);
+  const ids = new Set<string>();
+  entries.forEach((entry) => {
+    if (ids.has(entry.id)) throw new DataError('invalid', `Duplicate pack id in manifest: ${entry.id}`);
+    ids.add(entry.id);
+  });
+  return entries;
+};
+
+// ===== Loading =====
+
+const fetchJson = async (path: string): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(`${import.meta.env.BASE_URL}${PACK_DIRECTORY}/${path}`);
+  } catch {
+    throw new DataError('network', `Failed to load ${path}`);
+  }
+  if (!response.ok) throw new DataError('network', `Failed to load ${path}: HTTP ${response.status}`);
+  try {
+    return await response.json();
+  } catch {
+    throw new DataError('invalidJson', `${path} is not valid JSON`);
+  }
+};
+
+/** 組み込みパックを先頭にしたパック一覧 */
+export const loadPackManifest = async (): Promise<PackManifestEntry[]> => [
+  BUILTIN_MANIFEST_ENTRY,
+  ...parsePackManifest(await fetchJson(PACK_MANIFEST_FILE)),
+];
+
+export const loadAchievementPack = async (entry: PackManifestEntry): Promise<AchievementPack> => {
+  if (entry.id === BUILTIN_PACK_ID) return BUILTIN_PACK;
+  const pack = parseAchievementPack(await fetchJson(entry.file));
+  if (pack.id !== entry.id) throw new DataError('invalid', `Pack file ${entry.file} has id "${pack.id}", expected "${entry.id}"`);
+  return pack;
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Achievement, ACHIEVEMENTS } from '../data/achievements';
+import { AchievementRule, validateAchievements } from './achievementValidation';
+import { parseAchievementPack } from './achievementPacks';
+
+const depth = (meters: number, overrides: Partial<Achievement> = {}): Achievement => ({
+  key: String(meters),
+  condition: { type: 'depth', meters },
+  tier: 'bronze',
+  category: 'depth',
+  label: `${meters}m`,
+  requirement: `Reach ${meters}m`,
+  ...overrides,
+});
+
+const rulesOf = (achievements: Achievement[]): AchievementRule[] =>
+  validateAchievements(achievements).map((issue) => issue.rule);
+
+describe('validateAchievements', () => {
+  it('accepts the built-in achievements', () => {
+    expect(validateAchievements(ACHIEVEMENTS)).toEqual([]);
+  });
+
+  it('accepts a well-formed list', () => {
+    expect(validateAchievements([depth(100), depth(200), depth(400)])).toEqual([]);
+  });
+
+  it('reports unique-key', () => {
+    const speed: Achievement = { ...depth(100), key: 'fast', condition: { type: 'maxSpeed', mps: 10 }, category: 'speed' };
+    expect(rulesOf([speed, { ...speed, label: 'again' }])).toEqual(['unique-key']);
+  });
+
+  it('reports key-matches-meters', () => {
+    expect(rulesOf([depth(100, { key: 'hundred' })])).toEqual(['key-matches-meters']);
+  });
+
+  it('reports ascending', () => {
+    expect(rulesOf([depth(500), depth(300)])).toEqual(['ascending']);
+  });
+
+  it('reports spacing', () => {
+    expect(rulesOf([depth(100), depth(150)])).toEqual(['spacing']);
+  });
+
+  it('reports label', () => {
+    expect(rulesOf([depth(100, { label: '  ' })])).toEqual(['label']);
+  });
+
+  it('reports requirement', () => {
+    expect(rulesOf([depth(100, { requirement: '' })])).toEqual(['requirement']);
+  });
+
+  it('reports tier', () => {
+    expect(rulesOf([depth(100, { tier: 'platinum' as Achievement['tier'] })])).toEqual(['tier']);
+  });
+
+  it('reports category', () => {
+    expect(rulesOf([depth(100, { category: 'luck' as Achievement['category'] })])).toEqual(['category']);
+  });
+
+  it('reports target', () => {
+    const runTime: Achievement = { ...depth(100), key: 'patient', condition: { type: 'runTime', seconds: 0 }, category: 'endurance' };
+    const streak: Achievement = {
+      ...runTime,
+      key: 'streak',
+      condition: { type: 'streak', runs: 3, meters: Number.NaN },
+    };
+    expect(rulesOf([runTime, streak])).toEqual(['target', 'target']);
+  });
+
+  it('collects every issue instead of stopping at the first', () => {
+    const issues = validateAchievements([depth(100, { label: '' }), depth(120, { requirement: '' })]);
+    expect(issues.map((issue) => [issue.key, issue.rule])).toEqual([
+      ['100', 'label'],
+      ['120', 'requirement'],
+      ['120', 'spacing'],
+    ]);
+  });
+});
+
+describe('parseAchievementPack', () => {
+  const pack = (overrides: Record<string, unknown> = {}) => ({
+    format: 'immovable-achievement-pack',
+    version: 1,
+    id: 'test-pack',
+    name: 'Test',
+    achievements: [depth(100), depth(300)],
+    ...overrides,
+  });
+
+  it('reads a valid pack', () => {
+    const parsed = parseAchievementPack(pack({ translations: { en: { name: 'Test (en)' } } }));
+    expect(parsed.id).toBe('test-pack');
+    expect(parsed.achievements.map((achievement) => achievement.key)).toEqual(['100', '300']);
+    expect(parsed.translations?.en?.name).toBe('Test (en)');
+  });
+
+  it.each([
+    ['not an object', null],
+    ['wrong format', pack({ format: 'something-else' })],
+    ['unsupported version', pack({ version: 2 })],
+    ['invalid id', pack({ id: 'Bad Id' })],
+    ['built-in id', pack({ id: 'default' })],
+    ['missing name', pack({ name: '' })],
+    ['no achievements', pack({ achievements: [] })],
+    ['unknown condition type', pack({ achievements: [{ ...depth(100), condition: { type: 'luck' } }] })],
+    ['non-positive condition value', pack({ achievements: [{ ...depth(100), condition: { type: 'depth', meters: -1 } }] })],
+    ['key with a colon', pack({ achievements: [{ ...depth(100), key: 'a:b' }] })],
+    ['unknown tier', pack({ achievements: [{ ...depth(100), tier: 'platinum' }] })],
+    ['broken translations', pack({ achievements: [{ ...depth(100), translations: { en: { label: '' } } }] })],
+    ['validation rule violation', pack({ achievements: [depth(300), depth(100)] })],
+  ])('rejects %s', (_, value) => {
+    expect(() => parseAchievementPack(value)).toThrow();
+  });
+});
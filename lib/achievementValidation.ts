@@ -0,0 +1,112 @@
+import {
+  Achievement,
+  ACHIEVEMENT_CATEGORIES,
+  ACHIEVEMENT_TIERS,
+  depthAchievementMeters,
+} from '../data/achievements';
+
+// 深さの称号どうしの最小間隔 (m)。近すぎると連続で解放されて演出が重なる
+export const ACHIEVEMENT_SPACING_M = 100;
+
+export type AchievementRule =
+  | 'unique-key'
+  | 'key-matches-meters'
+  | 'ascending'
+  | 'spacing'
+  | 'label'
+  | 'requirement'
+  | 'tier'
+  | 'category'
+  | 'target';
+
+export interface AchievementIssue {
+  key: string;
+  rule: AchievementRule;
+  message: string;
+}
+
+// 条件の目標値はすべて正の有限数でなければならない
+const conditionTargets = (achievement: Achievement): number[] => {
+  const { condition } = achievement;
+  switch (condition.type) {
+    case 'depth':
+    case 'depthWithoutGravity':
+    case 'lifetimeDistance':
+      return [condition.meters];
+    case 'maxSpeed':
+      return [condition.mps];
+    case 'maxAccel':
+      return [condition.mps2];
+    case 'runTime':
+      return [condition.seconds];
+    case 'scrollCount':
+      return [condition.count];
+    case 'streak':
+      return [condition.runs, condition.meters];
+  }
+};
+
+/**
+ * 称号データの整合性チェック。問題をすべて集めて返す（空配列 = OK）。
+ * ビルド時 (vite.config.ts) と開発中の起動時に呼ぶ。外部の称号パックにも使える
+ */
+export const validateAchievements = (achievements: Achievement[]): AchievementIssue[] => {
+  const issues: AchievementIssue[] = [];
+  const report = (key: string, rule: AchievementRule, message: string) => issues.push({ key, rule, message });
+
+  const seen = new Set<string>();
+  achievements.forEach((achievement) => {
+    const { key } = achievement;
+    if (seen.has(key)) report(key, 'unique-key', `Duplicate achievement key "${key}"`);
+    seen.add(key);
+
+    if (achievement.label.trim().length === 0) report(key, 'label', `Achievement "${key}" has no label`);
+    if (achievement.requirement.trim().length === 0) {
+      report(key, 'requirement', `Achievement "${key}" has no requirement text`);
+    }
+    if (!ACHIEVEMENT_TIERS.includes(achievement.tier)) {
+      report(key, 'tier', `Achievement "${key}" has unknown tier "${String(achievement.tier)}"`);
+    }
+    if (!ACHIEVEMENT_CATEGORIES.includes(achievement.category)) {
+      report(key, 'category', `Achievement "${key}" has unknown category "${String(achievement.category)}"`);
+    }
+    if (conditionTargets(achievement).some((target) => !Number.isFinite(target) || target <= 0)) {
+      report(key, 'target', `Achievement "${key}" must have a positive target`);
+    }
+
+    // 深さの称号はキー = 高さの表記（スプリット名やゴーストのチェックポイントに使われる）
+    const meters = depthAchievementMeters(achievement);
+    if (meters !== null && key !== String(meters)) {
+      report(key, 'key-matches-meters', `Achievement key "${key}" does not match its depth ${meters}m`);
+    }
+  });
+
+  // 深さの称号は浅い順に並び、一定以上の間隔をあける
+  const depthAchievements = achievements.filter((achievement) => depthAchievementMeters(achievement) !== null);
+  for (let index = 1; index < depthAchievements.length; index += 1) {
+    const prev = depthAchievements[index - 1];
+    const current = depthAchievements[index];
+    const gap = (depthAchievementMeters(current) ?? 0) - (depthAchievementMeters(prev) ?? 0);
+    if (gap <= 0) {
+      report(current.key, 'ascending', `Achievement "${current.key}" must come after "${prev.key}" in ascending depth`);
+    } else if (gap < ACHIEVEMENT_SPACING_M) {
+      report(
+        current.key,
+        'spacing',
+        `Achievements "${prev.key}" and "${current.key}" must be ${ACHIEVEMENT_SPACING_M}m apart`
+      );
+    }
+  }
+
+  return issues;
+};
+
+/** 開発中だけ、称号データの問題をコンソールに出す（本番ではアプリを止めない） */
+export const warnAchievementIssues = (achievements: Achievement[]): void => {
+  if (!import.meta.env.DEV) return;
+  const issues = validateAchievements(achievements);
+  if (issues.length === 0) return;
+  console.warn(
+    `[achievements] ${issues.length} issue(s) found:\n` + issues.map((issue) => `  - ${issue.message}`).join('\n')
+  );
+};
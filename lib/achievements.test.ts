@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Achievement, AchievementCondition } from '../data/achievements';
+import { LifetimeStats, RunStatSnapshot } from '../types';
+import {
+  AchievementContext,
+  EMPTY_LIFETIME,
+  EMPTY_RUN_STATS,
+  evaluateAchievement,
+  findNewUnlocks,
+  isAchieved,
+  RECENT_RUNS_LIMIT,
+  recordFinishedRun,
+} from './achievements';
+
+const achievementOf = (key: string, condition: AchievementCondition): Achievement => ({
+  key,
+  condition,
+  tier: 'bronze',
+  category: 'depth',
+  label: key,
+  requirement: key,
+});
+
+const contextOf = (
+  run: Partial<RunStatSnapshot> = {},
+  lifetime: Partial<LifetimeStats> = {},
+  runDistanceM = 0
+): AchievementContext => ({
+  run: { ...EMPTY_RUN_STATS, ...run },
+  lifetime: { ...EMPTY_LIFETIME, ...lifetime },
+  runDistanceM,
+});
+
+const best = (stats: Partial<RunStatSnapshot>): Partial<LifetimeStats> => ({ best: { ...EMPTY_RUN_STATS, ...stats } });
+
+describe('evaluateAchievement', () => {
+  // 条件の種類ごとに、今のランの値と、届く値・届かない値
+  it.each<[AchievementCondition, Partial<RunStatSnapshot>, number, string]>([
+    [{ type: 'depth', meters: 100 }, { depthM: 100 }, 99.9, 'm'],
+    [{ type: 'maxSpeed', mps: 5 }, { maxSpeedMps: 5 }, 4.9, 'm/s'],
+    [{ type: 'maxAccel', mps2: 30 }, { maxAccelMps2: 30 }, 29, 'm/s²'],
+    [{ type: 'runTime', seconds: 60 }, { runTimeSec: 60 }, 59.9, 's'],
+    [{ type: 'scrollCount', count: 100 }, { scrollCount: 100 }, 99, 'times'],
+    [{ type: 'depthWithoutGravity', meters: 50 }, { depthWithoutGravityM: 50 }, 49, 'm'],
+  ])('judges %o by the current run', (condition, reached, below, unit) => {
+    const achievement = achievementOf('a', condition);
+    const [field] = Object.keys(reached) as (keyof RunStatSnapshot)[];
+    expect(isAchieved(achievement, contextOf(reached))).toBe(true);
+    expect(isAchieved(achievement, contextOf({ [field]: below }))).toBe(false);
+    expect(evaluateAchievement(achievement, contextOf({ [field]: below })).unit).toBe(unit);
+  });
+
+  it('uses the larger of the current run and the lifetime best', () => {
+    const achievement = achievementOf('depth', { type: 'depth', meters: 100 });
+    expect(evaluateAchievement(achievement, contextOf({ depthM: 30 }, best({ depthM: 120 }))).current).toBe(120);
+    expect(evaluateAchievement(achievement, contextOf({ depthM: 150 }, best({ depthM: 120 }))).current).toBe(150);
+    expect(isAchieved(achievement, contextOf({ depthM: 30 }, best({ depthM: 100 })))).toBe(true);
+    expect(isAchieved(achievement, contextOf({ depthM: 30 }, best({ depthM: 99 })))).toBe(false);
+  });
+
+  it('adds the current run to the lifetime distance', () => {
+    const achievement = achievementOf('far', { type: 'lifetimeDistance', meters: 1000 });
+    expect(evaluateAchievement(achievement, contextOf({}, { distanceM: 900 }, 50))).toEqual({
+      current: 950,
+      target: 1000,
+      ratio: 0.95,
+      unit: 'm',
+    });
+    expect(isAchieved(achievement, contextOf({}, { distanceM: 900 }, 100))).toBe(true);
+  });
+
+  it('counts a streak from the latest runs, including the current one', () => {
+    const achievement = achievementOf('streak', { type: 'streak', runs: 3, meters: 100 });
+    // 新しい順。3つ目で途切れている
+    const lifetime = { recentMaxDepthsM: [120, 100, 80, 200] };
+    expect(evaluateAchievement(achievement, contextOf({ depthM: 50 }, lifetime)).current).toBe(2);
+    expect(isAchieved(achievement, contextOf({ depthM: 50 }, lifetime))).toBe(false);
+    expect(isAchieved(achievement, contextOf({ depthM: 100 }, lifetime))).toBe(true);
+  });
+
+  it('caps the ratio at 1', () => {
+    const achievement = achievementOf('depth', { type: 'depth', meters: 100 });
+    expect(evaluateAchievement(achievement, contextOf({ depthM: 250 })).ratio).toBe(1);
+  });
+});
+
+describe('findNewUnlocks', () => {
+  it('returns only achieved titles that were not unlocked yet', () => {
+    const shallow = achievementOf('shallow', { type: 'depth', meters: 10 });
+    const deep = achievementOf('deep', { type: 'depth', meters: 100 });
+    const deeper = achievementOf('deeper', { type: 'depth', meters: 1000 });
+    const unlocked = new Set(['shallow']);
+    expect(findNewUnlocks([shallow, deep, deeper], unlocked, contextOf({ depthM: 150 }))).toEqual([deep]);
+  });
+});
+
+describe('recordFinishedRun', () => {
+  it('adds the run to the totals and keeps the best of each stat', () => {
+    const first = recordFinishedRun(EMPTY_LIFETIME, { ...EMPTY_RUN_STATS, depthM: 100, maxSpeedMps: 8 }, 250);
+    const second = recordFinishedRun(first, { ...EMPTY_RUN_STATS, depthM: 40, maxSpeedMps: 12 }, 100);
+    expect(second).toEqual({
+      distanceM: 350,
+      runCount: 2,
+      recentMaxDepthsM: [40, 100],
+      best: { ...EMPTY_RUN_STATS, depthM: 100, maxSpeedMps: 12 },
+    });
+  });
+
+  it('keeps only the latest runs for streaks', () => {
+    const lifetime = { ...EMPTY_LIFETIME, recentMaxDepthsM: Array.from({ length: RECENT_RUNS_LIMIT }, () => 1) };
+    const next = recordFinishedRun(lifetime, { ...EMPTY_RUN_STATS, depthM: 7 }, 0);
+    expect(next.recentMaxDepthsM).toHaveLength(RECENT_RUNS_LIMIT);
+    expect(next.recentMaxDepthsM[0]).toBe(7);
+  });
+});
@@ -0,0 +1,119 @@
+import { Achievement, AchievementCondition } from '../data/achievements';
+import { LifetimeStats, RunStatSnapshot, SimulationState } from '../types';
+
+// 称号の判定に使う材料。ラン中は毎フレーム組み立てて評価する
+export interface AchievementContext {
+  run: RunStatSnapshot; // 進行中のラン（ラン外ならすべて 0）
+  lifetime: LifetimeStats; // 終わったランの累計（進行中のランは含まない）
+  runDistanceM: number; // 進行中のランの移動距離
+}
+
+// 'times' は回数（表示時に各言語の単位に置き換える）
+export type ProgressUnit = 'm' | 'm/s' | 'm/s²' | 's' | 'times';
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+  ratio: number; // 0..1
+  unit: ProgressUnit;
+}
+
+// 連続達成 (streak) の判定用に保持する直近ランの数
+export const RECENT_RUNS_LIMIT = 50;
+
+export const EMPTY_RUN_STATS: RunStatSnapshot = {
+  depthM: 0,
+  maxSpeedMps: 0,
+  maxAccelMps2: 0,
+  runTimeSec: 0,
+  scrollCount: 0,
+  depthWithoutGravityM: 0,
+};
+
+export const EMPTY_LIFETIME: LifetimeStats = {
+  distanceM: 0,
+  runCount: 0,
+  recentMaxDepthsM: [],
+  best: EMPTY_RUN_STATS,
+};
+
+export const runStatsOf = (state: SimulationState, pxToCm: number): RunStatSnapshot => ({
+  depthM: (state.maxDepth * pxToCm) / 100,
+  maxSpeedMps: state.maxSpeed,
+  maxAccelMps2: state.maxAccel,
+  runTimeSec: state.runTime / 1000,
+  scrollCount: state.scrollCount,
+  depthWithoutGravityM: (state.gravityFreeDepth * pxToCm) / 100,
+});
+
+const maxStats = (a: RunStatSnapshot, b: RunStatSnapshot): RunStatSnapshot => ({
+  depthM: Math.max(a.depthM, b.depthM),
+  maxSpeedMps: Math.max(a.maxSpeedMps, b.maxSpeedMps),
+  maxAccelMps2: Math.max(a.maxAccelMps2, b.maxAccelMps2),
+  runTimeSec: Math.max(a.runTimeSec, b.runTimeSec),
+  scrollCount: Math.max(a.scrollCount, b.scrollCount),
+  depthWithoutGravityM: Math.max(a.depthWithoutGravityM, b.depthWithoutGravityM),
+});
+
+/** 終わったランを累計に加える */
+export const recordFinishedRun = (lifetime: LifetimeStats, run: RunStatSnapshot, distanceM: number): LifetimeStats => ({
+  distanceM: lifetime.distanceM + distanceM,
+  runCount: lifetime.runCount + 1,
+  recentMaxDepthsM: [run.depthM, ...lifetime.recentMaxDepthsM].slice(0, RECENT_RUNS_LIMIT),
+  best: maxStats(lifetime.best, run),
+});
+
+// 直近から数えて meters 以上に届いたランが何回続いているか
+const leadingStreak = (depthsM: number[], meters: number): number => {
+  const broken = depthsM.findIndex((depth) => depth < meters);
+  return broken === -1 ? depthsM.length : broken;
+};
+
+const progress = (current: number, target: number, unit: ProgressUnit): AchievementProgress => ({
+  current,
+  target,
+  ratio: target > 0 ? Math.min(1, Math.max(0, current / target)) : 1,
+  unit,
+});
+
+// ランごとの記録は「今のラン」と「過去の自己ベスト」の大きい方で判定する。
+// あとから追加された称号も、過去に条件を満たしていれば解放される
+type Evaluator<T extends AchievementCondition['type']> = (
+  condition: Extract<AchievementCondition, { type: T }>,
+  context: AchievementContext,
+  stats: RunStatSnapshot
+) => AchievementProgress;
+
+const EVALUATORS: { [T in AchievementCondition['type']]: Evaluator<T> } = {
+  depth: (c, _ctx, stats) => progress(stats.depthM, c.meters, 'm'),
+  maxSpeed: (c, _ctx, stats) => progress(stats.maxSpeedMps, c.mps, 'm/s'),
+  maxAccel: (c, _ctx, stats) => progress(stats.maxAccelMps2, c.mps2, 'm/s²'),
+  runTime: (c, _ctx, stats) => progress(stats.runTimeSec, c.seconds, 's'),
+  scrollCount: (c, _ctx, stats) => progress(stats.scrollCount, c.count, 'times'),
+  depthWithoutGravity: (c, _ctx, stats) => progress(stats.depthWithoutGravityM, c.meters, 'm'),
+  lifetimeDistance: (c, ctx) => progress(ctx.lifetime.distanceM + ctx.runDistanceM, c.meters, 'm'),
+  streak: (c, ctx) => {
+    const past = leadingStreak(ctx.lifetime.recentMaxDepthsM, c.meters);
+    const current = ctx.run.depthM >= c.meters ? past + 1 : past;
+    return progress(current, c.runs, 'times');
+  },
+};
+
+export const evaluateAchievement = (achievement: Achievement, context: AchievementContext): AchievementProgress => {
+  const stats = maxStats(context.run, context.lifetime.best);
+  const evaluator = EVALUATORS[achievement.condition.type] as Evaluator<AchievementCondition['type']>;
+  return evaluator(achievement.condition, context, stats);
+};
+
+export const isAchieved = (achievement: Achievement, context: AchievementContext): boolean => {
+  const { current, target } = evaluateAchievement(achievement, context);
+  return current >= target;
+};
+
+/** まだ解放していない称号のうち、条件を満たしたもの */
+export const findNewUnlocks = (
+  achievements: Achievement[],
+  unlocked: { has: (key: string) => boolean },
+  context: AchievementContext
+): Achievement[] =>
+  achievements.filter((achievement) => !unlocked.has(achievement.key) && isAchieved(achievement, context));
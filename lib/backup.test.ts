@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ResistanceType } from '../types';
+import { createBackupCode, parseBackupCode, parseBackupFile, serializeBackupFile } from './backup';
+import { shiftDateKey } from './daily';
+import { toExportedRun } from './runExport';
+import { validateSaveData } from './storage';
+import { recordOf, simulateRun } from './testFixtures';
+
+// QR コード（バージョン 40・誤り訂正 L）のバイトモードに載る最大長
+const QR_BYTE_CAPACITY = 2953;
+
+const save = { ...validateSaveData({}), highScorePx: 12345 };
+
+describe('backup', () => {
+  it('restores a backup file with the full run history', () => {
+    const runs = [recordOf(simulateRun(), { id: 'run-1' })];
+    expect(runs[0].splits.length).toBeGreaterThanOrEqual(2);
+
+    const backup = parseBackupFile(serializeBackupFile(save, runs));
+    expect(backup.complete).toBe(true);
+    expect(backup.save.highScorePx).toBe(12345);
+    expect(backup.runs).toEqual(runs.map(toExportedRun));
+  });
+
+  it('restores a backup code with personal bests and their splits', async () => {
+    const run = recordOf(simulateRun(), { id: 'run-1' });
+    const backup = await parseBackupCode(await createBackupCode(save, [run]));
+    expect(backup.complete).toBe(false);
+    expect(backup.runs).toHaveLength(1);
+    expect(backup.runs[0].splits).toEqual(run.splits);
+    expect(backup.runs[0].samples).toEqual([]);
+  });
+
+  it('leaves daily and timed-mode runs to the file backup', async () => {
+    const free = recordOf(simulateRun(), { id: 'free' });
+    const daily = recordOf(simulateRun(), { id: 'daily', daily: '2026-10-01' });
+    const sprint = recordOf(simulateRun(), { id: 'sprint', gameMode: 'sprint' });
+    const backup = await parseBackupCode(await createBackupCode(save, [free, daily, sprint]));
+    expect(backup.runs.map((run) => run.id)).toEqual(['free']);
+  });
+
+  it('keeps only the latest daily result in a backup code', async () => {
+    const daily = [
+      { dateKey: '2026-10-01', bestTimeMs: 12_000, attempts: 2 },
+      { dateKey: '2026-10-02', bestTimeMs: null, attempts: 1 },
+    ];
+    const backup = await parseBackupCode(await createBackupCode({ ...save, daily }, []));
+    expect(backup.save.daily).toEqual([daily[1]]);
+  });
+
+  it('keeps a backup code short enough for a QR code after a year of play', async () => {
+    const base = simulateRun();
+    // 1m ごとのスプリットで潜った、各モードの長いラン
+    const splits = Array.from({ length: 500 }, (_, i) => ({ distanceCm: (500 - i) * 100, timeMs: (500 - i) * 1000 }));
+    const freePlay = [ResistanceType.STATIC, ResistanceType.ELASTIC, ResistanceType.GLITCH].flatMap((resistance) =>
+      [true, false].map((inertiaEnabled) =>
+        recordOf(base, {
+          id: `${resistance}-${inertiaEnabled}`,
+          resistance,
+          inertiaEnabled,
+          splits,
+          maxDepthCm: 50_000,
+          runTime: 500_000,
+        })
+      )
+    );
+    const year = Array.from({ length: 365 }, (_, i) => shiftDateKey('2026-01-01', i));
+    const dailyRuns = year.map((dateKey) => recordOf(base, { id: `daily-${dateKey}`, daily: dateKey }));
+    const timedRuns = (['sprint', 'endurance', 'target'] as const).map((gameMode) =>
+      recordOf(base, { id: gameMode, gameMode })
+    );
+    const daily = year.map((dateKey) => ({ dateKey, bestTimeMs: 12_345, attempts: 3 }));
+
+    const code = await createBackupCode({ ...save, daily }, [...freePlay, ...dailyRuns, ...timedRuns]);
+    expect(code.length).toBeLessThanOrEqual(QR_BYTE_CAPACITY);
+    expect((await parseBackupCode(code)).runs).toHaveLength(freePlay.length);
+  });
+
+  it('rejects a modified backup file', () => {
+    const text = serializeBackupFile(save, [recordOf(simulateRun(), { id: 'run-1' })]);
+    expect(() => parseBackupFile(text.replace('"highScorePx": 12345', '"highScorePx": 99999'))).toThrow();
+  });
+
+  it('rejects a mistyped backup code', async () => {
+    const code = await createBackupCode(save, [recordOf(simulateRun(), { id: 'run-1' })]);
+    const typo = code.slice(0, 10) + (code[10] === 'A' ? 'B' : 'A') + code.slice(11);
+    await expect(parseBackupCode(typo)).rejects.toMatchObject({ kind: 'checksum' });
+  });
+});
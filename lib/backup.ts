@@ -0,0 +1,170 @@
+import { RunRecord, RunStatSnapshot, UnlockRecord } from '../types';
+import { fromBase64Url, toBase64Url } from './base64url';
+import { fnv1a } from './checksum';
+import { DataError } from './dataError';
+import { toExportedRun, validateRun } from './runExport';
+import { FREE_PLAY_MODE_KEYS, personalBestForMode } from './runHistory';
+import { SaveData, validateSaveData } from './storage';
+import { mergeProfiles } from './calibrationProfiles';
+import { mergeDailyResults } from './daily';
+import { mergeModeBests } from './timedModes';
+
+// 端末間の引っ越し用バックアップ。
+// ファイル版は履歴をすべて含み、コード版（QR に載せられる短い文字列）は自由プレイの自己ベストと
+// 最新のデイリー成績だけを含む（日ごと・時間制モードの記録は遊ぶほど増えるのでファイル版に任せる）。
+const BACKUP_FORMAT = 'immovable-backup';
+export const BACKUP_VERSION = 1;
+const CODE_PREFIX = 'IMS1';
+// コード版に載せるスプリットは深い方からこの件数まで（細かい区切りのスプリットで長くならないように）
+const CODE_SPLITS = 10;
+
+export type RestoreMode = 'merge' | 'overwrite';
+
+export interface Backup {
+  createdAt: number; // epoch ms
+  complete: boolean; // false = コード版（ラン履歴は自己ベストのみ・時系列なし）
+  save: SaveData;
+  runs: RunRecord[];
+}
+
+interface BackupBody {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  complete: boolean;
+  save: SaveData;
+  runs: RunRecord[];
+}
+
+const createBody = (save: SaveData, runs: RunRecord[], complete: boolean): BackupBody => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: Date.now(),
+  complete,
+  // 途中セーブは端末ローカルのものなので持ち出さない
+  save: { ...save, runState: null },
+  runs,
+});
+
+const validateBody = (value: unknown): Backup => {
+  if (!value || typeof value !== 'object') throw new DataError('wrongFormat', 'Backup is empty');
+  const body = value as Partial<Record<keyof BackupBody, unknown>>;
+  if (body.format !== BACKUP_FORMAT) throw new DataError('wrongFormat', 'Not a backup');
+  if (body.version !== BACKUP_VERSION) throw new DataError('unsupportedVersion', `Unsupported backup version: ${String(body.version)}`);
+  if (!Array.isArray(body.runs)) throw new DataError('invalid', 'Backup has no run history');
+  return {
+    createdAt: typeof body.createdAt === 'number' && Number.isFinite(body.createdAt) ? body.createdAt : 0,
+    complete: body.complete === true,
+    save: { ...validateSaveData(body.save), runState: null },
+    runs: body.runs.map(validateRun),
+  };
+};
+
+// ===== File =====
+
+export const serializeBackupFile = (save: SaveData, runs: RunRecord[]): string => {
+  const body = createBody(save, runs.map(toExportedRun), true);
+  return JSON.stringify({ ...body, checksum: fnv1a(JSON.stringify(body)) }, null, 2);
+};
+
+export const parseBackupFile = (text: string): Backup => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new DataError('invalidJson', 'Backup file is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object') throw new DataError('wrongFormat', 'Not a backup file');
+  const { checksum, ...body } = raw;
+  if (typeof checksum !== 'string' || checksum !== fnv1a(JSON.stringify(body))) {
+    throw new DataError('checksum', 'Backup checksum does not match (the file was modified or damaged)');
+  }
+  return validateBody(body);
+};
+
+// ===== Compact code (QR-encodable) =====
+
+// CompressionStream が無いブラウザでは無圧縮 ('j') で書き出す
+const canCompress = (): boolean =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const createBackupCode = async (save: SaveData, runs: RunRecord[]): Promise<string> => {
+  const bests = FREE_PLAY_MODE_KEYS.map((key) => personalBestForMode(runs, key))
+    .filter((run): run is RunRecord => run !== null)
+    .map((run) => ({ ...toExportedRun(run), splits: run.splits.slice(0, CODE_SPLITS), samples: [] }));
+  const compactSave = { ...save, daily: save.daily.slice(-1) };
+  const json = new TextEncoder().encode(JSON.stringify(createBody(compactSave, bests, false)));
+  const compressed = canCompress();
+  const payload = toBase64Url(compressed ? await pipeBytes(json, new CompressionStream('deflate-raw')) : json);
+  return `${CODE_PREFIX}.${compressed ? 'z' : 'j'}.${payload}.${fnv1a(payload)}`;
+};
+
+export const parseBackupCode = async (code: string): Promise<Backup> => {
+  const [prefix, encoding, payload, checksum, ...rest] = code.replace(/\s+/g, '').split('.');
+  if (prefix !== CODE_PREFIX || !payload || rest.length > 0) throw new DataError('wrongFormat', 'Not a backup code');
+  if (checksum !== fnv1a(payload)) throw new DataError('checksum', 'Backup code checksum does not match (typo or truncated?)');
+  if (encoding !== 'z' && encoding !== 'j') throw new DataError('unsupportedVersion', `Unknown backup code encoding: ${encoding}`);
+  if (encoding === 'z' && !canCompress()) throw new DataError('noCompression', 'This browser cannot read compressed backup codes');
+
+  let text: string;
+  try {
+    const bytes = fromBase64Url(payload);
+    const decoded = encoding === 'z' ? await pipeBytes(bytes, new DecompressionStream('deflate-raw')) : bytes;
+    text = new TextDecoder().decode(decoded);
+  } catch {
+    throw new DataError('damaged', 'Backup code is damaged');
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new DataError('damaged', 'Backup code is damaged');
+  }
+  return validateBody(body);
+};
+
+// ===== Restore =====
+
+const mergeBest = (a: RunStatSnapshot, b: RunStatSnapshot): RunStatSnapshot =>
+  (Object.keys(a) as (keyof RunStatSnapshot)[]).reduce<RunStatSnapshot>(
+    (acc, key) => ({ ...acc, [key]: Math.max(a[key], b[key]) }),
+    a
+  );
+
+// 同じ称号は先に解放した方（日時不明の記録より日時のある記録）を残す
+const mergeUnlocks = (a: UnlockRecord[], b: UnlockRecord[]): UnlockRecord[] => {
+  const byKey = new Map<string, UnlockRecord>();
+  [...a, ...b].forEach((record) => {
+    const existing = byKey.get(record.key);
+    const earlier =
+      !existing ||
+      (record.unlockedAt > 0 && (existing.unlockedAt === 0 || record.unlockedAt < existing.unlockedAt));
+    if (earlier) byKey.set(record.key, record);
+  });
+  return Array.from(byKey.values());
+};
+
+/**
+ * マージ: 最高記録・累計は大きい方、称号は和集合、設定はこの端末のものを残す。
+ * 補正値は画面ごとのプロファイルなので、この端末に無い画面の分だけ取り込む。
+ */
+export const mergeSave = (current: SaveData, incoming: SaveData): SaveData => ({
+  highScorePx: Math.max(current.highScorePx, incoming.highScorePx),
+  settings: {
+    ...current.settings,
+    calibrationProfiles: mergeProfiles(current.settings.calibrationProfiles, incoming.settings.calibrationProfiles),
+  },
+  unlocks: mergeUnlocks(current.unlocks, incoming.unlocks),
+  runState: current.runState,
+  lifetime: {
+    distanceM: Math.max(current.lifetime.distanceM, incoming.lifetime.distanceM),
+    runCount: Math.max(current.lifetime.runCount, incoming.lifetime.runCount),
+    recentMaxDepthsM: current.lifetime.recentMaxDepthsM,
+    best: mergeBest(current.lifetime.best, incoming.lifetime.best),
+  },
+  daily: mergeDailyResults(current.daily, incoming.daily),
+  modeBests: mergeModeBests(current.modeBests, incoming.modeBests),
+});
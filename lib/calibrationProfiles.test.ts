@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  adoptLegacyProfile,
+  applyProfileTo,
+  CalibrationProfile,
+  DisplaySignature,
+  LEGACY_PROFILE_KEY,
+  mergeProfiles,
+  removeProfile,
+  signatureKey,
+  upsertProfile,
+} from './calibrationProfiles';
+import { validateSaveData } from './storage';
+
+const LAPTOP: DisplaySignature = { dpr: 2, screenWidth: 1440, screenHeight: 900, pointer: 'fine' };
+const MONITOR: DisplaySignature = { dpr: 1, screenWidth: 2560, screenHeight: 1440, pointer: 'fine' };
+
+const LEGACY: CalibrationProfile = {
+  key: LEGACY_PROFILE_KEY,
+  signature: null,
+  pxPerCm: { x: 38, y: 38 },
+  inputScale: null,
+  updatedAt: 5,
+};
+
+const sanitize = (calibrationProfiles: unknown): CalibrationProfile[] =>
+  validateSaveData({ settings: { calibrationProfiles } }).settings.calibrationProfiles;
+
+describe('signatureKey', () => {
+  it('identifies a display by its size, zoom and pointer', () => {
+    expect(signatureKey(LAPTOP)).toBe('1440x900@2-fine');
+    expect(signatureKey({ ...LAPTOP, pointer: 'coarse' })).not.toBe(signatureKey(LAPTOP));
+  });
+});
+
+describe('upsertProfile', () => {
+  it('saves a display and updates only the patched value', () => {
+    const saved = upsertProfile([], LAPTOP, { pxPerCm: { x: 70, y: 71 } }, 1);
+    expect(saved).toEqual([
+      { key: signatureKey(LAPTOP), signature: LAPTOP, pxPerCm: { x: 70, y: 71 }, inputScale: null, updatedAt: 1 },
+    ]);
+
+    const updated = upsertProfile(saved, LAPTOP, { inputScale: { wheel: 2, touch: 1 } }, 2);
+    expect(updated).toEqual([{ ...saved[0], inputScale: { wheel: 2, touch: 1 }, updatedAt: 2 }]);
+  });
+
+  it('removes a profile once both values are cleared', () => {
+    const saved = upsertProfile([], LAPTOP, { pxPerCm: { x: 70, y: 70 } }, 1);
+    expect(upsertProfile(saved, LAPTOP, { pxPerCm: null }, 2)).toEqual([]);
+  });
+});
+
+describe('removeProfile', () => {
+  it('deletes only the given display', () => {
+    const profiles = upsertProfile(upsertProfile([], LAPTOP, { pxPerCm: { x: 70, y: 70 } }), MONITOR, {
+      pxPerCm: { x: 36, y: 36 },
+    });
+    expect(removeProfile(profiles, signatureKey(LAPTOP)).map((p) => p.key)).toEqual([signatureKey(MONITOR)]);
+    expect(removeProfile(profiles, 'unknown')).toEqual(profiles);
+  });
+});
+
+describe('adoptLegacyProfile', () => {
+  it('re-keys the legacy profile to this display', () => {
+    expect(adoptLegacyProfile([LEGACY], LAPTOP)).toEqual([
+      { key: signatureKey(LAPTOP), signature: LAPTOP, pxPerCm: LEGACY.pxPerCm, inputScale: null, updatedAt: 5 },
+    ]);
+  });
+
+  it('returns the same array when there is nothing to re-key', () => {
+    const profiles = upsertProfile([], LAPTOP, { pxPerCm: { x: 70, y: 70 } });
+    expect(adoptLegacyProfile(profiles, LAPTOP)).toBe(profiles);
+
+    // この画面にもう補正値があれば、旧データで上書きしない
+    const both = [LEGACY, ...profiles];
+    expect(adoptLegacyProfile(both, LAPTOP)).toBe(both);
+  });
+});
+
+describe('applyProfileTo', () => {
+  it('copies only the calibrated values of another display', () => {
+    const monitor = upsertProfile([], MONITOR, { pxPerCm: { x: 36, y: 36 } }, 1)[0];
+    const laptop = upsertProfile([monitor], LAPTOP, { inputScale: { wheel: 3, touch: 2 } }, 2);
+    expect(applyProfileTo(laptop, monitor, LAPTOP, 3)).toEqual([
+      monitor,
+      {
+        key: signatureKey(LAPTOP),
+        signature: LAPTOP,
+        pxPerCm: { x: 36, y: 36 },
+        inputScale: { wheel: 3, touch: 2 },
+        updatedAt: 3,
+      },
+    ]);
+  });
+});
+
+describe('mergeProfiles', () => {
+  it('adds incoming displays but keeps the current values', () => {
+    const current = upsertProfile([], LAPTOP, { pxPerCm: { x: 70, y: 70 } });
+    const incoming = [
+      ...upsertProfile([], LAPTOP, { pxPerCm: { x: 10, y: 10 } }),
+      ...upsertProfile([], MONITOR, { pxPerCm: { x: 36, y: 36 } }),
+    ];
+    expect(mergeProfiles(current, incoming)).toEqual([current[0], incoming[1]]);
+  });
+});
+
+describe('sanitizing saved profiles', () => {
+  it('drops broken profiles and duplicate displays', () => {
+    const valid = { key: 'a', signature: LAPTOP, pxPerCm: { x: 70, y: 70 }, inputScale: null, updatedAt: 1 };
+    expect(
+      sanitize([
+        null,
+        'a',
+        valid,
+        { ...valid, pxPerCm: { x: 1, y: 1 } },
+        { ...valid, key: 7 },
+        { ...valid, key: 'b', pxPerCm: { x: -1, y: 70 } },
+        { ...valid, key: 'c', pxPerCm: null, inputScale: { wheel: 1 } },
+      ])
+    ).toEqual([valid]);
+  });
+
+  it('repairs values that can be kept', () => {
+    const [profile] = sanitize([
+      { key: 'a', signature: { ...LAPTOP, pointer: 'pen' }, pxPerCm: 40, inputScale: null, updatedAt: 'soon' },
+    ]);
+    expect(profile).toEqual({
+      key: 'a',
+      signature: { ...LAPTOP, pointer: 'none' },
+      pxPerCm: { x: 40, y: 40 },
+      inputScale: null,
+      updatedAt: 0,
+    });
+    expect(sanitize([{ ...profile, signature: { dpr: 0 } }])[0].signature).toBeNull();
+  });
+
+  it('keeps a pre-profile calibration as the legacy profile', () => {
+    expect(validateSaveData({ settings: { calibratedPxPerCm: 38 } }).settings.calibrationProfiles).toEqual([
+      { ...LEGACY, updatedAt: 0 },
+    ]);
+    expect(validateSaveData({}).settings.calibrationProfiles).toEqual([]);
+  });
+});
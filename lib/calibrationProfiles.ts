@@ -0,0 +1,110 @@
+import { PxPerCm } from '../types';
+import { InputScale } from './input';
+
+// キャリブレーションは画面ごと。外部モニターをつないだりブラウザのズームを変えると
+// 1cm あたりの px が変わるので、画面の特徴ごとに補正値を持つ。
+// スクロール量の補正（ホイール・トラックパッド・タッチ）も入力機器に依存するので同じ単位で持つ
+export type PointerKind = 'coarse' | 'fine' | 'none';
+
+export interface DisplaySignature {
+  dpr: number; // devicePixelRatio（ブラウザのズームでも変わる）
+  screenWidth: number; // 長辺（画面の回転で入れ替わらないように）
+  screenHeight: number; // 短辺
+  pointer: PointerKind;
+}
+
+export interface CalibrationProfile {
+  key: string;
+  signature: DisplaySignature | null; // null = 画面の情報を持たない旧データ
+  pxPerCm: PxPerCm | null; // null = 画面の大きさは未補正
+  inputScale: InputScale | null; // null = スクロール量は未補正
+  updatedAt: number; // epoch ms
+}
+
+export type ProfilePatch = Partial<Pick<CalibrationProfile, 'pxPerCm' | 'inputScale'>>;
+
+// v5 以前の補正値（どの画面で測ったか分からない）。最初に開いた画面のものとして引き取る
+export const LEGACY_PROFILE_KEY = 'legacy';
+
+const POINTER_KINDS: PointerKind[] = ['coarse', 'fine', 'none'];
+
+const readPointer = (): PointerKind => {
+  if (typeof window === 'undefined' || !window.matchMedia) return 'none';
+  return POINTER_KINDS.find((kind) => window.matchMedia(`(pointer: ${kind})`).matches) ?? 'none';
+};
+
+export const readDisplaySignature = (): DisplaySignature => {
+  const width = typeof screen !== 'undefined' ? screen.width : 0;
+  const height = typeof screen !== 'undefined' ? screen.height : 0;
+  return {
+    // ズーム率は 1.100000023 のような値になるので丸める
+    dpr: Math.round((typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1) * 100) / 100,
+    screenWidth: Math.max(width, height),
+    screenHeight: Math.min(width, height),
+    pointer: readPointer(),
+  };
+};
+
+export const signatureKey = (signature: DisplaySignature): string =>
+  `${signature.screenWidth}x${signature.screenHeight}@${signature.dpr}-${signature.pointer}`;
+
+export const findProfile = (profiles: CalibrationProfile[], key: string): CalibrationProfile | null =>
+  profiles.find((profile) => profile.key === key) ?? null;
+
+/** 画面の補正値を登録・更新する。どちらの補正値も無くなったプロファイルは消す */
+export const upsertProfile = (
+  profiles: CalibrationProfile[],
+  signature: DisplaySignature,
+  patch: ProfilePatch,
+  now: number = Date.now()
+): CalibrationProfile[] => {
+  const key = signatureKey(signature);
+  const existing = findProfile(profiles, key);
+  const profile: CalibrationProfile = {
+    key,
+    signature,
+    pxPerCm: existing?.pxPerCm ?? null,
+    inputScale: existing?.inputScale ?? null,
+    ...patch,
+    updatedAt: now,
+  };
+  const rest = profiles.filter((p) => p.key !== key);
+  return profile.pxPerCm || profile.inputScale ? [...rest, profile] : rest;
+};
+
+export const removeProfile = (profiles: CalibrationProfile[], key: string): CalibrationProfile[] =>
+  profiles.filter((profile) => profile.key !== key);
+
+/** 別の画面で測った値をこの画面にも使う（測っていない方の補正値はこの画面のまま） */
+export const applyProfileTo = (
+  profiles: CalibrationProfile[],
+  source: CalibrationProfile,
+  signature: DisplaySignature,
+  now: number = Date.now()
+): CalibrationProfile[] =>
+  upsertProfile(
+    profiles,
+    signature,
+    {
+      ...(source.pxPerCm && { pxPerCm: source.pxPerCm }),
+      ...(source.inputScale && { inputScale: source.inputScale }),
+    },
+    now
+  );
+
+/** 旧データの補正値を、この画面のプロファイルに付け替える。付け替えなければ同じ配列を返す */
+export const adoptLegacyProfile = (
+  profiles: CalibrationProfile[],
+  signature: DisplaySignature
+): CalibrationProfile[] => {
+  const legacy = findProfile(profiles, LEGACY_PROFILE_KEY);
+  if (!legacy || findProfile(profiles, signatureKey(signature))) return profiles;
+  const patch = { pxPerCm: legacy.pxPerCm, inputScale: legacy.inputScale };
+  return upsertProfile(removeProfile(profiles, LEGACY_PROFILE_KEY), signature, patch, legacy.updatedAt);
+};
+
+/** バックアップのマージ用。同じ画面はこちらの値を優先する */
+export const mergeProfiles = (current: CalibrationProfile[], incoming: CalibrationProfile[]): CalibrationProfile[] => [
+  ...current,
+  ...incoming.filter((profile) => !findProfile(current, profile.key)),
+];
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { chartBounds, downsample, niceCeil, projectPoints, zeroLineY } from './chart';
+
+describe('niceCeil', () => {
+  it('rounds up to 1, 2 or 5 times a power of ten', () => {
+    expect([0, 0.3, 1, 1.1, 3, 7, 42, 120].map(niceCeil)).toEqual([0, 0.5, 1, 2, 5, 10, 50, 200]);
+  });
+});
+
+describe('chartBounds', () => {
+  it('covers every series from zero', () => {
+    const bounds = chartBounds([
+      [{ x: 0, y: 0 }, { x: 4_000, y: 120 }],
+      [{ x: 0, y: 0 }, { x: 9_000, y: 80 }],
+    ]);
+    expect(bounds).toEqual({ maxX: 9_000, minY: 0, maxY: 200 });
+  });
+
+  it('extends below zero for negative values', () => {
+    expect(chartBounds([[{ x: 1_000, y: -3 }, { x: 2_000, y: 7 }]])).toEqual({ maxX: 2_000, minY: -5, maxY: 10 });
+  });
+
+  it('never collapses to an empty range', () => {
+    expect(chartBounds([])).toEqual({ maxX: 1, minY: 0, maxY: 1 });
+    expect(chartBounds([[{ x: 0, y: 0 }]])).toEqual({ maxX: 1, minY: 0, maxY: 1 });
+  });
+});
+
+describe('projectPoints', () => {
+  const bounds = { maxX: 1_000, minY: 0, maxY: 100 };
+
+  it('puts larger values higher by default', () => {
+    expect(projectPoints([{ x: 0, y: 0 }, { x: 500, y: 50 }, { x: 1_000, y: 100 }], bounds, 300, 60)).toEqual([
+      { x: 0, y: 60 },
+      { x: 150, y: 30 },
+      { x: 300, y: 0 },
+    ]);
+  });
+
+  it('puts larger values lower when flipped', () => {
+    expect(projectPoints([{ x: 0, y: 0 }, { x: 1_000, y: 100 }], bounds, 300, 60, true)).toEqual([
+      { x: 0, y: 0 },
+      { x: 300, y: 60 },
+    ]);
+  });
+
+  it('maps the negative range into the chart', () => {
+    const signed = { maxX: 1_000, minY: -50, maxY: 50 };
+    expect(projectPoints([{ x: 0, y: -50 }, { x: 1_000, y: 50 }], signed, 100, 80)).toEqual([
+      { x: 0, y: 80 },
+      { x: 100, y: 0 },
+    ]);
+  });
+});
+
+describe('zeroLineY', () => {
+  it('sits at the bottom (or top when flipped) without negative values', () => {
+    const bounds = { maxX: 1_000, minY: 0, maxY: 100 };
+    expect(zeroLineY(bounds, 60)).toBe(60);
+    expect(zeroLineY(bounds, 60, true)).toBe(0);
+  });
+
+  it('sits where zero falls in a signed range', () => {
+    const bounds = { maxX: 1_000, minY: -20, maxY: 60 };
+    expect(zeroLineY(bounds, 80)).toBe(60);
+    expect(zeroLineY(bounds, 80, true)).toBe(20);
+  });
+});
+
+describe('downsample', () => {
+  it('keeps short series as they are', () => {
+    const points = [{ x: 0, y: 0 }, { x: 1, y: 1 }];
+    expect(downsample(points, 5)).toBe(points);
+  });
+
+  it('thins evenly and keeps the last point', () => {
+    const points = Array.from({ length: 10 }, (_, i) => ({ x: i, y: i }));
+    expect(downsample(points, 4).map((point) => point.x)).toEqual([0, 3, 6, 9]);
+    expect(downsample(points, 3).map((point) => point.x)).toEqual([0, 4, 8, 9]);
+  });
+});
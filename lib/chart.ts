@@ -0,0 +1,64 @@
+// 結果画面のグラフの座標計算。SVG（画面）と canvas（共有画像）で同じ形に描けるよう、描画とは分けておく
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+export interface ChartBounds {
+  maxX: number;
+  minY: number; // 加速度のように負になる系列もある
+  maxY: number;
+}
+
+// 1時間のランでも描画が重くならないように、1系列あたりの点はこれ以下に間引く
+export const MAX_CHART_POINTS = 600;
+
+/** 目盛りに使う切りのいい値（1, 2, 5 × 10^n）に切り上げる */
+export const niceCeil = (value: number): number => {
+  if (value <= 0) return 0;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+export const chartBounds = (series: ChartPoint[][]): ChartBounds => {
+  const points = series.flat();
+  const maxY = Math.max(0, ...points.map((point) => point.y));
+  const minY = Math.min(0, ...points.map((point) => point.y));
+  return {
+    maxX: Math.max(1, ...points.map((point) => point.x)),
+    minY: minY < 0 ? -niceCeil(-minY) : 0,
+    maxY: niceCeil(maxY) || 1,
+  };
+};
+
+/** 等間隔に間引く（最後の点は必ず残す） */
+export const downsample = (points: ChartPoint[], maxPoints: number = MAX_CHART_POINTS): ChartPoint[] => {
+  if (points.length <= maxPoints) return points;
+  const stride = Math.ceil(points.length / maxPoints);
+  const kept = points.filter((_, i) => i % stride === 0);
+  return kept[kept.length - 1] === points[points.length - 1] ? kept : [...kept, points[points.length - 1]];
+};
+
+/**
+ * グラフ内の座標 (px) にする。flipped = true なら値が大きいほど下（深さのグラフ）、
+ * false なら上（速さ・加速度）
+ */
+export const projectPoints = (
+  points: ChartPoint[],
+  bounds: ChartBounds,
+  width: number,
+  height: number,
+  flipped = false
+): ChartPoint[] => {
+  const rangeY = bounds.maxY - bounds.minY || 1;
+  return points.map((point) => {
+    const ratioY = (point.y - bounds.minY) / rangeY;
+    return { x: (point.x / bounds.maxX) * width, y: (flipped ? ratioY : 1 - ratioY) * height };
+  });
+};
+
+/** y = 0 の線の位置 (px) */
+export const zeroLineY = (bounds: ChartBounds, height: number, flipped = false): number =>
+  projectPoints([{ x: 0, y: 0 }], bounds, 1, height, flipped)[0].y;
@@ -0,0 +1,9 @@
+// FNV-1a (32bit)。書き出したファイルの改ざん・破損検知用で、暗号学的な強度はない
+export const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ResistanceType, SimulationState } from '../types';
+import { dailyOutcome, dailyRulesFor, DailyRules, shiftDateKey } from './daily';
+import { createInitialState } from './simulation';
+
+const RULES: DailyRules = {
+  dateKey: '2026-10-01',
+  seed: 1,
+  resistance: ResistanceType.STATIC,
+  inertiaEnabled: true,
+  gravityMultiplier: 1,
+  timeLimitMs: 30_000,
+  targetCm: 200,
+};
+
+const stateOf = (overrides: Partial<SimulationState>): SimulationState => ({ ...createInitialState(), ...overrides });
+
+describe('dailyRulesFor', () => {
+  it('gives the same rules for the same date', () => {
+    expect(dailyRulesFor('2026-10-01')).toEqual(dailyRulesFor('2026-10-01'));
+  });
+
+  it('fixes the input mode along with the other rules', () => {
+    const dates = Array.from({ length: 60 }, (_, i) => shiftDateKey('2026-10-01', i));
+    const modes = new Set(dates.map((dateKey) => dailyRulesFor(dateKey).inertiaEnabled));
+    expect(modes).toEqual(new Set([true, false]));
+  });
+
+  it('varies between dates', () => {
+    const seeds = new Set(['2026-10-01', '2026-10-02', '2026-10-03'].map((dateKey) => dailyRulesFor(dateKey).seed));
+    expect(seeds.size).toBe(3);
+  });
+});
+
+describe('dailyOutcome', () => {
+  it('clears when the target split is within the time limit', () => {
+    const state = stateOf({ splits: [{ distanceCm: 200, timeMs: 30_000 }, { distanceCm: 100, timeMs: 12_000 }], runTime: 31_000 });
+    expect(dailyOutcome(RULES, state)).toEqual({ cleared: true, timeMs: 30_000 });
+  });
+
+  it('fails when the target split came too late', () => {
+    const state = stateOf({ splits: [{ distanceCm: 200, timeMs: 30_001 }], runTime: 30_001 });
+    expect(dailyOutcome(RULES, state)).toEqual({ cleared: false });
+  });
+
+  it('fails once the time limit passes without the target', () => {
+    const state = stateOf({ splits: [{ distanceCm: 100, timeMs: 12_000 }], runTime: 30_001 });
+    expect(dailyOutcome(RULES, state)).toEqual({ cleared: false });
+  });
+
+  it('is still in progress before the target and the time limit', () => {
+    expect(dailyOutcome(RULES, stateOf({ splits: [{ distanceCm: 100, timeMs: 12_000 }], runTime: 30_000 }))).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { ResistanceType, SimulationState } from '../types';
+import { fnv1a } from './checksum';
+import { nextRandom } from './simulation';
+
+// デイリーチャレンジ: 日付だけからルールを決めるので、サーバー無しでも同じ日なら全員同じ条件になる
+
+export interface DailyRules {
+  dateKey: string; // YYYY-MM-DD（端末のローカル日付）
+  seed: number; // GLITCH の乱数もこの値から始める
+  resistance: ResistanceType;
+  inertiaEnabled: boolean; // 入力モードも固定する（INERTIA と DIRECT の成績が1日分の記録に混ざらないように）
+  gravityMultiplier: number;
+  timeLimitMs: number;
+  targetCm: number;
+}
+
+// 1日分の成績
+export interface DailyResult {
+  dateKey: string;
+  bestTimeMs: number | null; // 目標深度までのタイム。null = まだクリアしていない
+  attempts: number;
+}
+
+export type DailyOutcome = { cleared: true; timeMs: number } | { cleared: false };
+
+const GRAVITY_MULTIPLIERS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const TIME_LIMITS_SEC = [20, 30, 45, 60, 90];
+// 制限時間 1 秒あたりの目標深度 (cm)
+const TARGET_CM_PER_SEC = [4, 6, 8, 10, 12];
+// バネ・グリッチのあるモードは同じペースで潜れないので目標を下げる
+const RESISTANCE_TARGET_FACTOR: Record<ResistanceType, number> = {
+  [ResistanceType.STATIC]: 1,
+  [ResistanceType.ELASTIC]: 0.6,
+  [ResistanceType.GLITCH]: 0.8,
+};
+const TARGET_STEP_CM = 10;
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+export const localDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+
+/** 日付キーを1日ずらす（月末・うるう年はDateに任せる） */
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return localDateKey(new Date(year, month - 1, day + days));
+};
+
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/** 日付からその日のルールを決める（同じ日付なら常に同じ結果） */
+export const dailyRulesFor = (dateKey: string): DailyRules => {
+  const seed = parseInt(fnv1a(`daily:${dateKey}`), 16) | 0;
+  let rngState = seed;
+  const pick = <T>(options: readonly T[]): T => {
+    const [roll, nextState] = nextRandom(rngState);
+    rngState = nextState;
+    return options[Math.floor(roll * options.length)];
+  };
+
+  const resistance = pick(Object.values(ResistanceType));
+  const gravityMultiplier = pick(GRAVITY_MULTIPLIERS);
+  const timeLimitSec = pick(TIME_LIMITS_SEC);
+  const targetCm =
+    Math.round((timeLimitSec * pick(TARGET_CM_PER_SEC) * RESISTANCE_TARGET_FACTOR[resistance]) / TARGET_STEP_CM) *
+    TARGET_STEP_CM;
+  // 後から追加したルールなので最後に引く（既存の日付の他のルールを変えないため）
+  const inertiaEnabled = pick([true, false]);
+  return { dateKey, seed, resistance, inertiaEnabled, gravityMultiplier, timeLimitMs: timeLimitSec * 1000, targetCm };
+};
+
+/**
+ * ランの結果を判定する。目標深度のスプリットが制限時間内ならクリア、
+ * 制限時間を過ぎたら失敗、まだどちらでもなければ null（ラン継続中）
+ */
+export const dailyOutcome = (rules: DailyRules, state: SimulationState): DailyOutcome | null => {
+  const split = state.splits.find((record) => record.distanceCm === rules.targetCm);
+  if (split && split.timeMs <= rules.timeLimitMs) return { cleared: true, timeMs: split.timeMs };
+  if (split || state.runTime > rules.timeLimitMs) return { cleared: false };
+  return null;
+};
+
+/** 挑戦を1回記録する。同じ日の成績は速い方を残す */
+export const recordDailyAttempt = (
+  results: DailyResult[],
+  dateKey: string,
+  outcome: DailyOutcome
+): DailyResult[] => {
+  const existing = results.find((result) => result.dateKey === dateKey);
+  const times = [existing?.bestTimeMs ?? null, outcome.cleared ? outcome.timeMs : null].filter(
+    (time): time is number => time !== null
+  );
+  const updated: DailyResult = {
+    dateKey,
+    bestTimeMs: times.length > 0 ? Math.min(...times) : null,
+    attempts: (existing?.attempts ?? 0) + 1,
+  };
+  return [...results.filter((result) => result.dateKey !== dateKey), updated].sort((a, b) =>
+    a.dateKey.localeCompare(b.dateKey)
+  );
+};
+
+/** バックアップのマージ用。同じ日は速いタイムと多い挑戦回数を残す */
+export const mergeDailyResults = (current: DailyResult[], incoming: DailyResult[]): DailyResult[] => {
+  const byDate = new Map(current.map((result) => [result.dateKey, result]));
+  incoming.forEach((result) => {
+    const existing = byDate.get(result.dateKey);
+    if (!existing) {
+      byDate.set(result.dateKey, result);
+      return;
+    }
+    const times = [existing.bestTimeMs, result.bestTimeMs].filter((time): time is number => time !== null);
+    byDate.set(result.dateKey, {
+      dateKey: result.dateKey,
+      bestTimeMs: times.length > 0 ? Math.min(...times) : null,
+      attempts: Math.max(existing.attempts, result.attempts),
+    });
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+};
+
+/**
+ * 連続クリア日数。今日がまだ未クリアでも、昨日までの連続は途切れていない扱いにする
+ */
+export const dailyStreak = (results: DailyResult[], todayKey: string): number => {
+  const cleared = new Set(results.filter((result) => result.bestTimeMs !== null).map((result) => result.dateKey));
+  let dateKey = cleared.has(todayKey) ? todayKey : shiftDateKey(todayKey, -1);
+  let streak = 0;
+  while (cleared.has(dateKey)) {
+    streak += 1;
+    dateKey = shiftDateKey(dateKey, -1);
+  }
+  return streak;
+};
@@ -0,0 +1,21 @@
+// 読み込んだファイル・コード・リンクが使えないときのエラー。
+// message は開発者向けの英語で、画面には kind を表示言語の文言にして出す（errorMessage）
+export type DataErrorKind =
+  | 'invalidJson' // JSON として読めない
+  | 'wrongFormat' // 別の種類のデータ
+  | 'unsupportedVersion' // このアプリより新しい形式
+  | 'checksum' // 書き換えられている・途中で切れている
+  | 'damaged' // デコードできない
+  | 'invalid' // 中身の値がおかしい
+  | 'noCompression' // 圧縮されたデータをこのブラウザで読めない
+  | 'network'; // 取得に失敗した
+
+export class DataError extends Error {
+  readonly kind: DataErrorKind;
+
+  constructor(kind: DataErrorKind, message: string) {
+    super(message);
+    this.name = 'DataError';
+    this.kind = kind;
+  }
+}
@@ -0,0 +1,33 @@
+// ブラウザ内で生成したデータをファイルとして保存させる
+export const downloadBlob = (filename: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, mimeType = 'application/json'): void => {
+  downloadBlob(filename, new Blob([text], { type: mimeType }));
+};
+
+/**
+ * 共有シート（Web Share API）でファイルを渡せればそれを使い、できなければダウンロードする。
+ * 共有シートを閉じただけ（AbortError）は失敗にしない
+ */
+export const shareOrDownload = async (filename: string, blob: Blob, text: string, url?: string): Promise<void> => {
+  const file = new File([blob], filename, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], text, url });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+      throw e;
+    }
+    return;
+  }
+  downloadBlob(filename, blob);
+};
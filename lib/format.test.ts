@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { en } from '../data/i18n/en';
+import { ja } from '../data/i18n/ja';
+import {
+  createUnitFormatter,
+  formatCompactNumber,
+  formatDelta,
+  formatSignedDistance,
+  formatTime,
+} from './format';
+
+const CM_PER_FOOT = 30.48;
+const CM_PER_MILE = 160934.4;
+
+const metric = createUnitFormatter('metric', ja.units);
+const imperial = createUnitFormatter('imperial', ja.units);
+
+describe('createUnitFormatter', () => {
+  it('formats metric units', () => {
+    expect(metric.distance(50)).toBe('50.0 cm');
+    expect(metric.distance(12345)).toBe('123.45 m');
+    expect(metric.speed(0.005)).toBe('0.5 cm/s');
+    expect(metric.speed(3)).toBe('3.00 m/s');
+    expect(metric.speedAlt(10)).toBe('36.0 km/h');
+    expect(metric.accel(9.8)).toBe('9.80 m/s²');
+  });
+
+  it('formats imperial units', () => {
+    expect(imperial.distance(2.54)).toBe('1.0 in');
+    expect(imperial.distance(CM_PER_FOOT * 3)).toBe('3.0 ft');
+    expect(imperial.distance(CM_PER_MILE * 2)).toBe('2.000 mi');
+    expect(imperial.speed(0.3048)).toBe('1.00 ft/s');
+    expect(imperial.speedAlt(0.44704)).toBe('1.0 mph');
+    expect(imperial.accel(9.80665)).toBe('32.17 ft/s²');
+  });
+
+  it('formats fun units with the names of the locale', () => {
+    const funJa = createUnitFormatter('fun', ja.units);
+    const funEn = createUnitFormatter('fun', en.units);
+    expect(funJa.distance(14.7)).toBe('スマホ1.0台分');
+    expect(funEn.distance(29.4)).toBe('2.0 phones');
+    expect(funJa.distance(63400)).toBe('スカイツリー1.000本分');
+    expect(funEn.speed(0.147)).toBe('1.0 phones/s');
+    expect(funJa.speedAlt(10)).toBe('36.0 km/h');
+    expect(funJa.accel(9.80665)).toBe('1.00 G');
+  });
+
+  it('keeps round numbers short in compact formats', () => {
+    expect(metric.compactDistance(500)).toBe('5 m');
+    expect(metric.compactDistance(150)).toBe('1.5 m');
+    expect(metric.compactDistance(50)).toBe('50 cm');
+    expect(metric.compactDistance(123456)).toBe('1235 m');
+    expect(metric.compactSpeed(2.5)).toBe('2.5 m/s');
+    expect(metric.compactAccel(10)).toBe('10 m/s²');
+  });
+});
+
+// pickScale: 値以下で最大の単位、どれより小さければ最小の単位
+describe('scale boundaries', () => {
+  it('switches unit exactly at the size of the larger unit', () => {
+    expect(metric.distance(99.9)).toBe('99.9 cm');
+    expect(metric.distance(100)).toBe('1.00 m');
+    expect(imperial.distance(CM_PER_FOOT - 0.01)).toBe('12.0 in');
+    expect(imperial.distance(CM_PER_FOOT)).toBe('1.0 ft');
+    expect(imperial.distance(CM_PER_MILE - 1)).toBe('5280.0 ft');
+    expect(imperial.distance(CM_PER_MILE)).toBe('1.000 mi');
+  });
+
+  it('uses the smallest unit below every size, including zero', () => {
+    expect(metric.distance(0)).toBe('0.0 cm');
+    expect(imperial.distance(1)).toBe('0.4 in');
+  });
+
+  it('picks the unit by magnitude for negative values', () => {
+    expect(metric.distance(-150)).toBe('-1.50 m');
+    expect(metric.distance(-50)).toBe('-50.0 cm');
+  });
+});
+
+describe('formatCompactNumber', () => {
+  it('rounds by magnitude', () => {
+    expect(formatCompactNumber(5)).toBe('5');
+    expect(formatCompactNumber(12.34)).toBe('12.3');
+    expect(formatCompactNumber(123.4)).toBe('123');
+  });
+});
+
+describe('formatTime', () => {
+  it('shows seconds with two truncated decimals', () => {
+    expect(formatTime(0)).toBe('0.00s');
+    expect(formatTime(5)).toBe('0.00s');
+    expect(formatTime(1234)).toBe('1.23s');
+    expect(formatTime(61999)).toBe('61.99s');
+  });
+});
+
+describe('formatDelta', () => {
+  it('always shows a sign', () => {
+    expect(formatDelta(-1500)).toBe('-1.50');
+    expect(formatDelta(250)).toBe('+0.25');
+    expect(formatDelta(0)).toBe('+0.00');
+  });
+});
+
+describe('formatSignedDistance', () => {
+  it('puts the sign before the unit-formatted distance', () => {
+    expect(formatSignedDistance(-150, metric)).toBe('-1.50 m');
+    expect(formatSignedDistance(250, imperial)).toBe('+8.2 ft');
+    expect(formatSignedDistance(0, metric)).toBe('+0.0 cm');
+  });
+});
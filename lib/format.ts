@@ -0,0 +1,119 @@
+import type { Messages } from '../data/i18n/ja';
+
+// 表示用の数値フォーマット。距離・速度は単位系の設定に合わせて換算する
+export type UnitSystem = 'metric' | 'imperial' | 'fun';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial', 'fun'];
+
+export const isUnitSystem = (value: unknown): value is UnitSystem => UNIT_SYSTEMS.includes(value as UnitSystem);
+
+const CM_PER_INCH = 2.54;
+const CM_PER_FOOT = 30.48;
+const CM_PER_MILE = 160934.4;
+const MPS_PER_MPH = 0.44704;
+const MPS_PER_KMH = 1 / 3.6;
+const STANDARD_GRAVITY = 9.80665; // m/s²
+// 余興の単位
+const PHONE_CM = 14.7; // 6インチ級スマホの縦の長さ
+const SKYTREE_CM = 63400;
+
+/** 単位ひとつ分。size は基準単位 (cm, m/s, m/s²) での大きさ */
+interface Scale {
+  size: number;
+  digits: number; // 通常表示の小数桁
+  format: (value: string) => string;
+}
+
+interface SystemScales {
+  distance: Scale[]; // cm
+  speed: Scale[]; // m/s
+  speedAlt: Scale[]; // m/s。速度の副表示
+  accel: Scale[]; // m/s²
+}
+
+const unit = (size: number, digits: number, symbol: string): Scale => ({
+  size,
+  digits,
+  format: (value) => `${value} ${symbol}`,
+});
+
+const SCALES: { [S in Exclude<UnitSystem, 'fun'>]: SystemScales } = {
+  metric: {
+    distance: [unit(1, 1, 'cm'), unit(100, 2, 'm')],
+    speed: [unit(0.01, 1, 'cm/s'), unit(1, 2, 'm/s')],
+    speedAlt: [unit(MPS_PER_KMH, 1, 'km/h')],
+    accel: [unit(1, 2, 'm/s²')],
+  },
+  imperial: {
+    distance: [unit(CM_PER_INCH, 1, 'in'), unit(CM_PER_FOOT, 1, 'ft'), unit(CM_PER_MILE, 3, 'mi')],
+    speed: [unit(CM_PER_INCH / 100, 1, 'in/s'), unit(CM_PER_FOOT / 100, 2, 'ft/s')],
+    speedAlt: [unit(MPS_PER_MPH, 1, 'mph')],
+    accel: [unit(CM_PER_FOOT / 100, 2, 'ft/s²')],
+  },
+};
+
+// ネタ単位は言語ごとに言い回しが変わるので、名前は文言カタログから受け取る
+const funScales = (names: Messages['units']): SystemScales => ({
+  distance: [
+    { size: PHONE_CM, digits: 1, format: names.phones },
+    { size: SKYTREE_CM, digits: 3, format: names.skytrees },
+  ],
+  speed: [{ size: PHONE_CM / 100, digits: 1, format: names.phonesPerSecond }],
+  speedAlt: SCALES.metric.speedAlt,
+  accel: [unit(STANDARD_GRAVITY, 2, 'G')],
+});
+
+// value 以下で最大の単位。どれより小さければ最小の単位
+const pickScale = (scales: Scale[], value: number): Scale =>
+  scales.reduce((picked, scale) => (Math.abs(value) >= scale.size ? scale : picked), scales[0]);
+
+// 目標値などの丸めた表示。整数はそのまま、100以上は整数、それ未満は小数1桁
+export const formatCompactNumber = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) >= 100 ? 0 : 1);
+
+const formatScaled = (scales: Scale[], value: number, compact: boolean): string => {
+  const scale = pickScale(scales, value);
+  const scaled = value / scale.size;
+  return scale.format(compact ? formatCompactNumber(Number(scaled.toFixed(6))) : scaled.toFixed(scale.digits));
+};
+
+export interface UnitFormatter {
+  system: UnitSystem;
+  distance: (cm: number) => string;
+  speed: (mps: number) => string;
+  speedAlt: (mps: number) => string;
+  accel: (mps2: number) => string;
+  // スプリットの区切りや称号の目標値など、きりのいい数を見せる場面用
+  compactDistance: (cm: number) => string;
+  compactSpeed: (mps: number) => string;
+  compactAccel: (mps2: number) => string;
+}
+
+export const createUnitFormatter = (system: UnitSystem, names: Messages['units']): UnitFormatter => {
+  const scales = system === 'fun' ? funScales(names) : SCALES[system];
+  return {
+    system,
+    distance: (cm) => formatScaled(scales.distance, cm, false),
+    speed: (mps) => formatScaled(scales.speed, mps, false),
+    speedAlt: (mps) => formatScaled(scales.speedAlt, mps, false),
+    accel: (mps2) => formatScaled(scales.accel, mps2, false),
+    compactDistance: (cm) => formatScaled(scales.distance, cm, true),
+    compactSpeed: (mps) => formatScaled(scales.speed, mps, true),
+    compactAccel: (mps2) => formatScaled(scales.accel, mps2, true),
+  };
+};
+
+export const formatTime = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  const decimals = Math.floor((ms % 1000) / 10); // 2 digits
+  return `${seconds}.${decimals.toString().padStart(2, '0')}s`;
+};
+
+export const formatDelta = (ms: number): string => {
+  const sign = ms < 0 ? '-' : '+';
+  return `${sign}${(Math.abs(ms) / 1000).toFixed(2)}`;
+};
+
+/** 符号つきの距離（ゴーストとの差など） */
+export const formatSignedDistance = (cm: number, units: UnitFormatter): string =>
+  `${cm >= 0 ? '+' : '-'}${units.distance(Math.abs(cm))}`;
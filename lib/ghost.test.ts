@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { RunSample } from '../types';
+import { appendSample, collectGhostDeltas, ghostDepthAt, ghostTimeToReach, pickGhostRun, SAMPLE_INTERVAL_MS } from './ghost';
+import { runOf } from './testFixtures';
+
+const SAMPLES: RunSample[] = [
+  { t: 0, depthCm: 0 },
+  { t: 250, depthCm: 100 },
+  { t: 500, depthCm: 300 },
+  { t: 750, depthCm: 300 },
+  { t: 1000, depthCm: 200 },
+];
+
+describe('appendSample', () => {
+  it('keeps one sample every 250 ms', () => {
+    const samples: RunSample[] = [];
+    const kept = [0, 16, 249, 250, 260, 499, 520, 1000].filter((t) => appendSample(samples, t, t / 10));
+    expect(kept).toEqual([0, 250, 520, 1000]);
+    expect(samples).toEqual(kept.map((t) => ({ t, depthCm: t / 10 })));
+    expect(SAMPLE_INTERVAL_MS).toBe(250);
+  });
+});
+
+describe('ghostDepthAt', () => {
+  it('returns the sample at its exact time', () => {
+    expect(SAMPLES.map((sample) => ghostDepthAt(SAMPLES, sample.t))).toEqual([0, 100, 300, 300, 200]);
+  });
+
+  it('interpolates between samples', () => {
+    expect(ghostDepthAt(SAMPLES, 125)).toBe(50);
+    expect(ghostDepthAt(SAMPLES, 300)).toBe(140);
+    expect(ghostDepthAt(SAMPLES, 600)).toBe(300);
+    expect(ghostDepthAt(SAMPLES, 900)).toBe(240);
+  });
+
+  it('is on the floor after the ghost run ended', () => {
+    expect(ghostDepthAt(SAMPLES, 1001)).toBe(0);
+    expect(ghostDepthAt([], 0)).toBe(0);
+  });
+});
+
+describe('ghostTimeToReach', () => {
+  it('interpolates the first time the ghost reached a depth', () => {
+    expect(ghostTimeToReach(SAMPLES, 50)).toBe(125);
+    expect(ghostTimeToReach(SAMPLES, 200)).toBe(375);
+    expect(ghostTimeToReach(SAMPLES, 300)).toBe(500);
+  });
+
+  it('returns null for a depth the ghost never reached', () => {
+    expect(ghostTimeToReach(SAMPLES, 301)).toBeNull();
+  });
+});
+
+describe('collectGhostDeltas', () => {
+  it('adds each newly passed checkpoint the ghost also reached', () => {
+    const first = collectGhostDeltas([], [100, 200, 400], 150, 200, SAMPLES);
+    expect(first).toEqual([{ distanceCm: 100, deltaMs: -50 }]);
+    const second = collectGhostDeltas(first, [100, 200, 400], 450, 600, SAMPLES);
+    expect(second).toEqual([
+      { distanceCm: 100, deltaMs: -50 },
+      { distanceCm: 200, deltaMs: 225 },
+    ]);
+    expect(collectGhostDeltas(second, [100, 200, 400], 450, 700, SAMPLES)).toBe(second);
+  });
+});
+
+describe('pickGhostRun', () => {
+  it('uses the best run of the mode that has samples', () => {
+    const runs = [
+      runOf('deep-without-samples', 900),
+      runOf('best', 600, { samples: SAMPLES }),
+      runOf('shallow', 300, { samples: SAMPLES }),
+      runOf('other-mode', 1200, { samples: SAMPLES, inertiaEnabled: false }),
+    ];
+    expect(pickGhostRun(runs, 'STATIC/INERTIA')?.id).toBe('best');
+    expect(pickGhostRun([], 'STATIC/INERTIA')).toBeNull();
+  });
+});
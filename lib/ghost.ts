@@ -0,0 +1,66 @@
+import { GhostDelta, RunRecord, RunSample } from '../types';
+import { personalBestForMode } from './runHistory';
+
+// 深度の時系列は 250ms ごとに記録する（1時間のランでも 14,400 点）
+export const SAMPLE_INTERVAL_MS = 250;
+
+/** 前回のサンプルから間隔が空いていれば追記する（配列は破壊的に更新） */
+export const appendSample = (samples: RunSample[], t: number, depthCm: number): boolean => {
+  const last = samples[samples.length - 1];
+  if (last && t - last.t < SAMPLE_INTERVAL_MS) return false;
+  samples.push({ t, depthCm });
+  return true;
+};
+
+/** ゴーストの時刻 t における深度 (cm)。ラン終了後は 0（着地済み） */
+export const ghostDepthAt = (samples: RunSample[], t: number): number => {
+  if (samples.length === 0 || t > samples[samples.length - 1].t) return 0;
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].t <= t) lo = mid;
+    else hi = mid;
+  }
+  const a = samples[lo];
+  const b = samples[hi];
+  if (b.t === a.t || t <= a.t) return a.depthCm;
+  return a.depthCm + ((b.depthCm - a.depthCm) * (t - a.t)) / (b.t - a.t);
+};
+
+/** ゴーストが初めて depthCm に到達した時刻 (ms)。到達していなければ null */
+export const ghostTimeToReach = (samples: RunSample[], depthCm: number): number | null => {
+  for (let i = 0; i < samples.length; i += 1) {
+    const b = samples[i];
+    if (b.depthCm < depthCm) continue;
+    const a = samples[i - 1];
+    if (!a || b.depthCm === a.depthCm) return b.t;
+    return a.t + ((b.t - a.t) * (depthCm - a.depthCm)) / (b.depthCm - a.depthCm);
+  }
+  return null;
+};
+
+/**
+ * 今回新たに通過したチェックポイントについてゴーストとのタイム差を追加する。
+ * ゴーストが到達していないチェックポイントは比較できないのでスキップ。
+ */
+export const collectGhostDeltas = (
+  deltas: GhostDelta[],
+  checkpointsCm: number[],
+  currentCm: number,
+  runTime: number,
+  ghostSamples: RunSample[]
+): GhostDelta[] => {
+  const added = checkpointsCm
+    .filter((cm) => currentCm >= cm && !deltas.some((d) => d.distanceCm === cm))
+    .map((cm) => {
+      const ghostTime = ghostTimeToReach(ghostSamples, cm);
+      return ghostTime === null ? null : { distanceCm: cm, deltaMs: runTime - ghostTime };
+    })
+    .filter((d): d is GhostDelta => d !== null);
+  return added.length > 0 ? [...deltas, ...added] : deltas;
+};
+
+/** モードの自己ベストをゴーストにする（サンプルのない古い記録は除く） */
+export const pickGhostRun = (runs: RunRecord[], modeKey: string): RunRecord | null =>
+  personalBestForMode(runs, modeKey, (run) => (run.samples?.length ?? 0) > 1);
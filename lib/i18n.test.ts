@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DataError } from './dataError';
+import { errorMessage, MESSAGES } from './i18n';
+
+type Catalog = { [key: string]: unknown };
+
+/** 文言のパス（'hud.titles' など）と値を全部並べる */
+const entriesOf = (catalog: Catalog, prefix = ''): [string, unknown][] =>
+  Object.entries(catalog).flatMap(([key, value]): [string, unknown][] =>
+    value && typeof value === 'object'
+      ? entriesOf(value as Catalog, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, value]]
+  );
+
+describe('catalogs', () => {
+  const ja = new Map(entriesOf(MESSAGES.ja));
+  const en = new Map(entriesOf(MESSAGES.en));
+
+  it('translates every Japanese message into English', () => {
+    const missing = [...ja.keys()].filter((path) => typeof en.get(path) !== typeof ja.get(path));
+    expect(missing).toEqual([]);
+  });
+
+  it('returns a non-empty string from every message function', () => {
+    [...ja, ...en].forEach(([path, value]) => {
+      if (typeof value !== 'function') return;
+      // 引数は数値・文字列・真偽値のどれでもテンプレートに埋め込まれるだけなので、'1' を渡して試す
+      const result: unknown = value(...Array.from({ length: value.length }, () => '1'));
+      // 途中を強調する文言（calibration.rulerHint など）は [前, 強調, 後] の組で返す
+      const parts = Array.isArray(result) ? result : [result];
+      expect(parts.every((part) => typeof part === 'string') && parts.join('').length > 0, path).toBe(true);
+    });
+  });
+});
+
+describe('errorMessage', () => {
+  it('translates data errors by kind', () => {
+    const error = new DataError('checksum', 'Run file checksum does not match');
+    expect(errorMessage(error, MESSAGES.en)).toBe('The data was modified or cut off');
+  });
+
+  it('keeps messages that are already localized', () => {
+    expect(errorMessage(new Error('保存されていません'), MESSAGES.en)).toBe('保存されていません');
+    expect(errorMessage('offline', MESSAGES.ja)).toBe('offline');
+  });
+});
@@ -0,0 +1,64 @@
+import { createContext, useContext } from 'react';
+import { en } from '../data/i18n/en';
+import { ja, Messages } from '../data/i18n/ja';
+import { Locale, Translations } from '../types';
+import { DataError } from './dataError';
+import { createUnitFormatter, UnitFormatter } from './format';
+
+export type { Messages };
+
+// 'auto' はブラウザの言語設定に従う
+export type LocaleSetting = Locale | 'auto';
+
+export const LOCALES: Locale[] = ['ja', 'en'];
+// 対応していない言語のブラウザでは英語にする
+const FALLBACK_LOCALE: Locale = 'en';
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ja: '日本語',
+  en: 'English',
+};
+
+export const MESSAGES: Record<Locale, Messages> = { ja, en };
+
+export const isLocaleSetting = (value: unknown): value is LocaleSetting =>
+  value === 'auto' || LOCALES.includes(value as Locale);
+
+/** navigator.languages の先頭から、対応している言語を探す（'ja-JP' → 'ja'） */
+export const detectLocale = (
+  languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []
+): Locale => {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0] as Locale;
+    if (LOCALES.includes(primary)) return primary;
+  }
+  return FALLBACK_LOCALE;
+};
+
+export const resolveLocale = (setting: LocaleSetting): Locale => (setting === 'auto' ? detectLocale() : setting);
+
+/** 原文に訳文を重ねる。訳の無いフィールドは原文のまま */
+export const localized = <T extends object>(base: T, translations: Translations<T> | undefined, locale: Locale): T => ({
+  ...base,
+  ...translations?.[locale],
+});
+
+/**
+ * 画面に出すエラー文。lib の読み込みエラーは種類ごとの文言にし、
+ * それ以外（App が t の文言で投げたものなど）は message をそのまま使う
+ */
+export const errorMessage = (e: unknown, t: Messages): string => {
+  if (e instanceof DataError) return t.errors.data[e.kind];
+  return e instanceof Error ? e.message : String(e);
+};
+
+// 単位系は言語と同じく表示の好みなので、同じコンテキストで配る
+export interface I18n {
+  locale: Locale;
+  t: Messages;
+  units: UnitFormatter;
+}
+
+export const I18nContext = createContext<I18n>({ locale: 'ja', t: ja, units: createUnitFormatter('metric', ja.units) });
+
+export const useI18n = (): I18n => useContext(I18nContext);
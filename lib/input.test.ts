@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { accumulateInput, emptyInput, gamepadDelta, INERTIA_INPUT_SCALE, keyboardDelta, normalizeWheelDelta } from './input';
+
+const LINE = 16;
+const PAGE = 800;
+
+const key = (k: string, modifiers: Partial<Pick<KeyboardEvent, 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>> = {}) => ({
+  key: k,
+  shiftKey: false,
+  altKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  ...modifiers,
+});
+
+// Standard Gamepad: ボタン 6/7 がトリガー、軸 1 が左スティックの縦
+const pad = (stickY: number, leftTrigger = 0, rightTrigger = 0): Pick<Gamepad, 'axes' | 'buttons'> => {
+  const buttons = Array.from({ length: 17 }, () => ({ pressed: false, touched: false, value: 0 }));
+  buttons[6] = { pressed: leftTrigger > 0, touched: leftTrigger > 0, value: leftTrigger };
+  buttons[7] = { pressed: rightTrigger > 0, touched: rightTrigger > 0, value: rightTrigger };
+  return { axes: [0, stickY, 0, 0], buttons };
+};
+
+describe('keyboardDelta', () => {
+  it('scrolls three lines with the arrow keys', () => {
+    expect(keyboardDelta(key('ArrowDown'), LINE, PAGE)).toBe(48);
+    expect(keyboardDelta(key('ArrowUp'), LINE, PAGE)).toBe(-48);
+  });
+
+  it('scrolls a page with PageDown, PageUp and Space', () => {
+    expect(keyboardDelta(key('PageDown'), LINE, PAGE)).toBe(800);
+    expect(keyboardDelta(key('PageUp'), LINE, PAGE)).toBe(-800);
+    expect(keyboardDelta(key(' '), LINE, PAGE)).toBe(800);
+  });
+
+  it('scrolls up with Shift+Space but ignores Shift on other keys', () => {
+    expect(keyboardDelta(key(' ', { shiftKey: true }), LINE, PAGE)).toBe(-800);
+    expect(keyboardDelta(key('ArrowDown', { shiftKey: true }), LINE, PAGE)).toBe(48);
+  });
+
+  it('leaves shortcuts and other keys to the browser', () => {
+    expect(keyboardDelta(key('ArrowDown', { ctrlKey: true }), LINE, PAGE)).toBeNull();
+    expect(keyboardDelta(key('ArrowDown', { altKey: true }), LINE, PAGE)).toBeNull();
+    expect(keyboardDelta(key(' ', { metaKey: true }), LINE, PAGE)).toBeNull();
+    expect(keyboardDelta(key('a'), LINE, PAGE)).toBeNull();
+    expect(keyboardDelta(key('Enter'), LINE, PAGE)).toBeNull();
+  });
+});
+
+describe('gamepadDelta', () => {
+  it('ignores the stick inside the deadzone', () => {
+    expect(gamepadDelta(pad(0.15), 1000)).toBe(0);
+    expect(gamepadDelta(pad(-0.1), 1000)).toBe(0);
+  });
+
+  it('rescales the stick outside the deadzone', () => {
+    expect(gamepadDelta(pad(1), 1000)).toBe(1500);
+    expect(gamepadDelta(pad(-1), 1000)).toBe(-1500);
+    expect(gamepadDelta(pad(0.575), 1000)).toBe(750);
+  });
+
+  it('scrolls down with the right trigger and up with the left', () => {
+    expect(gamepadDelta(pad(0, 0, 0.5), 1000)).toBe(750);
+    expect(gamepadDelta(pad(0, 1, 0), 1000)).toBe(-1500);
+    expect(gamepadDelta(pad(0, 1, 1), 1000)).toBe(0);
+  });
+
+  it('caps the combined input at full speed', () => {
+    expect(gamepadDelta(pad(1, 0, 1), 1000)).toBe(1500);
+  });
+
+  it('scales with the elapsed time and rounds to 0.01 px', () => {
+    expect(gamepadDelta(pad(1), 1000 / 60)).toBe(25);
+    expect(gamepadDelta(pad(0, 0, 0.3333), 7)).toBe(3.5);
+    expect(gamepadDelta(pad(1), 0)).toBe(0);
+  });
+
+  it('treats missing buttons and axes as released', () => {
+    expect(gamepadDelta({ axes: [], buttons: [] }, 1000)).toBe(0);
+  });
+});
+
+describe('normalizeWheelDelta', () => {
+  it('converts lines and pages to px and applies the scale', () => {
+    expect(normalizeWheelDelta({ deltaY: 100, deltaMode: 0 }, LINE, PAGE, 2)).toBe(200);
+    expect(normalizeWheelDelta({ deltaY: 3, deltaMode: 1 }, LINE, PAGE)).toBe(48);
+    expect(normalizeWheelDelta({ deltaY: -1, deltaMode: 2 }, LINE, PAGE)).toBe(-800);
+  });
+});
+
+describe('accumulateInput', () => {
+  it('adds scaled impulses per source in INERTIA', () => {
+    let input = accumulateInput(emptyInput(), 'wheel', 100, true);
+    input = accumulateInput(input, 'keyboard', 48, true);
+    expect(input.impulse).toBeCloseTo(100 * INERTIA_INPUT_SCALE.wheel + 48 * INERTIA_INPUT_SCALE.keyboard);
+    expect(input.directDelta).toBe(0);
+  });
+
+  it('adds raw px in DIRECT', () => {
+    let input = accumulateInput(emptyInput(), 'touch', 30, false);
+    input = accumulateInput(input, 'gamepad', -10, false);
+    expect(input).toEqual({ impulse: 0, directDelta: 20 });
+  });
+
+  it('does not modify the input it was given', () => {
+    const input = emptyInput();
+    accumulateInput(input, 'wheel', 100, true);
+    expect(input).toEqual(emptyInput());
+  });
+});
@@ -0,0 +1,124 @@
+import { SimulationInput } from './simulation';
+
+// スクロールのキャリブレーションで実測する入力（指の移動量と対応がある）
+export type ScrollSource = 'wheel' | 'touch';
+
+export type InputSource = ScrollSource | 'keyboard' | 'gamepad';
+
+export const SCROLL_MULTIPLIER = 1.0;
+
+// INERTIA モードでの入力ソース別の倍率（物理の手触り用）
+export const INERTIA_INPUT_SCALE: Record<InputSource, number> = {
+  wheel: 0.15,
+  touch: 0.25,
+  keyboard: 0.2,
+  gamepad: 0.12,
+};
+
+// 入力ソースごとの補正倍率。スクロール量と実際の指の移動量の比をスクロールのキャリブレーションで測る
+export type InputScale = Record<ScrollSource, number>;
+
+export const DEFAULT_INPUT_SCALE: InputScale = { wheel: 1, touch: 1 };
+
+export const INPUT_SOURCES: InputSource[] = ['wheel', 'touch', 'keyboard', 'gamepad'];
+
+// WheelEvent.DOM_DELTA_LINE / DOM_DELTA_PAGE
+const DOM_DELTA_LINE = 1;
+const DOM_DELTA_PAGE = 2;
+
+/** ホイールの deltaY を px にそろえ、入力補正の倍率を掛ける */
+export const normalizeWheelDelta = (
+  e: Pick<WheelEvent, 'deltaY' | 'deltaMode'>,
+  lineHeightPx: number,
+  pageHeightPx: number,
+  scale = 1
+): number => {
+  if (e.deltaMode === DOM_DELTA_LINE) return e.deltaY * lineHeightPx * scale;
+  if (e.deltaMode === DOM_DELTA_PAGE) return e.deltaY * pageHeightPx * scale;
+  return e.deltaY * scale;
+};
+
+// ===== Keyboard =====
+
+// ブラウザの矢印キーのスクロール量に合わせて 3 行分
+const KEY_LINES = 3;
+
+// 下方向が正。Shift+Space はブラウザと同じく上へ
+const KEY_DIRECTIONS: Record<string, { unit: 'line' | 'page'; sign: 1 | -1 }> = {
+  ArrowDown: { unit: 'line', sign: 1 },
+  ArrowUp: { unit: 'line', sign: -1 },
+  PageDown: { unit: 'page', sign: 1 },
+  PageUp: { unit: 'page', sign: -1 },
+  ' ': { unit: 'page', sign: 1 },
+};
+
+/** キー入力をスクロール量 (px) にする。ゲームの入力でないキーは null */
+export const keyboardDelta = (
+  e: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>,
+  lineHeightPx: number,
+  pageHeightPx: number
+): number | null => {
+  if (e.altKey || e.ctrlKey || e.metaKey) return null;
+  const direction = KEY_DIRECTIONS[e.key];
+  if (!direction) return null;
+  const sign = e.key === ' ' && e.shiftKey ? -1 : direction.sign;
+  return sign * (direction.unit === 'line' ? lineHeightPx * KEY_LINES : pageHeightPx);
+};
+
+// ===== Gamepad =====
+
+// Standard Gamepad のボタン・軸の番号
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+const LEFT_STICK_Y = 1;
+
+const STICK_DEADZONE = 0.15;
+// スティック・トリガーを倒しきったときのスクロール速度
+const GAMEPAD_MAX_PX_PER_SEC = 1500;
+
+/**
+ * ゲームパッドの状態を、経過時間ぶんのスクロール量 (px) にする。
+ * 右トリガー・スティック下で下へ、左トリガー・スティック上で上へ。
+ * リプレイに記録されるので小数第 2 位で丸める
+ */
+export const gamepadDelta = (pad: Pick<Gamepad, 'axes' | 'buttons'>, elapsedMs: number): number => {
+  const trigger = (pad.buttons[RIGHT_TRIGGER]?.value ?? 0) - (pad.buttons[LEFT_TRIGGER]?.value ?? 0);
+  const stickY = pad.axes[LEFT_STICK_Y] ?? 0;
+  // デッドゾーンの外側を 0〜1 に詰め直す
+  const stickMagnitude = Math.max(0, Math.abs(stickY) - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+  const stick = Math.sign(stickY) * stickMagnitude;
+  const amount = Math.max(-1, Math.min(1, trigger + stick));
+  return Math.round(amount * GAMEPAD_MAX_PX_PER_SEC * (elapsedMs / 1000) * 100) / 100;
+};
+
+// 測り間違い（ほとんど動かしていない等）で極端な倍率にならないよう、この範囲だけ受け付ける
+const MIN_INPUT_SCALE = 0.05;
+const MAX_INPUT_SCALE = 20;
+
+/**
+ * 実際に動かした距離 (cm) と、その間に届いたスクロール量 (px) から補正倍率を求める。
+ * 補正後のスクロール量を画面の px/cm で割ると、指の移動量に一致する
+ */
+export const measureInputScale = (travelCm: number, scrolledPx: number, pxPerCm: number): number | null => {
+  if (!(travelCm > 0) || !(pxPerCm > 0) || !(Math.abs(scrolledPx) > 0)) return null;
+  const scale = (travelCm * pxPerCm) / Math.abs(scrolledPx);
+  return scale >= MIN_INPUT_SCALE && scale <= MAX_INPUT_SCALE ? scale : null;
+};
+
+export const emptyInput = (): SimulationInput => ({ impulse: 0, directDelta: 0 });
+
+/**
+ * 正規化済みの入力量 (px) をシミュレーション入力に積算する。
+ * INERTIA: 速度へのインパルス / DIRECT: 1:1 の移動量
+ */
+export const accumulateInput = (
+  input: SimulationInput,
+  source: InputSource,
+  delta: number,
+  inertiaEnabled: boolean
+): SimulationInput => {
+  if (inertiaEnabled) {
+    return { ...input, impulse: input.impulse + delta * SCROLL_MULTIPLIER * INERTIA_INPUT_SCALE[source] };
+  }
+  return { ...input, directDelta: input.directDelta + delta };
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { InputSource } from './input';
+import {
+  createIntegrityTracker,
+  integrityOf,
+  IntegrityTracker,
+  isRunIntegrity,
+  observeInput,
+  observeState,
+  resetIntegrityTracker,
+} from './integrity';
+import { createInitialState } from './simulation';
+
+// integrity.ts の閾値: 同じ量の入力 30 回・間隔のぶれ 1.5ms 未満、5 秒間の平均 15 m/s 超
+const CADENCE_WINDOW = 30;
+
+/** intervals の間隔で同じ量の入力を送る */
+const feed = (tracker: IntegrityTracker, intervals: number[], source: InputSource = 'wheel', delta = 100): void => {
+  let timeMs = 1000;
+  observeInput(tracker, { source, delta, trusted: true, timeMs });
+  intervals.forEach((interval) => {
+    timeMs += interval;
+    observeInput(tracker, { source, delta, trusted: true, timeMs });
+  });
+};
+
+/** 16ms ± jitter を交互に繰り返す間隔（標準偏差がほぼ jitter になる） */
+const alternating = (count: number, jitter: number): number[] =>
+  Array.from({ length: count }, (_, i) => (i % 2 === 0 ? 16 + jitter : 16 - jitter));
+
+/** speedMps で進み続けたランを stepMs ごとに durationMs まで観測する */
+const cruise = (tracker: IntegrityTracker, speedMps: number, durationMs: number, stepMs = 100): void => {
+  for (let runTime = 0; runTime <= durationMs; runTime += stepMs) {
+    observeState(tracker, { ...createInitialState(), running: true, runTime, totalDistance: (speedMps * runTime) / 1000 });
+  }
+};
+
+describe('untrusted input', () => {
+  it('flags a single synthetic event', () => {
+    const tracker = createIntegrityTracker();
+    observeInput(tracker, { source: 'keyboard', delta: 40, trusted: true, timeMs: 0 });
+    expect(integrityOf(tracker)).toEqual({ verdict: 'verified', flags: [] });
+    observeInput(tracker, { source: 'keyboard', delta: 40, trusted: false, timeMs: 10 });
+    expect(integrityOf(tracker)).toEqual({ verdict: 'suspicious', flags: ['untrusted'] });
+  });
+});
+
+describe('cadence', () => {
+  it('flags identical scrolls at a fixed interval once the window is full', () => {
+    const tracker = createIntegrityTracker();
+    feed(tracker, Array.from({ length: CADENCE_WINDOW - 2 }, () => 16));
+    expect(integrityOf(tracker).flags).toEqual([]);
+    observeInput(tracker, { source: 'wheel', delta: 100, trusted: true, timeMs: 1000 + 16 * (CADENCE_WINDOW - 1) });
+    expect(integrityOf(tracker).flags).toEqual(['cadence']);
+  });
+
+  it('flags jitter just under 1.5 ms but not just over it', () => {
+    const steady = createIntegrityTracker();
+    feed(steady, alternating(CADENCE_WINDOW - 1, 1.4));
+    expect(integrityOf(steady).flags).toEqual(['cadence']);
+
+    const human = createIntegrityTracker();
+    feed(human, alternating(CADENCE_WINDOW - 1, 1.6));
+    expect(integrityOf(human).flags).toEqual([]);
+  });
+
+  it('ignores scrolls of different amounts', () => {
+    const tracker = createIntegrityTracker();
+    let timeMs = 0;
+    for (let i = 0; i < CADENCE_WINDOW * 2; i++) {
+      timeMs += 16;
+      observeInput(tracker, { source: 'touch', delta: 100 + (i % 3), trusted: true, timeMs });
+    }
+    expect(integrityOf(tracker).flags).toEqual([]);
+  });
+
+  it('ignores key repeat and gamepad polling', () => {
+    (['keyboard', 'gamepad'] as InputSource[]).forEach((source) => {
+      const tracker = createIntegrityTracker();
+      feed(tracker, Array.from({ length: CADENCE_WINDOW * 2 }, () => 16), source);
+      expect(integrityOf(tracker).flags).toEqual([]);
+    });
+  });
+});
+
+describe('sustained speed', () => {
+  it('does not flag exactly 15 m/s for 5 seconds', () => {
+    const tracker = createIntegrityTracker();
+    cruise(tracker, 15, 5000);
+    expect(integrityOf(tracker).flags).toEqual([]);
+  });
+
+  it('flags anything faster held for 5 seconds', () => {
+    const tracker = createIntegrityTracker();
+    cruise(tracker, 15.1, 5000);
+    expect(integrityOf(tracker).flags).toEqual(['sustainedSpeed']);
+  });
+
+  it('does not flag a short burst', () => {
+    const tracker = createIntegrityTracker();
+    cruise(tracker, 100, 4900);
+    expect(integrityOf(tracker).flags).toEqual([]);
+  });
+
+  it('averages over the latest 5 seconds, not the whole run', () => {
+    const tracker = createIntegrityTracker();
+    // 10 秒ゆっくり (2 m/s) 進んでから 16 m/s に上げる（ラン全体の平均は 6.7 m/s）
+    for (let runTime = 0; runTime <= 15_000; runTime += 100) {
+      const totalDistance = runTime <= 10_000 ? runTime * 0.002 : 20 + (runTime - 10_000) * 0.016;
+      observeState(tracker, { ...createInitialState(), running: true, runTime, totalDistance });
+    }
+    expect(integrityOf(tracker).flags).toEqual(['sustainedSpeed']);
+  });
+});
+
+describe('integrityOf', () => {
+  it('lists flags in a fixed order and starts over after a reset', () => {
+    const tracker = createIntegrityTracker();
+    cruise(tracker, 20, 5000);
+    observeInput(tracker, { source: 'wheel', delta: 1, trusted: false, timeMs: 0 });
+    const integrity = integrityOf(tracker);
+    expect(integrity).toEqual({ verdict: 'suspicious', flags: ['untrusted', 'sustainedSpeed'] });
+    expect(isRunIntegrity(integrity)).toBe(true);
+
+    resetIntegrityTracker(tracker);
+    expect(integrityOf(tracker)).toEqual({ verdict: 'verified', flags: [] });
+  });
+
+  it('rejects stored verdicts that disagree with their flags', () => {
+    expect(isRunIntegrity({ verdict: 'verified', flags: ['cadence'] })).toBe(false);
+    expect(isRunIntegrity({ verdict: 'suspicious', flags: [] })).toBe(false);
+    expect(isRunIntegrity({ verdict: 'suspicious', flags: ['autoclicker'] })).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { IntegrityFlag, RunIntegrity, SimulationState } from '../types';
+import { InputSource } from './input';
+
+// 合成イベントや自動スクロールのツールで出した記録を見分けるためのチェック。
+// 記録を弾くのではなく、ランに「検証済み / 疑わしい」の印を付けるだけ
+
+export const INTEGRITY_FLAGS: IntegrityFlag[] = ['untrusted', 'cadence', 'sustainedSpeed'];
+
+export interface InputObservation {
+  source: InputSource;
+  delta: number; // px（補正後）
+  trusted: boolean; // Event.isTrusted（スクリプトから dispatch したイベントは false）
+  timeMs: number; // Event.timeStamp
+}
+
+// 同じ量のスクロールがこの回数続き、間隔のぶれがこれより小さければ機械的な入力とみなす
+const CADENCE_WINDOW = 30;
+const CADENCE_MAX_JITTER_MS = 1.5;
+// キーリピートとゲームパッドのポーリングは間隔が一定なのが普通なので見ない
+const CADENCE_SOURCES: InputSource[] = ['wheel', 'touch'];
+
+// この時間の平均速度が上限を超え続けたら人の操作ではない
+// （矢印キー・PageDown の押しっぱなしでも 10 m/s 前後に収まる）
+const SUSTAINED_WINDOW_MS = 5000;
+const MAX_SUSTAINED_SPEED_MPS = 15;
+
+export interface IntegrityTracker {
+  flags: Set<IntegrityFlag>;
+  recent: { timeMs: number; delta: number }[]; // 直近のホイール・タッチ入力
+  checkpoints: { runTime: number; totalDistance: number }[]; // 直近 SUSTAINED_WINDOW_MS 分の移動距離
+}
+
+export const createIntegrityTracker = (): IntegrityTracker => ({ flags: new Set(), recent: [], checkpoints: [] });
+
+/** ランが終わったら次のランのために空にする（破壊的に更新） */
+export const resetIntegrityTracker = (tracker: IntegrityTracker): void => {
+  tracker.flags.clear();
+  tracker.recent.length = 0;
+  tracker.checkpoints.length = 0;
+};
+
+const isMetronomic = (events: IntegrityTracker['recent']): boolean => {
+  if (events.length < CADENCE_WINDOW) return false;
+  if (!events.every((event) => event.delta === events[0].delta)) return false;
+  const intervals = events.slice(1).map((event, i) => event.timeMs - events[i].timeMs);
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+  const variance = intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / intervals.length;
+  return Math.sqrt(variance) < CADENCE_MAX_JITTER_MS;
+};
+
+/** 入力イベントを1つ記録する（破壊的に更新） */
+export const observeInput = (tracker: IntegrityTracker, observation: InputObservation): void => {
+  if (!observation.trusted) tracker.flags.add('untrusted');
+  if (!CADENCE_SOURCES.includes(observation.source)) return;
+
+  tracker.recent.push({ timeMs: observation.timeMs, delta: observation.delta });
+  if (tracker.recent.length > CADENCE_WINDOW) tracker.recent.shift();
+  if (isMetronomic(tracker.recent)) tracker.flags.add('cadence');
+};
+
+/**
+ * ラン中のシミュレーション状態を記録する（破壊的に更新）。
+ * 瞬間の maxSpeed は PageDown 1回でも跳ね上がるので、累計距離から一定時間の平均速度を見る
+ */
+export const observeState = (tracker: IntegrityTracker, state: SimulationState): void => {
+  const { checkpoints } = tracker;
+  checkpoints.push({ runTime: state.runTime, totalDistance: state.totalDistance });
+  // 窓の始点より古いものは、始点をまたぐ1つだけ残す
+  while (checkpoints.length > 1 && checkpoints[1].runTime <= state.runTime - SUSTAINED_WINDOW_MS) {
+    checkpoints.shift();
+  }
+
+  const oldest = checkpoints[0];
+  const elapsedMs = state.runTime - oldest.runTime;
+  if (elapsedMs < SUSTAINED_WINDOW_MS) return;
+  const averageMps = (state.totalDistance - oldest.totalDistance) / (elapsedMs / 1000);
+  if (averageMps > MAX_SUSTAINED_SPEED_MPS) tracker.flags.add('sustainedSpeed');
+};
+
+export const integrityOf = (tracker: IntegrityTracker): RunIntegrity => ({
+  verdict: tracker.flags.size > 0 ? 'suspicious' : 'verified',
+  flags: INTEGRITY_FLAGS.filter((flag) => tracker.flags.has(flag)),
+});
+
+export const isRunIntegrity = (value: unknown): value is RunIntegrity => {
+  if (!value || typeof value !== 'object') return false;
+  const integrity = value as Partial<RunIntegrity>;
+  return (
+    (integrity.verdict === 'verified' || integrity.verdict === 'suspicious') &&
+    Array.isArray(integrity.flags) &&
+    integrity.flags.every((flag) => INTEGRITY_FLAGS.includes(flag)) &&
+    (integrity.verdict === 'suspicious') === (integrity.flags.length > 0)
+  );
+};
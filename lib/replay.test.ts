@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { ResistanceType, SimulationState } from '../types';
+import { accumulateInput, emptyInput, InputSource } from './input';
+import {
+  advancePlayback,
+  createPlayback,
+  finishRecording,
+  parseReplay,
+  Playback,
+  recordInputs,
+  ReplayData,
+  ReplayRecorder,
+  serializeReplay,
+  startRecording,
+} from './replay';
+import { advance, createInitialState, SimulationOptions } from './simulation';
+
+const DURATION_MS = 4000;
+
+const OPTIONS: SimulationOptions = {
+  inertiaEnabled: true,
+  pxToCm: 1 / 38,
+  milestonesCm: [10, 20, 50],
+  resistance: ResistanceType.GLITCH,
+  seed: 12345,
+};
+
+interface InputEvent {
+  t: number; // ms
+  source: InputSource;
+  delta: number; // px
+}
+
+const EVENTS: InputEvent[] = [
+  { t: 10, source: 'wheel', delta: 400 },
+  { t: 12, source: 'touch', delta: 300 },
+  { t: 300, source: 'wheel', delta: 500 },
+  { t: 900, source: 'keyboard', delta: 120 },
+  { t: 1500, source: 'gamepad', delta: 600 },
+  { t: 2400, source: 'wheel', delta: 800 },
+  { t: 3100, source: 'touch', delta: 700 },
+];
+
+/** App のループと同じ手順で、hz ごとのフレームで遊びながら入力を記録する */
+const recordRun = (hz: number, options: SimulationOptions): { state: SimulationState; replay: ReplayData } => {
+  let state = createInitialState();
+  let accumulatorMs = 0;
+  let tick = 0;
+  let pending = emptyInput();
+  let rawInputs: { source: InputSource; delta: number }[] = [];
+  let recorder: ReplayRecorder | null = null;
+  let prevT = 0;
+  for (let i = 1; i <= Math.round((DURATION_MS * hz) / 1000); i++) {
+    const t = (i * 1000) / hz;
+    EVENTS.filter((event) => event.t > prevT && event.t <= t).forEach((event) => {
+      pending = accumulateInput(pending, event.source, event.delta, options.inertiaEnabled);
+      rawInputs.push({ source: event.source, delta: event.delta });
+    });
+    const result = advance(state, accumulatorMs, pending, t - prevT, options);
+    accumulatorMs = result.accumulatorMs;
+    prevT = t;
+    if (result.steps === 0) continue;
+
+    const inputTick = tick;
+    tick += result.steps;
+    if (!recorder && !state.running && rawInputs.length > 0) recorder = startRecording(state, options, inputTick);
+    if (recorder && rawInputs.length > 0) recordInputs(recorder, inputTick, rawInputs);
+    pending = emptyInput();
+    rawInputs = [];
+    state = result.state;
+  }
+  if (!recorder) throw new Error('nothing was recorded');
+  return { state, replay: finishRecording(recorder, tick) };
+};
+
+const playToEnd = (replay: ReplayData, hz: number): Playback => {
+  let playback = createPlayback(replay);
+  while (!playback.finished) playback = advancePlayback(playback, 1000 / hz);
+  return playback;
+};
+
+describe('replay', () => {
+  it.each([30, 60, 144])('reproduces the recorded run when played at %s Hz', (hz) => {
+    const { state, replay } = recordRun(144, OPTIONS);
+    expect(state.running).toBe(true);
+    expect(state.splits.length).toBeGreaterThan(0);
+    expect(replay.events.map((event) => event.source)).toEqual(EVENTS.map((event) => event.source));
+
+    const playback = playToEnd(replay, hz);
+    expect(playback.tick).toBe(replay.durationTicks);
+    expect(playback.state).toEqual(state);
+  });
+
+  it('reproduces the run without inertia', () => {
+    const options = { ...OPTIONS, inertiaEnabled: false, resistance: ResistanceType.STATIC };
+    const { state, replay } = recordRun(60, options);
+    expect(playToEnd(replay, 60).state).toEqual(state);
+  });
+
+  it('reproduces the run after a round trip through the file', () => {
+    const { state, replay } = recordRun(60, OPTIONS);
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed.events).toEqual(replay.events);
+    expect(playToEnd(parsed, 60).state).toEqual(state);
+  });
+
+  it('stops when the replayed run lands', () => {
+    const { replay } = recordRun(60, { ...OPTIONS, resistance: ResistanceType.STATIC });
+    const short = { ...replay, events: replay.events.slice(0, 1), durationTicks: replay.durationTicks + 10_000 };
+    const playback = playToEnd(short, 60);
+    expect(playback.tick).toBeLessThan(short.durationTicks);
+    expect(playback.state.running).toBe(false);
+  });
+
+  it('rejects a file with broken events', () => {
+    const { replay } = recordRun(60, OPTIONS);
+    const text = serializeReplay(replay).replace(/"events":"[^"]*"/, '"events":"0X5"');
+    expect(() => parseReplay(text)).toThrow(expect.objectContaining({ kind: 'invalid' }));
+  });
+});
@@ -0,0 +1,211 @@
+import { ResistanceType, SimulationState } from '../types';
+import { accumulateInput, emptyInput, InputSource } from './input';
+import { createInitialState, FIXED_STEP_MS, SimulationOptions, step } from './simulation';
+import { DataError } from './dataError';
+
+// 1イベント = 固定ステップ tick で適用された正規化済みの入力量 (px)
+// 時刻は tick * FIXED_STEP_MS (ms, 記録開始から)
+export interface ReplayEvent {
+  tick: number;
+  source: InputSource;
+  delta: number;
+}
+
+export interface ReplayData {
+  version: number;
+  recordedAt: number; // epoch ms
+  options: SimulationOptions;
+  initialState: SimulationState;
+  events: ReplayEvent[]; // tick 昇順
+  durationTicks: number;
+}
+
+export const REPLAY_VERSION = 1;
+const REPLAY_FORMAT = 'immovable-replay';
+
+const SOURCE_CODES: Record<InputSource, string> = { wheel: 'W', touch: 'T', keyboard: 'K', gamepad: 'G' };
+const CODE_SOURCES: Record<string, InputSource> = { W: 'wheel', T: 'touch', K: 'keyboard', G: 'gamepad' };
+
+// ===== Recording =====
+
+export interface ReplayRecorder {
+  startTick: number;
+  options: SimulationOptions;
+  initialState: SimulationState;
+  events: ReplayEvent[];
+}
+
+export const startRecording = (
+  initialState: SimulationState,
+  options: SimulationOptions,
+  startTick: number
+): ReplayRecorder => ({ startTick, options, initialState, events: [] });
+
+export const recordInputs = (
+  recorder: ReplayRecorder,
+  tick: number,
+  inputs: { source: InputSource; delta: number }[]
+): void => {
+  inputs.forEach(({ source, delta }) => {
+    recorder.events.push({ tick: tick - recorder.startTick, source, delta });
+  });
+};
+
+export const finishRecording = (recorder: ReplayRecorder, endTick: number): ReplayData => ({
+  version: REPLAY_VERSION,
+  recordedAt: Date.now(),
+  options: recorder.options,
+  initialState: recorder.initialState,
+  events: recorder.events,
+  durationTicks: endTick - recorder.startTick,
+});
+
+// ===== Playback =====
+
+export interface Playback {
+  replay: ReplayData;
+  state: SimulationState;
+  tick: number;
+  eventIndex: number;
+  accumulatorMs: number;
+  finished: boolean;
+}
+
+export const createPlayback = (replay: ReplayData): Playback => ({
+  replay,
+  state: replay.initialState,
+  tick: 0,
+  eventIndex: 0,
+  accumulatorMs: 0,
+  finished: replay.durationTicks <= 0,
+});
+
+/**
+ * 記録時と同じ固定ステップで再生を進める。
+ * 同じ ReplayData からは常に同じ状態列が得られる。
+ */
+export const advancePlayback = (playback: Playback, elapsedMs: number): Playback => {
+  if (playback.finished) return playback;
+
+  const { replay } = playback;
+  let { state, tick, eventIndex } = playback;
+  let acc = playback.accumulatorMs + Math.max(0, elapsedMs);
+  let finished = false;
+
+  while (acc >= FIXED_STEP_MS && !finished) {
+    let input = emptyInput();
+    while (eventIndex < replay.events.length && replay.events[eventIndex].tick === tick) {
+      const event = replay.events[eventIndex];
+      input = accumulateInput(input, event.source, event.delta, replay.options.inertiaEnabled);
+      eventIndex += 1;
+    }
+
+    const before = state;
+    state = step(state, input, FIXED_STEP_MS, replay.options);
+    tick += 1;
+    acc -= FIXED_STEP_MS;
+    finished = tick >= replay.durationTicks || (before.running && !state.running);
+  }
+
+  return { replay, state, tick, eventIndex, accumulatorMs: acc, finished };
+};
+
+// ===== Export / Import =====
+
+const encodeEvents = (events: ReplayEvent[]): string => {
+  let lastTick = 0;
+  return events
+    .map((event) => {
+      const gap = event.tick - lastTick;
+      lastTick = event.tick;
+      return `${gap.toString(36)}${SOURCE_CODES[event.source]}${event.delta}`;
+    })
+    .join(' ');
+};
+
+const decodeEvents = (encoded: string): ReplayEvent[] => {
+  if (encoded.trim() === '') return [];
+  let tick = 0;
+  return encoded.trim().split(/\s+/).map((token) => {
+    const match = /^([0-9a-z]+)([A-Z])(.+)$/.exec(token);
+    const source = match ? CODE_SOURCES[match[2]] : undefined;
+    const delta = match ? Number(match[3]) : NaN;
+    if (!match || !source || !Number.isFinite(delta)) {
+      throw new DataError('invalid', `Invalid replay event: "${token}"`);
+    }
+    tick += parseInt(match[1], 36);
+    return { tick, source, delta };
+  });
+};
+
+export const serializeReplay = (replay: ReplayData): string =>
+  JSON.stringify({
+    format: REPLAY_FORMAT,
+    version: replay.version,
+    recordedAt: replay.recordedAt,
+    options: replay.options,
+    initialState: replay.initialState,
+    durationTicks: replay.durationTicks,
+    events: encodeEvents(replay.events),
+  });
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const validateState = (value: unknown): SimulationState => {
+  if (!value || typeof value !== 'object') throw new DataError('invalid', 'Replay is missing its initial state');
+  const template = createInitialState();
+  const state = value as Record<string, unknown>;
+  (Object.keys(template) as (keyof SimulationState)[]).forEach((key) => {
+    const expected = template[key];
+    const actual = state[key];
+    // 後から追加されたフィールドは、古いリプレイでは既定値で補う
+    if (actual === undefined) return;
+    const ok = Array.isArray(expected) ? Array.isArray(actual) : typeof actual === typeof expected;
+    if (!ok || (typeof actual === 'number' && !Number.isFinite(actual))) {
+      throw new DataError('invalid', `Replay initial state has an invalid "${key}"`);
+    }
+  });
+  return { ...template, ...(state as Partial<SimulationState>) };
+};
+
+export const parseReplay = (text: string): ReplayData => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new DataError('invalidJson', 'Replay file is not valid JSON');
+  }
+  if (!raw || raw.format !== REPLAY_FORMAT) throw new DataError('wrongFormat', 'Not a replay file');
+  if (raw.version !== REPLAY_VERSION) throw new DataError('unsupportedVersion', `Unsupported replay version: ${String(raw.version)}`);
+
+  const options = raw.options as Partial<SimulationOptions> | undefined;
+  if (
+    !options ||
+    typeof options.inertiaEnabled !== 'boolean' ||
+    !isFiniteNumber(options.pxToCm) ||
+    options.pxToCm <= 0 ||
+    !Array.isArray(options.milestonesCm) ||
+    !options.milestonesCm.every(isFiniteNumber) ||
+    !Object.values(ResistanceType).includes(options.resistance as ResistanceType) ||
+    (options.gravityMultiplier !== undefined && !(isFiniteNumber(options.gravityMultiplier) && options.gravityMultiplier >= 0)) ||
+    (options.gravityRampPerSec !== undefined && !(isFiniteNumber(options.gravityRampPerSec) && options.gravityRampPerSec >= 0)) ||
+    (options.idleDelayMs !== undefined && !(isFiniteNumber(options.idleDelayMs) && options.idleDelayMs >= 0)) ||
+    (options.seed !== undefined && !isFiniteNumber(options.seed))
+  ) {
+    throw new DataError('invalid', 'Replay options are invalid');
+  }
+  if (!isFiniteNumber(raw.durationTicks) || raw.durationTicks < 0) {
+    throw new DataError('invalid', 'Replay duration is invalid');
+  }
+  if (typeof raw.events !== 'string') throw new DataError('invalid', 'Replay events are missing');
+
+  return {
+    version: REPLAY_VERSION,
+    recordedAt: isFiniteNumber(raw.recordedAt) ? raw.recordedAt : 0,
+    options: options as SimulationOptions,
+    initialState: validateState(raw.initialState),
+    events: decodeEvents(raw.events),
+    durationTicks: raw.durationTicks,
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Achievement, rarestAchievement } from '../data/achievements';
+import { cardTitleFor, encodeResultHash, MAX_CARD_SPLITS, parseResultHash, sharedResultOf } from './resultCard';
+import { runOf } from './testFixtures';
+
+const run = runOf('run-1', 80_000, {
+  runTime: 90_000,
+  // 記録は深い方から並んでいる
+  splits: [70_000, 50_000, 30_000, 20_000, 10_000, 5_000, 1_000].map((distanceCm) => ({
+    distanceCm,
+    timeMs: distanceCm,
+  })),
+});
+
+const achievement = (key: string, tier: Achievement['tier'], meters: number): Achievement => ({
+  key,
+  condition: { type: 'depth', meters },
+  tier,
+  category: 'depth',
+  label: key,
+  requirement: key,
+});
+
+describe('cardTitleFor', () => {
+  const shallow = achievement('shallow', 'bronze', 100);
+  const deep = achievement('deep', 'silver', 700);
+  const deeper = achievement('deeper', 'silver', 900);
+  const rare = achievement('rare', 'gold', 300);
+
+  it('shows the rarest title earned in the run', () => {
+    expect(cardTitleFor(run, [shallow, rare, deep], [])).toBe(rare);
+  });
+
+  it('breaks a tie the same way as the unlock overlay', () => {
+    const earned = [deep, deeper];
+    expect(cardTitleFor(run, earned, [])).toBe(deeper);
+    expect(cardTitleFor(run, earned, [])).toBe(rarestAchievement(earned));
+  });
+
+  it('falls back to the deepest depth title the run reached', () => {
+    expect(cardTitleFor(run, [], [shallow, deeper, deep, rare])).toBe(deep);
+    expect(cardTitleFor({ ...run, maxDepthCm: 50 }, [], [shallow])).toBeNull();
+  });
+});
+
+describe('sharedResultOf', () => {
+  it('keeps the deepest splits', () => {
+    const result = sharedResultOf(run, null, 'ja');
+    expect(result.splits.map((split) => split.distanceCm)).toEqual([70_000, 50_000, 30_000, 20_000, 10_000]);
+    expect(result.splits).toHaveLength(MAX_CARD_SPLITS);
+  });
+});
+
+describe('result links', () => {
+  it('round-trips through the hash', () => {
+    const result = { ...sharedResultOf(run, null, 'ja'), title: { label: '深淵', tier: 'gold' as const } };
+    expect(parseResultHash(encodeResultHash(result))).toEqual(result);
+  });
+
+  it('ignores other hashes', () => {
+    expect(parseResultHash('#settings')).toBeNull();
+  });
+
+  it('rejects a truncated link', () => {
+    expect(() => parseResultHash(encodeResultHash(sharedResultOf(run, null, 'ja')).slice(0, -3))).toThrow();
+  });
+});
@@ -0,0 +1,228 @@
+import { Achievement, ACHIEVEMENT_TIERS, AchievementTier, depthAchievementMeters, rarestAchievement } from '../data/achievements';
+import { Locale, RunRecord, SplitRecord } from '../types';
+import { fromBase64Url, toBase64Url } from './base64url';
+import { fnv1a } from './checksum';
+import { DataError } from './dataError';
+import { localized } from './i18n';
+import { canvasToPng, createCanvas, detailsHeight, drawDetails, fitFont, FONT, ResultImageDetails } from './resultImage';
+import { runModeKey } from './runHistory';
+
+// 結果カード: ランの結果を PNG にしたり、URL のハッシュに入れて他の人に送ったりする
+
+export interface SharedResult {
+  maxDepthCm: number;
+  runTimeMs: number;
+  mode: string; // runModeKey
+  splits: SplitRecord[]; // 深い方から MAX_CARD_SPLITS 件まで
+  title: { label: string; tier: AchievementTier } | null; // 送った人の言語のまま
+  finishedAt: number; // epoch ms
+}
+
+export const MAX_CARD_SPLITS = 5;
+const HASH_KEY = 'result';
+const LINK_VERSION = 1;
+const MAX_TEXT_LENGTH = 100;
+
+/**
+ * カードに載せる称号。このランで解放した中で一番レアなもの、
+ * なければこのランで届いた一番深い深度の称号
+ */
+export const cardTitleFor = (run: RunRecord, earned: Achievement[], achievements: Achievement[]): Achievement | null => {
+  if (earned.length > 0) return rarestAchievement(earned);
+  return achievements.reduce<Achievement | null>((deepest, achievement) => {
+    const meters = depthAchievementMeters(achievement);
+    if (meters === null || meters * 100 > run.maxDepthCm) return deepest;
+    return !deepest || meters > (depthAchievementMeters(deepest) ?? 0) ? achievement : deepest;
+  }, null);
+};
+
+export const sharedResultOf = (run: RunRecord, title: Achievement | null, locale: Locale): SharedResult => ({
+  maxDepthCm: run.maxDepthCm,
+  runTimeMs: run.runTime,
+  mode: runModeKey(run),
+  splits: run.splits.slice(0, MAX_CARD_SPLITS), // 深い方から保存されている
+  title: title && { label: localized(title, title.translations, locale).label, tier: title.tier },
+  finishedAt: run.finishedAt,
+});
+
+// ===== Deep link (#result=...) =====
+
+// キーを短くして URL を短く保つ
+interface LinkBody {
+  v: number;
+  d: number;
+  t: number;
+  m: string;
+  s: [number, number][];
+  ti: [string, AchievementTier] | null;
+  at: number;
+}
+
+export const encodeResultHash = (result: SharedResult): string => {
+  const body: LinkBody = {
+    v: LINK_VERSION,
+    d: Math.round(result.maxDepthCm * 100) / 100,
+    t: Math.round(result.runTimeMs),
+    m: result.mode,
+    s: result.splits.map((split) => [split.distanceCm, Math.round(split.timeMs)]),
+    ti: result.title && [result.title.label, result.title.tier],
+    at: result.finishedAt,
+  };
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(body)));
+  return `#${HASH_KEY}=${payload}.${fnv1a(payload)}`;
+};
+
+/** 今のページの URL に結果を付けた共有リンク */
+export const resultLink = (result: SharedResult, location: Location): string =>
+  `${location.origin}${location.pathname}${location.search}${encodeResultHash(result)}`;
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isShortText = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_TEXT_LENGTH;
+
+/**
+ * URL のハッシュから結果を読む。結果のリンクでなければ null。
+ * 他人が作った URL なので、形が崩れていたら Error を投げる
+ */
+export const parseResultHash = (hash: string): SharedResult | null => {
+  const prefix = `#${HASH_KEY}=`;
+  if (!hash.startsWith(prefix)) return null;
+  const [payload, checksum, ...rest] = hash.slice(prefix.length).split('.');
+  if (!payload || rest.length > 0 || checksum !== fnv1a(payload)) {
+    throw new DataError('checksum', 'Result link checksum does not match (truncated link?)');
+  }
+
+  let body: Partial<LinkBody>;
+  try {
+    body = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  } catch {
+    throw new DataError('damaged', 'Result link is not valid');
+  }
+  if (!body || typeof body !== 'object' || body.v !== LINK_VERSION) throw new DataError('unsupportedVersion', 'Unsupported result link version');
+
+  const { d, t, m, s, ti, at } = body;
+  const splitsValid =
+    Array.isArray(s) &&
+    s.length <= MAX_CARD_SPLITS &&
+    s.every((split) => Array.isArray(split) && split.length === 2 && isCount(split[0]) && isCount(split[1]));
+  const titleValid =
+    ti === null || (Array.isArray(ti) && isShortText(ti[0]) && ACHIEVEMENT_TIERS.includes(ti[1]));
+  if (!isCount(d) || !isCount(t) || !isShortText(m) || !splitsValid || !titleValid || !isCount(at)) {
+    throw new DataError('invalid', 'Result link is missing fields');
+  }
+
+  return {
+    maxDepthCm: d,
+    runTimeMs: t,
+    mode: m,
+    splits: (s as [number, number][]).map(([distanceCm, timeMs]) => ({ distanceCm, timeMs })),
+    title: ti ? { label: ti[0], tier: ti[1] } : null,
+    finishedAt: at,
+  };
+};
+
+// ===== PNG =====
+
+// 称号の演出（TitleUnlockOverlay）と同じ色の組
+export interface CardTierStyle {
+  accent: string;
+  accentLight: string;
+  glow: string; // rgb triplet
+}
+
+// 表示用の文字列は言語・単位系に合わせて呼び出し側で作る
+export interface ResultCardContent {
+  siteName: string;
+  depth: string;
+  time: string;
+  mode: string;
+  splits: { distance: string; time: string }[];
+  title: { heading: string; label: string; style: CardTierStyle } | null;
+  details?: ResultImageDetails; // 自分のランの結果画面からは、カードの下に数値とグラフも載せる
+}
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630; // OGP 画像と同じ比率
+const PADDING = 64;
+const NEUTRAL_STYLE: CardTierStyle = { accent: '#ef4444', accentLight: '#fca5a5', glow: '239, 68, 68' };
+
+export const renderResultCard = (content: ResultCardContent): Promise<Blob> => {
+  const height = CARD_HEIGHT + (content.details ? detailsHeight(content.details) + PADDING : 0);
+  const ctx = createCanvas(CARD_WIDTH, height);
+  if (!ctx) return Promise.reject(new Error('Canvas 2D context is not available'));
+
+  const style = content.title?.style ?? NEUTRAL_STYLE;
+  const leftWidth = content.splits.length > 0 ? 680 : CARD_WIDTH - PADDING * 2;
+
+  // 背景: 称号の色でうっすら光らせる
+  const centerX = PADDING + leftWidth / 2;
+  const glow = ctx.createRadialGradient(centerX, CARD_HEIGHT / 2, 0, centerX, CARD_HEIGHT / 2, 520);
+  glow.addColorStop(0, `rgba(${style.glow}, 0.25)`);
+  glow.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  ctx.strokeStyle = `rgba(${style.glow}, 0.6)`;
+  ctx.lineWidth = 4;
+  ctx.strokeRect(16, 16, CARD_WIDTH - 32, CARD_HEIGHT - 32);
+
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#6b7280';
+  ctx.font = `bold 24px ${FONT}`;
+  ctx.fillText(content.siteName, PADDING, PADDING + 24);
+  ctx.fillText(content.mode, PADDING, CARD_HEIGHT - PADDING);
+
+  // 最大深度とタイム
+  ctx.fillStyle = '#ffffff';
+  fitFont(ctx, content.depth, '900', 120, leftWidth);
+  ctx.fillText(content.depth, PADDING, 260);
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `bold 40px ${FONT}`;
+  ctx.fillText(content.time, PADDING, 320);
+
+  // 称号: サブラベル + グラデーションの文字 + 飾り線
+  if (content.title) {
+    ctx.fillStyle = style.accent;
+    ctx.shadowColor = `rgba(${style.glow}, 0.5)`;
+    ctx.shadowBlur = 10;
+    ctx.font = `20px ${FONT}`;
+    ctx.fillText(content.title.heading, PADDING, 400);
+
+    fitFont(ctx, content.title.label, '900', 52, leftWidth);
+    const width = ctx.measureText(content.title.label).width;
+    const gradient = ctx.createLinearGradient(PADDING, 420, PADDING + width, 480);
+    gradient.addColorStop(0, style.accent);
+    gradient.addColorStop(0.4, '#FFFFFF');
+    gradient.addColorStop(0.6, style.accent);
+    gradient.addColorStop(1, style.accentLight);
+    ctx.fillStyle = gradient;
+    ctx.shadowBlur = 20;
+    ctx.fillText(content.title.label, PADDING, 466);
+    ctx.shadowBlur = 0;
+
+    const line = ctx.createLinearGradient(PADDING, 0, PADDING + width, 0);
+    line.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    line.addColorStop(0.5, style.accent);
+    line.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = line;
+    ctx.fillRect(PADDING, 486, width, 2);
+  }
+
+  // スプリット（右の列）
+  const splitsLeft = PADDING + leftWidth + 48;
+  content.splits.forEach((split, i) => {
+    const y = 200 + i * 64;
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = `24px ${FONT}`;
+    ctx.fillText(split.distance, splitsLeft, y);
+    ctx.textAlign = 'right';
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold 28px ${FONT}`;
+    ctx.fillText(split.time, CARD_WIDTH - PADDING, y);
+  });
+
+  if (content.details) drawDetails(ctx, content.details, PADDING, CARD_HEIGHT, CARD_WIDTH - PADDING * 2);
+
+  return canvasToPng(ctx.canvas);
+};
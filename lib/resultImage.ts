@@ -0,0 +1,129 @@
+import { ChartPoint, chartBounds, projectPoints, zeroLineY } from './chart';
+
+// 共有用の PNG を端末内の canvas だけで描くための共通部分。
+// 結果カード（resultCard.ts）がこれを使い、結果画面からはカードの下に数値とグラフ（詳細）を足す
+
+export const FONT = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+
+export interface ResultImageChart {
+  label: string;
+  series: { points: ChartPoint[]; color: string }[];
+  flipped?: boolean; // 深さのグラフは値が大きいほど下
+  maxLabel: string; // 縦軸の端の値
+  durationLabel: string; // 横軸の右端（ランの長さ）
+}
+
+export interface ResultImageDetails {
+  stats: { label: string; value: string }[];
+  charts: ResultImageChart[];
+}
+
+const STAT_ROW_HEIGHT = 72;
+const CHART_LABEL_HEIGHT = 40;
+const CHART_HEIGHT = 220;
+const CHART_GAP = 40;
+
+/** 黒で塗った canvas を用意する（2D が使えなければ null） */
+export const createCanvas = (width: number, height: number): CanvasRenderingContext2D | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  return ctx;
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png');
+  });
+
+/** 幅に収まるまで文字を小さくする */
+export const fitFont = (ctx: CanvasRenderingContext2D, text: string, weight: string, size: number, maxWidth: number): void => {
+  let fontSize = size;
+  ctx.font = `${weight} ${fontSize}px ${FONT}`;
+  while (fontSize > 16 && ctx.measureText(text).width > maxWidth) {
+    fontSize -= 2;
+    ctx.font = `${weight} ${fontSize}px ${FONT}`;
+  }
+};
+
+// ===== Details (stats + charts) =====
+
+export const detailsHeight = (details: ResultImageDetails): number =>
+  Math.ceil(details.stats.length / 2) * STAT_ROW_HEIGHT +
+  details.charts.length * (CHART_LABEL_HEIGHT + CHART_HEIGHT + CHART_GAP);
+
+const drawChart = (ctx: CanvasRenderingContext2D, chart: ResultImageChart, left: number, top: number, width: number): void => {
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `bold 22px ${FONT}`;
+  ctx.textAlign = 'left';
+  ctx.fillText(chart.label, left, top + 26);
+
+  const chartTop = top + CHART_LABEL_HEIGHT;
+  ctx.fillStyle = 'rgba(17, 24, 39, 1)';
+  ctx.fillRect(left, chartTop, width, CHART_HEIGHT);
+  ctx.strokeStyle = 'rgba(75, 85, 99, 0.8)';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(left, chartTop, width, CHART_HEIGHT);
+
+  const bounds = chartBounds(chart.series.map((series) => series.points));
+  if (bounds.minY < 0) {
+    const y = chartTop + zeroLineY(bounds, CHART_HEIGHT, chart.flipped);
+    ctx.strokeStyle = 'rgba(107, 114, 128, 0.6)';
+    ctx.setLineDash([6, 6]);
+    ctx.beginPath();
+    ctx.moveTo(left, y);
+    ctx.lineTo(left + width, y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  chart.series.forEach((series) => {
+    const points = projectPoints(series.points, bounds, width, CHART_HEIGHT, chart.flipped);
+    ctx.strokeStyle = series.color;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    points.forEach((point, i) => {
+      if (i === 0) ctx.moveTo(left + point.x, chartTop + point.y);
+      else ctx.lineTo(left + point.x, chartTop + point.y);
+    });
+    ctx.stroke();
+  });
+
+  ctx.fillStyle = '#6b7280';
+  ctx.font = `18px ${FONT}`;
+  ctx.fillText(chart.maxLabel, left + 8, chart.flipped ? chartTop + CHART_HEIGHT - 10 : chartTop + 24);
+  ctx.textAlign = 'right';
+  ctx.fillText(chart.durationLabel, left + width - 8, chartTop + CHART_HEIGHT + 24);
+};
+
+/** 数値を2列で並べ、その下にグラフを縦に並べる */
+export const drawDetails = (
+  ctx: CanvasRenderingContext2D,
+  details: ResultImageDetails,
+  left: number,
+  top: number,
+  width: number
+): void => {
+  const columnWidth = width / 2;
+  ctx.textAlign = 'left';
+  details.stats.forEach((stat, i) => {
+    const x = left + (i % 2) * columnWidth;
+    const y = top + Math.floor(i / 2) * STAT_ROW_HEIGHT;
+    ctx.fillStyle = '#6b7280';
+    ctx.font = `18px ${FONT}`;
+    ctx.fillText(stat.label, x, y + 20);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold 32px ${FONT}`;
+    ctx.fillText(stat.value, x, y + 56);
+  });
+
+  let chartTop = top + Math.ceil(details.stats.length / 2) * STAT_ROW_HEIGHT;
+  details.charts.forEach((chart) => {
+    drawChart(ctx, chart, left, chartTop, width);
+    chartTop += CHART_LABEL_HEIGHT + CHART_HEIGHT + CHART_GAP;
+  });
+};
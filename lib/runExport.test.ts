@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseRunsJson, serializeRunsJson, validateRun } from './runExport';
+import { recordOf, simulateFlick, simulateRun } from './testFixtures';
+
+describe('run export', () => {
+  it('re-imports a run produced by the simulation', () => {
+    const state = simulateRun();
+    expect(state.running).toBe(true);
+    expect(state.splits.length).toBeGreaterThanOrEqual(2);
+
+    const run = recordOf(state);
+    const parsed = parseRunsJson(serializeRunsJson([run], ['100']));
+    expect(parsed.runs).toEqual([run]);
+    expect(parsed.unlockedTitles).toEqual(['100']);
+  });
+
+  it('re-imports a short flick whose average speed exceeds its max speed', () => {
+    const run = recordOf(simulateFlick());
+    expect(run.aveSpeed).toBeGreaterThan(run.maxSpeed);
+    expect(parseRunsJson(serializeRunsJson([run], [])).runs).toEqual([run]);
+  });
+
+  it('accepts splits in either order', () => {
+    const run = recordOf(simulateRun());
+    expect(validateRun({ ...run, splits: [...run.splits].reverse() }, 0).splits).toHaveLength(run.splits.length);
+  });
+
+  it('rejects splits where a deeper point was reached earlier', () => {
+    const run = recordOf(simulateRun());
+    const [deepest, ...rest] = run.splits;
+    const broken = [{ ...deepest, timeMs: 0 }, ...rest];
+    expect(() => validateRun({ ...run, splits: broken }, 0)).toThrow('splits');
+  });
+
+  it('rejects the same depth twice', () => {
+    const run = recordOf(simulateRun());
+    expect(() => validateRun({ ...run, splits: [run.splits[0], run.splits[0]] }, 0)).toThrow('splits');
+  });
+
+  it('reports what kind of file problem it found', () => {
+    expect(() => parseRunsJson('{')).toThrow(expect.objectContaining({ kind: 'invalidJson' }));
+    expect(() => parseRunsJson('{"format":"immovable-splits"}')).toThrow(expect.objectContaining({ kind: 'wrongFormat' }));
+    expect(() => parseRunsJson('{"format":"immovable-runs","version":99}')).toThrow(
+      expect.objectContaining({ kind: 'unsupportedVersion' })
+    );
+  });
+
+  it('rejects a modified file', () => {
+    const text = serializeRunsJson([recordOf(simulateRun())], []);
+    expect(() => parseRunsJson(text.replace('"scrollCount": ', '"scrollCount": 1'))).toThrow(
+      expect.objectContaining({ kind: 'checksum' })
+    );
+  });
+});
@@ -0,0 +1,217 @@
+import { ResistanceType, RunIntegrity, RunRecord, RunSample, SplitRecord, TimedMode } from '../types';
+import { fnv1a } from './checksum';
+import { DataError } from './dataError';
+import { isRunIntegrity } from './integrity';
+import { isDateKey } from './daily';
+import { TIMED_MODES } from './timedModes';
+import { runModeKey } from './runHistory';
+
+// 表計算ソフトでの分析用にランを書き出す（JSON は再読込可能、CSV は書き出し専用）
+const RUN_EXPORT_FORMAT = 'immovable-runs';
+export const RUN_EXPORT_VERSION = 1;
+
+export interface RunExportFile {
+  format: typeof RUN_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number; // epoch ms
+  unlockedTitles: string[]; // 参考情報（読込時に称号は解放しない）
+  runs: RunRecord[];
+  checksum: string; // runs の FNV-1a。手で書き換えたファイルを弾く
+}
+
+export interface ParsedRunExport {
+  exportedAt: number;
+  unlockedTitles: string[];
+  runs: RunRecord[];
+}
+
+const checksumOf = (runs: RunRecord[]): string => fnv1a(JSON.stringify(runs));
+
+/** エクスポート用にランを正規化する（リプレイ本体は含めないので hasReplay は落とす） */
+export const toExportedRun = (run: RunRecord): RunRecord => ({
+  id: run.id,
+  finishedAt: run.finishedAt,
+  maxDepthCm: run.maxDepthCm,
+  runTime: run.runTime,
+  splits: run.splits,
+  aveSpeed: run.aveSpeed,
+  maxSpeed: run.maxSpeed,
+  totalDistance: run.totalDistance,
+  maxAccel: run.maxAccel,
+  scrollCount: run.scrollCount,
+  resistance: run.resistance,
+  inertiaEnabled: run.inertiaEnabled,
+  pxPerCm: run.pxPerCm,
+  calibrated: run.calibrated,
+  pinned: run.pinned,
+  samples: run.samples ?? [],
+  ...(run.integrity && { integrity: run.integrity }),
+  ...(run.daily && { daily: run.daily }),
+  ...(run.gameMode && { gameMode: run.gameMode }),
+  ...(run.timedScore !== undefined && { timedScore: run.timedScore }),
+});
+
+export const serializeRunsJson = (runs: RunRecord[], unlockedTitles: string[]): string => {
+  const exported = runs.map(toExportedRun);
+  const file: RunExportFile = {
+    format: RUN_EXPORT_FORMAT,
+    version: RUN_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    unlockedTitles,
+    runs: exported,
+    checksum: checksumOf(exported),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// ===== CSV =====
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_HEADER = ['run_id', 'finished_at', 'mode', 't_ms', 'depth_cm', 'speed_mps', 'accel_mps2'];
+
+/**
+ * 1行 = 1サンプル。速度・加速度は深さの時系列から差分で求める（縦方向の m/s, m/s^2）。
+ */
+export const serializeRunsCsv = (runs: RunRecord[]): string => {
+  const rows: (string | number)[][] = [CSV_HEADER];
+  runs.forEach((run) => {
+    const finishedAt = new Date(run.finishedAt).toISOString();
+    const mode = runModeKey(run);
+    let prev: RunSample | null = null;
+    let prevSpeed = 0;
+    (run.samples ?? []).forEach((sample) => {
+      const dtSec = prev ? (sample.t - prev.t) / 1000 : 0;
+      const speed = prev && dtSec > 0 ? (sample.depthCm - prev.depthCm) / 100 / dtSec : 0;
+      const accel = prev && dtSec > 0 ? (speed - prevSpeed) / dtSec : 0;
+      rows.push([
+        run.id,
+        finishedAt,
+        mode,
+        Math.round(sample.t),
+        sample.depthCm.toFixed(2),
+        speed.toFixed(3),
+        accel.toFixed(3),
+      ]);
+      prev = sample;
+      prevSpeed = speed;
+    });
+  });
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+// ===== Import =====
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonNegative = (value: unknown): value is number => isFiniteNumber(value) && value >= 0;
+
+const validateSplits = (value: unknown, run: Record<string, unknown>): SplitRecord[] | null => {
+  if (!Array.isArray(value)) return null;
+  const splits = value as Partial<SplitRecord>[];
+  if (!splits.every((split) => split && isNonNegative(split.distanceCm) && isNonNegative(split.timeMs))) return null;
+  // 保存順は深い方から。浅い順に並べ直して、深いほど後に通過していて、ランの範囲内に収まることを確かめる
+  const byDepth = [...(splits as SplitRecord[])].sort((a, b) => a.distanceCm - b.distanceCm);
+  let lastCm = -1;
+  let lastTime = 0;
+  for (const split of byDepth) {
+    if (split.distanceCm === lastCm || split.timeMs < lastTime) return null;
+    if (split.timeMs > (run.runTime as number) + 1) return null;
+    lastCm = split.distanceCm;
+    lastTime = split.timeMs;
+  }
+  return value as SplitRecord[];
+};
+
+const validateSamples = (value: unknown): RunSample[] | null => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  let lastT = -Infinity;
+  for (const sample of value as Partial<RunSample>[]) {
+    if (!sample || !isNonNegative(sample.t) || !isNonNegative(sample.depthCm)) return null;
+    if (sample.t < lastT) return null;
+    lastT = sample.t;
+  }
+  return value as RunSample[];
+};
+
+export const validateRun = (value: unknown, index: number): RunRecord => {
+  const fail = (reason: string): never => {
+    throw new DataError('invalid', `Run #${index + 1} is invalid: ${reason}`);
+  };
+  if (!value || typeof value !== 'object') return fail('not an object');
+  const run = value as Record<string, unknown>;
+
+  if (typeof run.id !== 'string' || run.id.length === 0 || run.id.length > 64) fail('id');
+  if (!isNonNegative(run.finishedAt)) fail('finishedAt');
+  if (!isNonNegative(run.runTime)) fail('runTime');
+  if (!isNonNegative(run.maxDepthCm)) fail('maxDepthCm');
+  for (const key of ['aveSpeed', 'maxSpeed', 'totalDistance', 'maxAccel', 'scrollCount'] as const) {
+    if (!isNonNegative(run[key])) fail(key);
+  }
+  if (!Object.values(ResistanceType).includes(run.resistance as ResistanceType)) fail('resistance');
+  if (typeof run.inertiaEnabled !== 'boolean') fail('inertiaEnabled');
+  if (!isFiniteNumber(run.pxPerCm) || run.pxPerCm <= 0) fail('pxPerCm');
+  if (typeof run.calibrated !== 'boolean') fail('calibrated');
+
+  const splits = validateSplits(run.splits, run) ?? fail('splits');
+  const samples = validateSamples(run.samples) ?? fail('samples');
+  if (run.integrity !== undefined && !isRunIntegrity(run.integrity)) fail('integrity');
+  if (run.daily !== undefined && !isDateKey(run.daily)) fail('daily');
+  if (run.gameMode !== undefined && !TIMED_MODES.includes(run.gameMode as TimedMode)) fail('gameMode');
+  if (run.timedScore !== undefined && (run.gameMode === undefined || !isNonNegative(run.timedScore))) fail('timedScore');
+  const deepest = Math.max(0, ...splits.map((s) => s.distanceCm), ...samples.map((s) => s.depthCm));
+  if (deepest > (run.maxDepthCm as number) + 1) fail('splits/samples deeper than maxDepthCm');
+
+  return {
+    id: run.id as string,
+    finishedAt: run.finishedAt as number,
+    maxDepthCm: run.maxDepthCm as number,
+    runTime: run.runTime as number,
+    splits,
+    aveSpeed: run.aveSpeed as number,
+    maxSpeed: run.maxSpeed as number,
+    totalDistance: run.totalDistance as number,
+    maxAccel: run.maxAccel as number,
+    scrollCount: run.scrollCount as number,
+    resistance: run.resistance as ResistanceType,
+    inertiaEnabled: run.inertiaEnabled as boolean,
+    pxPerCm: run.pxPerCm as number,
+    calibrated: run.calibrated as boolean,
+    pinned: run.pinned === true,
+    samples,
+    ...(run.integrity !== undefined && { integrity: run.integrity as RunIntegrity }),
+    ...(run.daily !== undefined && { daily: run.daily as string }),
+    ...(run.gameMode !== undefined && { gameMode: run.gameMode as TimedMode }),
+    ...(run.timedScore !== undefined && { timedScore: run.timedScore as number }),
+  };
+};
+
+export const parseRunsJson = (text: string): ParsedRunExport => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new DataError('invalidJson', 'Run file is not valid JSON');
+  }
+  if (!raw || raw.format !== RUN_EXPORT_FORMAT) throw new DataError('wrongFormat', 'Not a run export file');
+  if (raw.version !== RUN_EXPORT_VERSION) throw new DataError('unsupportedVersion', `Unsupported run file version: ${String(raw.version)}`);
+  if (!Array.isArray(raw.runs)) throw new DataError('invalid', 'Run file has no runs');
+  if (typeof raw.checksum !== 'string' || raw.checksum !== checksumOf(raw.runs as RunRecord[])) {
+    throw new DataError('checksum', 'Run file checksum does not match (the file was modified)');
+  }
+
+  const runs = raw.runs.map(validateRun);
+  const unlockedTitles = Array.isArray(raw.unlockedTitles)
+    ? raw.unlockedTitles.filter((key): key is string => typeof key === 'string')
+    : [];
+  return {
+    exportedAt: isFiniteNumber(raw.exportedAt) ? raw.exportedAt : 0,
+    unlockedTitles,
+    runs,
+  };
+};
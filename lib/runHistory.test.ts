@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ResistanceType } from '../types';
+import { MESSAGES } from './i18n';
+import {
+  FREE_PLAY_MODE_KEYS,
+  parseRunModeKey,
+  personalBestForMode,
+  personalBestsOf,
+  runModeKey,
+  runModeKeysOf,
+  runModeLabel,
+} from './runHistory';
+import { runOf } from './testFixtures';
+
+describe('runModeKeysOf', () => {
+  it('lists the free-play modes even without runs', () => {
+    expect(runModeKeysOf([])).toEqual(FREE_PLAY_MODE_KEYS);
+  });
+
+  it('adds each daily challenge that has runs', () => {
+    const runs = [
+      runOf('a', 100, { daily: '2026-10-02' }),
+      runOf('b', 100, { daily: '2026-10-01' }),
+      runOf('c', 100, { daily: '2026-10-02' }),
+    ];
+    expect(runModeKeysOf(runs)).toEqual([
+      ...FREE_PLAY_MODE_KEYS,
+      'STATIC/INERTIA/DAILY 2026-10-01',
+      'STATIC/INERTIA/DAILY 2026-10-02',
+    ]);
+  });
+
+  it('adds each timed mode that has runs', () => {
+    const runs = [
+      runOf('a', 100, { gameMode: 'target' }),
+      runOf('b', 100, { gameMode: 'sprint', inertiaEnabled: false }),
+      runOf('c', 100, { gameMode: 'endurance', resistance: ResistanceType.ELASTIC }),
+    ];
+    expect(runModeKeysOf(runs).slice(FREE_PLAY_MODE_KEYS.length)).toEqual([
+      'ELASTIC/INERTIA/ENDURANCE',
+      'STATIC/DIRECT/SPRINT',
+      'STATIC/INERTIA/TARGET',
+    ]);
+  });
+});
+
+describe('runModeLabel', () => {
+  it('reads back every kind of mode key', () => {
+    const modes = [
+      { resistance: ResistanceType.GLITCH, inertiaEnabled: false },
+      { resistance: ResistanceType.STATIC, inertiaEnabled: true, daily: '2026-10-02' },
+      { resistance: ResistanceType.ELASTIC, inertiaEnabled: true, gameMode: 'endurance' as const },
+    ];
+    expect(modes.map((mode) => parseRunModeKey(runModeKey(mode)))).toEqual(modes);
+  });
+
+  it('shows modes in the reader’s language', () => {
+    expect(runModeLabel('GLITCH/DIRECT', MESSAGES.en)).toBe('GLITCH · Direct input');
+    expect(runModeLabel('STATIC/INERTIA/DAILY 2026-10-02', MESSAGES.ja)).toBe('STATIC · 慣性あり · デイリー 2026-10-02');
+    expect(runModeLabel('ELASTIC/DIRECT/SPRINT', MESSAGES.en)).toBe('ELASTIC · Direct input · Sprint');
+  });
+
+  it('shows keys it does not know as they are', () => {
+    ['', 'STATIC', 'WATER/INERTIA', 'STATIC/INERTIA/MARATHON'].forEach((key) => {
+      expect(parseRunModeKey(key)).toBeNull();
+      expect(runModeLabel(key, MESSAGES.en)).toBe(key);
+    });
+  });
+});
+
+describe('personalBestsOf', () => {
+  it('picks one best per mode, daily challenges included', () => {
+    const runs = [
+      runOf('free', 500),
+      runOf('free-shallow', 100),
+      runOf('daily-deep', 900, { daily: '2026-10-01' }),
+      runOf('daily-shallow', 300, { daily: '2026-10-01' }),
+    ];
+    expect(personalBestsOf(runs).map((run) => run.id)).toEqual(['free', 'daily-deep']);
+  });
+
+  it('keeps timed modes apart from free play', () => {
+    const runs = [runOf('free', 500), runOf('sprint', 200, { gameMode: 'sprint' }), runOf('target', 900, { gameMode: 'target' })];
+    expect(personalBestsOf(runs).map((run) => run.id)).toEqual(['free', 'sprint', 'target']);
+  });
+
+  it('picks timed-mode bests by the mode score', () => {
+    const runs = [
+      runOf('target-slow', 1000, { gameMode: 'target', timedScore: 50_000 }),
+      runOf('target-fast', 1000, { gameMode: 'target', timedScore: 40_000 }),
+      runOf('target-short', 700, { gameMode: 'target' }),
+      runOf('sprint-shallow', 300, { gameMode: 'sprint', timedScore: 300 }),
+      runOf('sprint-deep', 500, { gameMode: 'sprint', timedScore: 500 }),
+    ];
+    expect(personalBestForMode(runs, 'STATIC/INERTIA/TARGET')?.id).toBe('target-fast');
+    expect(personalBestForMode(runs, 'STATIC/INERTIA/SPRINT')?.id).toBe('sprint-deep');
+  });
+
+  it('prefers the pinned run', () => {
+    const runs = [runOf('deep', 900, { daily: '2026-10-01' }), runOf('pinned', 300, { daily: '2026-10-01', pinned: true })];
+    expect(personalBestsOf(runs).map((run) => [runModeKey(run), run.id])).toEqual([
+      ['STATIC/INERTIA/DAILY 2026-10-01', 'pinned'],
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import type { Messages } from '../data/i18n/ja';
+import { ResistanceType, RunRecord, TimedMode } from '../types';
+import { isBetterScore, isTimedMode } from './timedModes';
+
+// IndexedDB はlocalStorageの容量制限を受けないので、ラン履歴はこちらに保存する
+const DB_NAME = 'immovable_scroll';
+const DB_VERSION = 2;
+const RUNS_STORE = 'runs';
+const REPLAYS_STORE = 'replays'; // runId -> シリアライズ済みリプレイ
+
+// 一瞬だけ浮いたようなランは履歴に残さない
+export const MIN_ARCHIVE_RUN_MS = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        const store = db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        store.createIndex('finishedAt', 'finishedAt');
+      }
+      if (!db.objectStoreNames.contains(REPLAYS_STORE)) {
+        db.createObjectStore(REPLAYS_STORE, { keyPath: 'runId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // 失敗した場合は次回やり直せるようにする
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => IDBRequest<T> | void,
+  storeName: string = RUNS_STORE
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = body(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createRunId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const gameModeSuffix = (run: Pick<RunRecord, 'daily' | 'gameMode'>): string => {
+  if (run.daily) return `/DAILY ${run.daily}`;
+  return run.gameMode ? `/${run.gameMode.toUpperCase()}` : '';
+};
+
+export type RunMode = Pick<RunRecord, 'resistance' | 'inertiaEnabled' | 'daily' | 'gameMode'>;
+
+/** ランのモード識別子（自己ベストはモードごとに管理する。デイリーチャレンジは日ごとに別） */
+export const runModeKey = (run: RunMode): string =>
+  `${run.resistance}/${run.inertiaEnabled ? 'INERTIA' : 'DIRECT'}${gameModeSuffix(run)}`;
+
+const RUN_MODE_KEY_PATTERN = /^([A-Z]+)\/(INERTIA|DIRECT)(?:\/DAILY (\S+)|\/([A-Z]+))?$/;
+
+/** runModeKey を読み戻す。結果リンクの mode は他人が作った文字列なので、知らない形なら null */
+export const parseRunModeKey = (key: string): RunMode | null => {
+  const match = RUN_MODE_KEY_PATTERN.exec(key);
+  if (!match) return null;
+  const [, resistance, input, daily, timed] = match;
+  const gameMode = timed?.toLowerCase() as TimedMode | undefined;
+  if (!Object.values(ResistanceType).includes(resistance as ResistanceType)) return null;
+  if (gameMode && !isTimedMode(gameMode)) return null;
+  return {
+    resistance: resistance as ResistanceType,
+    inertiaEnabled: input === 'INERTIA',
+    ...(daily && { daily }),
+    ...(gameMode && { gameMode }),
+  };
+};
+
+/** 画面に出すモード名。runModeKey は保存データやリンクに入る識別子なので訳さない */
+export const runModeLabel = (key: string, t: Messages): string => {
+  const mode = parseRunModeKey(key);
+  if (!mode) return key;
+  const parts = [t.modes.base(mode.resistance, mode.inertiaEnabled)];
+  if (mode.daily) parts.push(t.modes.daily(mode.daily));
+  if (mode.gameMode) parts.push(t.modes.timed[mode.gameMode]);
+  return parts.join(' · ');
+};
+
+// 自由プレイのモード（デイリー・時間制のモードはここに含まれない）
+export const FREE_PLAY_MODE_KEYS: string[] = Object.values(ResistanceType).flatMap((resistance) => [
+  runModeKey({ resistance, inertiaEnabled: true }),
+  runModeKey({ resistance, inertiaEnabled: false }),
+]);
+
+/** 履歴に出てくるモード。自由プレイのモードを先に、それ以外は記録のあるものだけ */
+export const runModeKeysOf = (runs: RunRecord[]): string[] =>
+  Array.from(new Set([...FREE_PLAY_MODE_KEYS, ...runs.map(runModeKey).sort()]));
+
+export const addRun = async (run: RunRecord): Promise<void> => {
+  await runTransaction('readwrite', (store) => store.put(run));
+};
+
+export const listRuns = async (): Promise<RunRecord[]> => {
+  const runs = await runTransaction<RunRecord[]>('readonly', (store) => store.getAll());
+  return (runs ?? []).sort((a, b) => b.finishedAt - a.finishedAt);
+};
+
+/**
+ * 外部から読み込んだランを追加する。既にある id はスキップし、追加した件数を返す。
+ * ピン留めは同じモードの既存のピンとぶつかるので外しておく。
+ */
+export const importRuns = async (runs: RunRecord[]): Promise<number> => {
+  const existing = new Set((await listRuns()).map((run) => run.id));
+  const fresh = runs.filter((run) => !existing.has(run.id));
+  await runTransaction('readwrite', (store) => {
+    fresh.forEach((run) => store.put({ ...run, pinned: false, hasReplay: false }));
+  });
+  return fresh.length;
+};
+
+/** 履歴をまるごと置き換える（バックアップの上書き復元用）。リプレイも消える */
+export const replaceAllRuns = async (runs: RunRecord[]): Promise<void> => {
+  await runTransaction('readwrite', (store) => store.clear(), REPLAYS_STORE);
+  await runTransaction('readwrite', (store) => {
+    store.clear();
+    runs.forEach((run) => store.put({ ...run, hasReplay: false }));
+  });
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', (store) => store.delete(id));
+  await runTransaction('readwrite', (store) => store.delete(id), REPLAYS_STORE);
+};
+
+export const saveReplay = async (runId: string, data: string): Promise<void> => {
+  await runTransaction('readwrite', (store) => store.put({ runId, data }), REPLAYS_STORE);
+};
+
+export const loadReplay = async (runId: string): Promise<string | null> => {
+  const entry = await runTransaction<{ runId: string; data: string } | undefined>(
+    'readonly',
+    (store) => store.get(runId),
+    REPLAYS_STORE
+  );
+  return entry ? entry.data : null;
+};
+
+/**
+ * ランを自己ベストとしてピン留めする（同じモードのピンは外れる）。
+ * pinned=false の場合はそのランのピンだけを外す。
+ */
+export const setRunPinned = async (id: string, pinned: boolean): Promise<void> => {
+  const runs = await listRuns();
+  const target = runs.find((run) => run.id === id);
+  if (!target) return;
+
+  const modeKey = runModeKey(target);
+  const changed = runs
+    .filter((run) => (run.id === id ? run.pinned !== pinned : pinned && run.pinned && runModeKey(run) === modeKey))
+    .map((run) => ({ ...run, pinned: run.id === id ? pinned : false }));
+
+  await runTransaction('readwrite', (store) => {
+    changed.forEach((run) => store.put(run));
+  });
+};
+
+// 時間制のモードはスコアで比べる（ターゲットレースはタイムが短い方が上）。スコアの無いランは後回し
+const isBetterRun = (run: RunRecord, than: RunRecord): boolean => {
+  if (!run.gameMode) return run.maxDepthCm > than.maxDepthCm;
+  if (run.timedScore === undefined) return false;
+  return isBetterScore(run.gameMode, run.timedScore, than.timedScore ?? null);
+};
+
+/** モードの自己ベスト（ピン留めを優先し、なければ最深ラン。時間制のモードは最高スコアのラン） */
+export const personalBestForMode = (
+  runs: RunRecord[],
+  modeKey: string,
+  filter: (run: RunRecord) => boolean = () => true
+): RunRecord | null => {
+  const candidates = runs.filter((run) => runModeKey(run) === modeKey && filter(run));
+  const pinned = candidates.find((run) => run.pinned);
+  if (pinned) return pinned;
+  return candidates.reduce<RunRecord | null>(
+    (best, run) => (!best || isBetterRun(run, best) ? run : best),
+    null
+  );
+};
+
+/** モードごとの自己ベスト（記録のないモードは含まない） */
+export const personalBestsOf = (runs: RunRecord[]): RunRecord[] =>
+  runModeKeysOf(runs)
+    .map((key) => personalBestForMode(runs, key))
+    .filter((run): run is RunRecord => run !== null);
@@ -0,0 +1,68 @@
+import { RunRecord, RunSample } from '../types';
+import { ChartPoint } from './chart';
+import { personalBestForMode, runModeKey } from './runHistory';
+import { reachTimes } from './splits';
+
+// ラン終了後の結果画面に出す集計
+
+export interface SpeedPoint {
+  t: number; // ms
+  speedMps: number;
+  accelMps2: number;
+}
+
+/**
+ * 深さの時系列から速さと加速度を出す。サンプル間隔 (250ms) ごとの平均なので、
+ * GLITCH の揺れのような細かい往復はならされる
+ */
+export const speedSeries = (samples: RunSample[]): SpeedPoint[] => {
+  const speeds = samples.slice(1).map((b, i) => {
+    const a = samples[i];
+    const dtSec = (b.t - a.t) / 1000;
+    return { t: b.t, speedMps: dtSec > 0 ? Math.abs(b.depthCm - a.depthCm) / 100 / dtSec : 0 };
+  });
+  return speeds.map((point, i) => {
+    const prev = speeds[i - 1];
+    const dtSec = prev ? (point.t - prev.t) / 1000 : 0;
+    return { ...point, accelMps2: dtSec > 0 ? (point.speedMps - prev.speedMps) / dtSec : 0 };
+  });
+};
+
+export const depthPoints = (samples: RunSample[]): ChartPoint[] =>
+  samples.map((sample) => ({ x: sample.t, y: sample.depthCm }));
+
+export interface SplitComparison {
+  distanceCm: number;
+  timeMs: number;
+  bestMs: number | null; // 自己ベストのランがそこを通過した時刻（通過していなければ null）
+}
+
+/** このランのスプリットを自己ベストのランと比べる */
+export const compareSplits = (run: RunRecord, best: RunRecord | null): SplitComparison[] => {
+  const bestTimes = best ? reachTimes(best, run.splits.map((split) => split.distanceCm)) : [];
+  return run.splits.map((split, i) => ({
+    distanceCm: split.distanceCm,
+    timeMs: split.timeMs,
+    bestMs: bestTimes[i] ?? null,
+  }));
+};
+
+export interface HistoryComparison {
+  personalBest: RunRecord | null; // このランより前の自己ベスト
+  modeRunCount: number; // このランを含む同じモードのラン数
+  depthRank: number; // 同じモードの中での深さの順位（1 = 最深）
+  averageDepthCm: number | null; // このラン以外の平均
+}
+
+/** 履歴（このラン自身が入っていてもよい）と比べる */
+export const compareWithHistory = (run: RunRecord, history: RunRecord[]): HistoryComparison => {
+  const modeKey = runModeKey(run);
+  const others = history.filter((other) => other.id !== run.id && runModeKey(other) === modeKey);
+  return {
+    personalBest: personalBestForMode(others, modeKey),
+    modeRunCount: others.length + 1,
+    depthRank: others.filter((other) => other.maxDepthCm > run.maxDepthCm).length + 1,
+    averageDepthCm:
+      others.length > 0 ? others.reduce((sum, other) => sum + other.maxDepthCm, 0) / others.length : null,
+  };
+};
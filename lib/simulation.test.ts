@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { ResistanceType, SimulationState } from '../types';
+import { accumulateInput, emptyInput } from './input';
+import {
+  advance,
+  createInitialState,
+  FIXED_STEP_MS,
+  gravityAt,
+  IDLE_GRAVITY_DELAY_MS,
+  NO_INPUT,
+  SimulationOptions,
+  step,
+} from './simulation';
+
+// 1px = 1cm にして、深さとスプリットの値をそのまま比べる
+const DIRECT: SimulationOptions = {
+  inertiaEnabled: false,
+  pxToCm: 1,
+  milestonesCm: [10, 20, 50],
+  resistance: ResistanceType.STATIC,
+};
+const INERTIA: SimulationOptions = { ...DIRECT, inertiaEnabled: true };
+
+/** 地面から離れて浮いている状態 */
+const floating = (depth: number, overrides: Partial<SimulationState> = {}): SimulationState => ({
+  ...createInitialState(),
+  running: true,
+  virtualDepth: depth,
+  maxDepth: depth,
+  runTime: 1000,
+  ...overrides,
+});
+
+describe('step', () => {
+  it('takes off with an impulse and slows it down by friction', () => {
+    const state = step(createInitialState(), { impulse: 10, directDelta: 0 }, FIXED_STEP_MS, INERTIA);
+    expect(state.running).toBe(true);
+    expect(state.runTime).toBe(0);
+    expect(state.velocity).toBe(9.6);
+    expect(state.virtualDepth).toBe(9.6);
+    expect(state.maxDepth).toBe(9.6);
+
+    const next = step(state, NO_INPUT, FIXED_STEP_MS, INERTIA);
+    expect(next.runTime).toBe(FIXED_STEP_MS);
+    expect(next.velocity).toBe(9.6 * 0.96);
+    expect(next.virtualDepth).toBe(9.6 + 9.6 * 0.96);
+  });
+
+  it('ignores the input of the other mode', () => {
+    const state = step(createInitialState(), { impulse: 10, directDelta: 0 }, FIXED_STEP_MS, DIRECT);
+    expect(state.running).toBe(false);
+    expect(state.virtualDepth).toBe(0);
+  });
+
+  it('pulls back by gravity only after the idle delay', () => {
+    const waiting = step(floating(1000, { idleMs: IDLE_GRAVITY_DELAY_MS - 2 * FIXED_STEP_MS }), NO_INPUT, FIXED_STEP_MS, DIRECT);
+    expect(waiting.virtualDepth).toBe(1000);
+
+    const idle = floating(1000, { idleMs: IDLE_GRAVITY_DELAY_MS });
+    expect(gravityAt(1000)).toBeCloseTo(0.9, 12);
+    expect(step(idle, NO_INPUT, FIXED_STEP_MS, DIRECT).virtualDepth).toBe(1000 - gravityAt(1000));
+    expect(step(idle, NO_INPUT, FIXED_STEP_MS, { ...DIRECT, gravityMultiplier: 2 }).virtualDepth).toBe(
+      1000 - gravityAt(1000) * 2
+    );
+  });
+
+  it('marks the run as touched by gravity once it pulls', () => {
+    const state = step(floating(1000, { idleMs: IDLE_GRAVITY_DELAY_MS }), NO_INPUT, FIXED_STEP_MS, DIRECT);
+    expect(state.gravityTouched).toBe(true);
+    expect(state.gravityFreeDepth).toBe(0);
+  });
+
+  it('lands and clears the run at the floor', () => {
+    const run = floating(0.5, { idleMs: IDLE_GRAVITY_DELAY_MS, splits: [{ distanceCm: 10, timeMs: 200 }], passedMilestones: [10] });
+    const landed = step(run, NO_INPUT, FIXED_STEP_MS, DIRECT);
+    expect(landed).toMatchObject({
+      running: false,
+      virtualDepth: 0,
+      velocity: 0,
+      runTime: 0,
+      maxDepth: 0,
+      splits: [],
+      passedMilestones: [],
+    });
+  });
+
+  it('does not go below the floor', () => {
+    const state = step(floating(5), { impulse: 0, directDelta: -20 }, FIXED_STEP_MS, DIRECT);
+    expect(state.virtualDepth).toBe(0);
+    expect(state.running).toBe(false);
+  });
+
+  it('records each milestone once, deepest first', () => {
+    let state = step(createInitialState(), { impulse: 0, directDelta: 15 }, FIXED_STEP_MS, DIRECT);
+    expect(state.splits).toEqual([{ distanceCm: 10, timeMs: 0 }]);
+
+    state = step(state, { impulse: 0, directDelta: 40 }, FIXED_STEP_MS, DIRECT);
+    expect(state.virtualDepth).toBe(55);
+    expect(state.splits).toEqual([
+      { distanceCm: 50, timeMs: FIXED_STEP_MS },
+      { distanceCm: 20, timeMs: FIXED_STEP_MS },
+      { distanceCm: 10, timeMs: 0 },
+    ]);
+
+    // 戻ってからもう一度通っても記録し直さない
+    state = step(state, { impulse: 0, directDelta: -30 }, FIXED_STEP_MS, DIRECT);
+    state = step(state, { impulse: 0, directDelta: 30 }, FIXED_STEP_MS, DIRECT);
+    expect(state.virtualDepth).toBe(55);
+    expect(state.runTime).toBe(FIXED_STEP_MS * 3);
+    expect(state.splits.map((split) => split.distanceCm)).toEqual([50, 20, 10]);
+    expect(state.maxDepth).toBe(55);
+  });
+});
+
+const DURATION_MS = 6000;
+// 最初のフレームの前に少し時間を進めておき、フレームの時刻がステップの境目にちょうど重ならないようにする
+const INITIAL_ACCUMULATOR_MS = 5;
+// 1/6 秒 (= 10 ステップ) ごとの時刻には、30/60/144/240Hz のどれでもフレームがある。
+// その直後の入力は、どのリフレッシュレートでも同じステップで効く
+const COMMON_FRAME_MS = 1000 / 6;
+
+interface ScrollEvent {
+  t: number; // ms
+  delta: number; // px
+}
+
+const EVENTS: ScrollEvent[] = [
+  { n: 0, delta: 300 },
+  { n: 1, delta: 300 },
+  { n: 2, delta: 500 },
+  { n: 5, delta: -200 },
+  { n: 9, delta: 400 },
+  { n: 20, delta: 250 },
+].map(({ n, delta }) => ({ t: n * COMMON_FRAME_MS + 1, delta }));
+
+interface Outcome {
+  state: SimulationState;
+  finishedRuns: SimulationState[];
+  steps: number;
+}
+
+/** requestAnimationFrame と同じように hz ごとに advance を呼ぶ */
+const runAt = (hz: number, options: SimulationOptions): Outcome => {
+  let state = createInitialState();
+  let accumulatorMs = INITIAL_ACCUMULATOR_MS;
+  let pending = emptyInput();
+  let steps = 0;
+  const finishedRuns: SimulationState[] = [];
+  let prevT = 0;
+  const frames = Math.round((DURATION_MS * hz) / 1000);
+  for (let i = 1; i <= frames; i++) {
+    const t = (i * 1000) / hz;
+    EVENTS.filter((event) => event.t > prevT && event.t <= t).forEach((event) => {
+      pending = accumulateInput(pending, 'wheel', event.delta, options.inertiaEnabled);
+    });
+    const result = advance(state, accumulatorMs, pending, t - prevT, options);
+    state = result.state;
+    accumulatorMs = result.accumulatorMs;
+    steps += result.steps;
+    // ステップが進まなかったフレームの入力は次のフレームに持ち越す
+    if (result.steps > 0) pending = emptyInput();
+    finishedRuns.push(...result.finishedRuns);
+    prevT = t;
+  }
+  return { state, finishedRuns, steps };
+};
+
+const REFRESH_RATES = [30, 60, 144, 240];
+
+describe('advance', () => {
+  it.each([
+    [ResistanceType.STATIC, true],
+    [ResistanceType.STATIC, false],
+    [ResistanceType.ELASTIC, true],
+    [ResistanceType.GLITCH, true],
+  ])('gives the same run at every refresh rate (%s, inertia %s)', (resistance, inertiaEnabled) => {
+    const options: SimulationOptions = {
+      inertiaEnabled,
+      pxToCm: 1 / 38,
+      milestonesCm: [10, 20, 50, 100],
+      resistance,
+    };
+    const [reference, ...others] = REFRESH_RATES.map((hz) => runAt(hz, options));
+
+    expect(reference.steps).toBe(Math.floor((DURATION_MS + INITIAL_ACCUMULATOR_MS) / FIXED_STEP_MS));
+    expect(reference.finishedRuns.length + reference.state.splits.length).toBeGreaterThan(0);
+    others.forEach((outcome) => {
+      expect(outcome.steps).toBe(reference.steps);
+      expect(outcome.state.virtualDepth).toBe(reference.state.virtualDepth);
+      expect(outcome.state.splits).toEqual(reference.state.splits);
+      expect(outcome.finishedRuns.map((run) => [run.maxDepth, run.splits])).toEqual(
+        reference.finishedRuns.map((run) => [run.maxDepth, run.splits])
+      );
+      expect(outcome.state).toEqual(reference.state);
+    });
+  });
+
+  it('carries leftover time over to the next call', () => {
+    const options: SimulationOptions = {
+      inertiaEnabled: true,
+      pxToCm: 1 / 38,
+      milestonesCm: [],
+      resistance: ResistanceType.STATIC,
+    };
+    const first = advance(createInitialState(), 0, emptyInput(), FIXED_STEP_MS * 1.5, options);
+    expect(first.steps).toBe(1);
+    expect(first.accumulatorMs).toBeCloseTo(FIXED_STEP_MS / 2);
+    const second = advance(first.state, first.accumulatorMs, emptyInput(), FIXED_STEP_MS * 0.6, options);
+    expect(second.steps).toBe(1);
+  });
+});
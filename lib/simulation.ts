@@ -0,0 +1,361 @@
+import { ResistanceType, SimulationState, SplitRecord } from '../types';
+
+// Constants for physics
+export const FRICTION = 0.96;
+export const GRAVITY = 0.8;
+export const GRAVITY_DEPTH_SCALE = 0.0001;
+export const GRAVITY_MAX = 3.0;
+export const IDLE_GRAVITY_DELAY_MS = 2000;
+const MOVING_EPS = 0.1;
+// これ未満の速度は 0 に丸める（減衰し切らずに永遠に着地しないのを防ぐ）
+const VELOCITY_REST_EPS = 0.01;
+// 速度統計の dt 下限（高リフレッシュレートで値が暴れないように）
+const MIN_STAT_DT_SEC = 1 / 120;
+// 物理は常に 60Hz 相当の固定ステップで進める（リフレッシュレート非依存）
+export const FIXED_STEP_MS = 1000 / 60;
+// 1回の advance で処理する最大ステップ数（タブ復帰時などの暴走防止）
+const MAX_STEPS_PER_ADVANCE = 30;
+
+export interface SimulationInput {
+  impulse: number; // INERTIA: 速度に加算する量 (px/frame)
+  directDelta: number; // DIRECT: 深度にそのまま加算する量 (px)
+}
+
+export interface SimulationOptions {
+  inertiaEnabled: boolean;
+  pxToCm: number;
+  milestonesCm: number[];
+  resistance: ResistanceType;
+  gravityMultiplier?: number; // 放置時の引き戻しの倍率（既定 1。デイリーチャレンジ用）
+  gravityRampPerSec?: number; // ラン開始からの1秒ごとに引き戻しの倍率に足す量（エンデュランス用）
+  idleDelayMs?: number; // 引き戻しが効き始めるまでの放置時間の上書き（0 = 常に効く）
+  seed?: number; // 指定するとラン開始時に乱数を初期化する（同じ入力なら誰でも同じ展開になる）
+}
+
+// ===== Resistance modes =====
+
+export interface ResistanceParams {
+  friction: number; // 1ステップごとの速度減衰率
+  gravityScale: number; // 放置時の重力の倍率
+  idleDelayMs: number; // 重力/引き戻しが効き始めるまでの放置時間
+  springK: number; // ELASTIC: 深度 1px あたりの引き戻し量 (px/step)
+  springMax: number; // ELASTIC: 引き戻しの上限 (px/step)
+  snapBack: number; // ELASTIC: 放置時の引き戻し倍率
+  invertChance: number; // GLITCH: 入力が反転する確率（入力のあるステップごと）
+  stutterChance: number; // GLITCH: 入力が固まる確率（ステップごと）
+  stutterSteps: number; // GLITCH: 固まるステップ数
+  teleportChance: number; // GLITCH: 押し戻される確率（ステップごと）
+  teleportSetback: number; // GLITCH: 押し戻しで失う深度の割合
+}
+
+const BASE_PARAMS: ResistanceParams = {
+  friction: FRICTION,
+  gravityScale: 1,
+  idleDelayMs: IDLE_GRAVITY_DELAY_MS,
+  springK: 0,
+  springMax: 0,
+  snapBack: 0,
+  invertChance: 0,
+  stutterChance: 0,
+  stutterSteps: 0,
+  teleportChance: 0,
+  teleportSetback: 0,
+};
+
+export const RESISTANCE_PARAMS: Record<ResistanceType, ResistanceParams> = {
+  // 一定の抵抗（従来の挙動）
+  [ResistanceType.STATIC]: BASE_PARAMS,
+  // 深く潜るほど強く引っ張るバネ。手を離すと一気に戻される
+  [ResistanceType.ELASTIC]: {
+    ...BASE_PARAMS,
+    friction: 0.95,
+    gravityScale: 0,
+    idleDelayMs: 1000,
+    springK: 0.00015,
+    springMax: 4,
+    snapBack: 3,
+  },
+  // 入力反転・フリーズ・押し戻しがランダムに起きる
+  [ResistanceType.GLITCH]: {
+    ...BASE_PARAMS,
+    invertChance: 0.12,
+    stutterChance: 0.004,
+    stutterSteps: 12,
+    teleportChance: 0.0015,
+    teleportSetback: 0.1,
+  },
+};
+
+export const GLITCH_FX_MS = 300;
+const DEFAULT_SEED = 0x9e3779b9;
+
+// mulberry32: 状態を返す決定的な乱数
+export const nextRandom = (rngState: number): [number, number] => {
+  const nextState = (rngState + 0x6d2b79f5) | 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+};
+
+/** ELASTIC の引き戻し量 (px/step) */
+export const springPullAt = (depth: number, params: ResistanceParams): number =>
+  Math.min(depth * params.springK, params.springMax);
+
+/** ELASTIC の張り具合 0..1（演出用） */
+export const elasticTension = (depth: number): number => {
+  const params = RESISTANCE_PARAMS[ResistanceType.ELASTIC];
+  return springPullAt(depth, params) / params.springMax;
+};
+
+export interface AdvanceResult {
+  state: SimulationState;
+  accumulatorMs: number;
+  steps: number;
+  finishedRuns: SimulationState[]; // 着地直前の状態（このフレームで終わったラン）
+}
+
+export const NO_INPUT: SimulationInput = { impulse: 0, directDelta: 0 };
+
+export const createInitialState = (highScore = 0, seed = DEFAULT_SEED): SimulationState => ({
+  virtualDepth: 0,
+  velocity: 0,
+  highScore,
+  running: false,
+  runTime: 0,
+  maxDepth: 0,
+  idleMs: 0,
+  lastSpeedPxPerSec: 0,
+  lastScrollDir: 0,
+  scrollCount: 0,
+  splits: [],
+  passedMilestones: [],
+  totalDistance: 0,
+  aveSpeed: 0,
+  maxSpeed: 0,
+  maxAccel: 0,
+  currentSpeedMps: 0,
+  rngState: seed | 0,
+  stutterSteps: 0,
+  glitchFxMs: 0,
+  gravityTouched: false,
+  gravityFreeDepth: 0,
+});
+
+/** 地面に戻った状態にする（ランの記録はすべて消える） */
+export const landRun = (state: SimulationState): SimulationState => ({
+  ...state,
+  virtualDepth: 0,
+  velocity: 0,
+  running: false,
+  runTime: 0,
+  maxDepth: 0,
+  idleMs: 0,
+  splits: [],
+  passedMilestones: [],
+  totalDistance: 0,
+  aveSpeed: 0,
+  maxSpeed: 0,
+  maxAccel: 0,
+  currentSpeedMps: 0,
+  scrollCount: 0,
+  gravityTouched: false,
+  gravityFreeDepth: 0,
+});
+
+export const gravityAt = (depth: number): number =>
+  Math.min(GRAVITY + depth * GRAVITY_DEPTH_SCALE, GRAVITY_MAX);
+
+const applyPull = (depth: number, pull: number): number => {
+  if (depth <= 0) return depth;
+  return Math.max(0, depth - pull);
+};
+
+// 放置時に深度を戻す量（モード別）
+const idlePullAt = (depth: number, params: ResistanceParams): number =>
+  gravityAt(depth) * params.gravityScale + springPullAt(depth, params) * params.snapBack;
+
+/**
+ * 1ステップ分シミュレーションを進める純粋関数。
+ * 同じ state / input / dt / options からは常に同じ結果になる。
+ */
+export const step = (
+  prev: SimulationState,
+  input: SimulationInput,
+  dtMs: number,
+  options: SimulationOptions
+): SimulationState => {
+  const { inertiaEnabled, pxToCm, milestonesCm, resistance, gravityMultiplier = 1, gravityRampPerSec = 0 } = options;
+  const params = RESISTANCE_PARAMS[resistance];
+  const dtSec = Math.max(dtMs / 1000, MIN_STAT_DT_SEC);
+
+  let { rngState, stutterSteps } = prev;
+  let glitchFxMs = Math.max(0, prev.glitchFxMs - dtMs);
+  let depth = prev.virtualDepth;
+  let { impulse, directDelta } = input;
+  if (inertiaEnabled) directDelta = 0;
+  else impulse = 0;
+
+  if (resistance === ResistanceType.GLITCH) {
+    let roll: number;
+    if (stutterSteps > 0) {
+      // フリーズ中は入力を受け付けない
+      stutterSteps -= 1;
+      impulse = 0;
+      directDelta = 0;
+    } else {
+      [roll, rngState] = nextRandom(rngState);
+      if (roll < params.stutterChance) {
+        stutterSteps = params.stutterSteps;
+        glitchFxMs = GLITCH_FX_MS;
+      }
+    }
+    if (impulse !== 0 || directDelta !== 0) {
+      [roll, rngState] = nextRandom(rngState);
+      if (roll < params.invertChance) {
+        impulse = -impulse;
+        directDelta = -directDelta;
+        glitchFxMs = GLITCH_FX_MS;
+      }
+    }
+    if (prev.running) {
+      [roll, rngState] = nextRandom(rngState);
+      if (roll < params.teleportChance) {
+        depth *= 1 - params.teleportSetback;
+        glitchFxMs = GLITCH_FX_MS;
+      }
+    }
+  }
+
+  let velocity = inertiaEnabled ? prev.velocity + impulse : directDelta;
+
+  // スクロール回数（方向変化でカウント）
+  let { scrollCount, lastScrollDir } = prev;
+  const dir = Math.sign(velocity);
+  if (dir !== 0 && dir !== lastScrollDir) {
+    scrollCount += 1;
+    lastScrollDir = dir;
+  }
+
+  const pxPerSec = Math.abs(velocity) / dtSec;
+  const accelPxPerSec2 = Math.abs(pxPerSec - prev.lastSpeedPxPerSec) / dtSec;
+  const isMoving = Math.abs(velocity) > MOVING_EPS || Math.abs(directDelta) > MOVING_EPS;
+  const idleMs = isMoving ? 0 : prev.idleMs + dtMs;
+  const allowGravity = idleMs >= (options.idleDelayMs ?? params.idleDelayMs);
+  const pullScale = gravityMultiplier * (1 + (gravityRampPerSec * prev.runTime) / 1000);
+  // ELASTIC のバネは操作中も常に効く（放置時は idlePullAt に含まれる）
+  const pull = allowGravity ? idlePullAt(depth, params) * pullScale : springPullAt(depth, params);
+
+  if (inertiaEnabled) {
+    velocity *= params.friction;
+    if (Math.abs(velocity) < VELOCITY_REST_EPS) velocity = 0;
+    depth = applyPull(depth, pull);
+    depth += velocity;
+  } else {
+    if (directDelta !== 0) depth = Math.max(0, depth + directDelta);
+    depth = applyPull(depth, pull);
+  }
+
+  let next: SimulationState = {
+    ...prev,
+    virtualDepth: depth,
+    velocity,
+    scrollCount,
+    lastScrollDir,
+    idleMs,
+    lastSpeedPxPerSec: pxPerSec,
+    rngState,
+    stutterSteps,
+    glitchFxMs,
+    gravityTouched: prev.gravityTouched || (prev.running && allowGravity && pull > 0),
+  };
+
+  // Hard floor / Reset
+  if (depth <= 0) {
+    next.virtualDepth = 0;
+    next.velocity = 0;
+    if (prev.running) next = landRun(next);
+  } else if (!prev.running) {
+    // Start Timer if just took off
+    next = {
+      ...next,
+      running: true,
+      runTime: 0,
+      maxDepth: 0,
+      splits: [],
+      passedMilestones: [],
+      totalDistance: 0,
+      aveSpeed: 0,
+      maxSpeed: 0,
+      maxAccel: 0,
+      gravityTouched: false,
+      gravityFreeDepth: 0,
+      ...(options.seed !== undefined && { rngState: options.seed | 0 }),
+    };
+  }
+
+  // Timer & Split Logic
+  if (next.running) {
+    if (prev.running) next.runTime = prev.runTime + dtMs;
+    next.maxDepth = Math.max(next.maxDepth, next.virtualDepth);
+    if (!next.gravityTouched) next.gravityFreeDepth = next.maxDepth;
+
+    const currentCm = next.virtualDepth * pxToCm;
+    const candidates = milestonesCm.filter((milestone) => currentCm >= milestone);
+    const passed = new Set(next.passedMilestones);
+    const reached = candidates.filter((milestone) => !passed.has(milestone));
+    if (reached.length > 0) {
+      const added: SplitRecord[] = reached.map((milestone) => ({ distanceCm: milestone, timeMs: next.runTime }));
+      next.passedMilestones = [...next.passedMilestones, ...reached];
+      next.splits = [...next.splits, ...added].sort((a, b) => b.distanceCm - a.distanceCm);
+    }
+  }
+
+  // 距離・速度統計（実移動量ベース）
+  const frameDistanceM = (Math.abs(next.velocity) * pxToCm) / 100;
+  const currentSpeedMps = (pxPerSec * pxToCm) / 100;
+  const currentAccelMps2 = (accelPxPerSec2 * pxToCm) / 100;
+
+  next.totalDistance += frameDistanceM;
+  next.currentSpeedMps = currentSpeedMps;
+  next.maxSpeed = Math.max(next.maxSpeed, currentSpeedMps);
+  next.maxAccel = Math.max(next.maxAccel, currentAccelMps2);
+  next.aveSpeed = next.running && next.runTime > 0 ? next.totalDistance / (next.runTime / 1000) : 0;
+
+  if (next.virtualDepth > next.highScore) {
+    next.highScore = Math.floor(next.virtualDepth);
+  }
+
+  return next;
+};
+
+/**
+ * 経過時間を固定ステップに分割してシミュレーションを進める。
+ * 入力はこの呼び出しで実行される最初のステップにまとめて適用される。
+ * steps が 0 の場合、入力は消費されていないので呼び出し側で次回に持ち越すこと。
+ */
+export const advance = (
+  state: SimulationState,
+  accumulatorMs: number,
+  input: SimulationInput,
+  elapsedMs: number,
+  options: SimulationOptions
+): AdvanceResult => {
+  let acc = accumulatorMs + Math.max(0, elapsedMs);
+  let next = state;
+  let steps = 0;
+  const finishedRuns: SimulationState[] = [];
+
+  while (acc >= FIXED_STEP_MS && steps < MAX_STEPS_PER_ADVANCE) {
+    const before = next;
+    next = step(next, steps === 0 ? input : NO_INPUT, FIXED_STEP_MS, options);
+    if (before.running && !next.running) finishedRuns.push(before);
+    acc -= FIXED_STEP_MS;
+    steps += 1;
+  }
+
+  // 上限に達した分の遅れは捨てる
+  if (steps >= MAX_STEPS_PER_ADVANCE) acc = Math.min(acc, FIXED_STEP_MS);
+
+  return { state: next, accumulatorMs: acc, steps, finishedRuns };
+};
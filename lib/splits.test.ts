@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Achievement, ACHIEVEMENTS } from '../data/achievements';
+import { ResistanceType, RunRecord } from '../types';
+import { achievementMilestonesCm, DEFAULT_SPLIT_DEFINITION, reachTimes, resolveMilestones } from './splits';
+
+const depth = (meters: number): Achievement => ({
+  key: String(meters),
+  condition: { type: 'depth', meters },
+  tier: 'bronze',
+  category: 'depth',
+  label: `${meters}m`,
+  requirement: `Reach ${meters}m`,
+});
+
+const pack = [depth(300), { ...depth(0), key: 'fast', condition: { type: 'maxSpeed', mps: 5 } } as Achievement, depth(200)];
+
+describe('resolveMilestones', () => {
+  it('uses the depth achievements of the given pack', () => {
+    expect(achievementMilestonesCm(pack)).toEqual([20_000, 30_000]);
+    expect(resolveMilestones({ ...DEFAULT_SPLIT_DEFINITION, kind: 'achievements' }, pack)).toEqual([20_000, 30_000]);
+  });
+
+  it('ignores the pack for other split sets', () => {
+    expect(resolveMilestones({ ...DEFAULT_SPLIT_DEFINITION, kind: 'interval', intervalM: 2500 }, pack)).toEqual([
+      250_000, 500_000, 750_000, 1_000_000,
+    ]);
+    expect(resolveMilestones(DEFAULT_SPLIT_DEFINITION, ACHIEVEMENTS)).toEqual(
+      resolveMilestones(DEFAULT_SPLIT_DEFINITION, pack)
+    );
+  });
+});
+
+describe('reachTimes', () => {
+  it('prefers recorded splits and interpolates the rest from samples', () => {
+    const run = {
+      splits: [{ distanceCm: 100, timeMs: 900 }],
+      samples: [
+        { t: 0, depthCm: 0 },
+        { t: 1000, depthCm: 200 },
+        { t: 2000, depthCm: 400 },
+      ],
+      resistance: ResistanceType.STATIC,
+    } as RunRecord;
+    expect(reachTimes(run, [100, 300, 500])).toEqual([900, 1500, null]);
+  });
+});
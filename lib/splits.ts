@@ -0,0 +1,174 @@
+import { Achievement, depthAchievementMeters } from '../data/achievements';
+import { RunRecord, SplitRecord } from '../types';
+import { DataError } from './dataError';
+
+// Milestones for splits (in cm)
+export const DEFAULT_MILESTONES_CM = [100, 500, 1000, 5000, 10000]; // 1m, 5m, 10m, 50m, 100m
+// スプリットが多すぎると HUD も物理ループも重くなるので上限を設ける
+export const MAX_SPLITS = 500;
+const INTERVAL_MAX_M = 10000;
+
+export type SplitSetKind = 'default' | 'interval' | 'achievements' | 'custom';
+
+export interface SplitDefinition {
+  kind: SplitSetKind;
+  intervalM: number; // kind === 'interval'
+  customM: number[]; // kind === 'custom'
+}
+
+export const DEFAULT_SPLIT_DEFINITION: SplitDefinition = {
+  kind: 'default',
+  intervalM: 100,
+  customM: [1, 10, 100, 1000],
+};
+
+const SPLIT_FILE_FORMAT = 'immovable-splits';
+const SPLIT_FILE_VERSION = 1;
+
+const normalizeCm = (values: number[]): number[] =>
+  Array.from(new Set(values.filter((v) => Number.isFinite(v) && v > 0).map((v) => Math.round(v))))
+    .sort((a, b) => a - b)
+    .slice(0, MAX_SPLITS);
+
+/** 称号パックの深度称号の深さ (cm, 昇順) */
+export const achievementMilestonesCm = (achievements: Achievement[]): number[] =>
+  normalizeCm(achievements.map((achievement) => (depthAchievementMeters(achievement) ?? 0) * 100));
+
+/** スプリット定義から実際のマイルストーン (cm, 昇順) を求める。'achievements' は選択中の称号パックに従う */
+export const resolveMilestones = (definition: SplitDefinition, achievements: Achievement[]): number[] => {
+  switch (definition.kind) {
+    case 'interval': {
+      const step = definition.intervalM;
+      if (!Number.isFinite(step) || step <= 0) return DEFAULT_MILESTONES_CM;
+      const count = Math.min(MAX_SPLITS, Math.floor(INTERVAL_MAX_M / step));
+      return normalizeCm(Array.from({ length: count }, (_, i) => (i + 1) * step * 100));
+    }
+    case 'achievements':
+      return achievementMilestonesCm(achievements);
+    case 'custom': {
+      const resolved = normalizeCm(definition.customM.map((m) => m * 100));
+      return resolved.length > 0 ? resolved : DEFAULT_MILESTONES_CM;
+    }
+    default:
+      return DEFAULT_MILESTONES_CM;
+  }
+};
+
+/** "1, 5, 10.5" のような入力をメートルの配列にする */
+export const parseMetersList = (text: string): number[] =>
+  text
+    .split(/[\s,、]+/)
+    .map((token) => parseFloat(token))
+    .filter((v) => Number.isFinite(v) && v > 0);
+
+// ===== Sum of best / best possible time =====
+
+/**
+ * ランが各マイルストーンに初めて到達した時刻 (ms)。
+ * スプリットがあればそれを、なければ時系列から補間する（到達していなければ null）。
+ * 「初めて到達した位置」は深さに対して単調なので、サンプルは1回走査するだけでよい。
+ */
+export const reachTimes = (run: RunRecord, milestonesCm: number[]): (number | null)[] => {
+  const splitTimes = new Map(run.splits.map((split): [number, number] => [split.distanceCm, split.timeMs]));
+  const samples = run.samples ?? [];
+  let i = 0;
+  return milestonesCm.map((cm) => {
+    const splitTime = splitTimes.get(cm);
+    if (splitTime !== undefined) return splitTime;
+    while (i < samples.length && samples[i].depthCm < cm) i += 1;
+    if (i >= samples.length) return null;
+    const a = samples[i - 1];
+    const b = samples[i];
+    if (!a || b.depthCm === a.depthCm) return b.t;
+    return a.t + ((b.t - a.t) * (cm - a.depthCm)) / (b.depthCm - a.depthCm);
+  });
+};
+
+/**
+ * 各区間（前のマイルストーン → このマイルストーン）の過去最速タイム。
+ * どのランも通過していない区間は null。
+ */
+export const bestSegments = (milestonesCm: number[], runs: RunRecord[]): (number | null)[] => {
+  const best: (number | null)[] = milestonesCm.map(() => null);
+  runs.forEach((run) => {
+    const times = reachTimes(run, milestonesCm);
+    times.forEach((end, i) => {
+      const start = i === 0 ? 0 : times[i - 1];
+      if (end === null || start === null) return;
+      const segment = end - start;
+      const current = best[i];
+      if (segment >= 0 && (current === null || segment < current)) best[i] = segment;
+    });
+  });
+  return best;
+};
+
+const sumOrNull = (values: (number | null)[]): number | null =>
+  values.some((v) => v === null) ? null : values.reduce<number>((sum, v) => sum + (v ?? 0), 0);
+
+/** 全区間のベストの合計（理論上の最速タイム） */
+export const sumOfBest = (segments: (number | null)[]): number | null =>
+  segments.length === 0 ? null : sumOrNull(segments);
+
+/**
+ * 今のランの最後のスプリット + 残り区間のベスト = 最深マイルストーンに届く最速見込み
+ */
+export const bestPossibleTime = (
+  milestonesCm: number[],
+  segments: (number | null)[],
+  splits: SplitRecord[]
+): number | null => {
+  if (milestonesCm.length === 0) return null;
+  let lastIndex = -1;
+  let lastTime = 0;
+  milestonesCm.forEach((cm, i) => {
+    const split = splits.find((s) => s.distanceCm === cm);
+    if (split && i > lastIndex) {
+      lastIndex = i;
+      lastTime = split.timeMs;
+    }
+  });
+  const remaining = sumOrNull(segments.slice(lastIndex + 1));
+  return remaining === null ? null : lastTime + remaining;
+};
+
+// ===== Export / Import =====
+
+export const serializeSplitDefinition = (definition: SplitDefinition, achievements: Achievement[]): string =>
+  JSON.stringify(
+    {
+      format: SPLIT_FILE_FORMAT,
+      version: SPLIT_FILE_VERSION,
+      definition,
+      milestonesCm: resolveMilestones(definition, achievements),
+    },
+    null,
+    2
+  );
+
+export const validateSplitDefinition = (value: unknown): SplitDefinition | null => {
+  if (!value || typeof value !== 'object') return null;
+  const def = value as Partial<SplitDefinition>;
+  if (!['default', 'interval', 'achievements', 'custom'].includes(def.kind as string)) return null;
+  const intervalM = Number.isFinite(def.intervalM) && (def.intervalM as number) > 0
+    ? (def.intervalM as number)
+    : DEFAULT_SPLIT_DEFINITION.intervalM;
+  const customM = Array.isArray(def.customM)
+    ? def.customM.filter((v): v is number => typeof v === 'number' && Number.isFinite(v) && v > 0)
+    : DEFAULT_SPLIT_DEFINITION.customM;
+  return { kind: def.kind as SplitSetKind, intervalM, customM };
+};
+
+export const parseSplitDefinitionFile = (text: string): SplitDefinition => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new DataError('invalidJson', 'Split file is not valid JSON');
+  }
+  if (!raw || raw.format !== SPLIT_FILE_FORMAT) throw new DataError('wrongFormat', 'Not a split definition file');
+  if (raw.version !== SPLIT_FILE_VERSION) throw new DataError('unsupportedVersion', `Unsupported split file version: ${String(raw.version)}`);
+  const definition = validateSplitDefinition(raw.definition);
+  if (!definition) throw new DataError('invalid', 'Split definition is invalid');
+  return definition;
+};
@@ -0,0 +1,502 @@
+import {
+  GAME_MODES,
+  GameMode,
+  LifetimeStats,
+  PxPerCm,
+  ResistanceType,
+  RunStatSnapshot,
+  SplitRecord,
+  UnlockRecord,
+} from '../types';
+import { EMPTY_LIFETIME, EMPTY_RUN_STATS, RECENT_RUNS_LIMIT } from './achievements';
+import { DEFAULT_SPLIT_DEFINITION, SplitDefinition, validateSplitDefinition } from './splits';
+import { BUILTIN_PACK_ID } from './achievementPacks';
+import { isLocaleSetting, LocaleSetting } from './i18n';
+import { isUnitSystem, UnitSystem } from './format';
+import { CalibrationProfile, DisplaySignature, findProfile, LEGACY_PROFILE_KEY } from './calibrationProfiles';
+import { InputScale } from './input';
+import { DailyResult, isDateKey } from './daily';
+import { ModeBest, TIMED_MODES } from './timedModes';
+
+// localStorage の保存データは1つのバージョン付きドキュメントにまとめる。
+// 形式を変えるときは SAVE_SCHEMA_VERSION を上げて MIGRATIONS に変換を足すこと。
+export const SAVE_SCHEMA_VERSION = 8;
+const SAVE_KEY = 'immovable_save';
+// 読めなかったデータは消さずに退避しておく（手動で救出できるように）
+const CORRUPT_BACKUP_KEY = 'immovable_save_corrupt';
+
+// v1: 機能ごとにばらばらだった旧キー
+const LEGACY_KEYS = {
+  highScore: 'immovable_highscore_px',
+  inertiaEnabled: 'immovable_inertia_enabled',
+  calibratedPxPerCm: 'immovable_calibrated_px_per_cm',
+  unlockedTitles: 'immovable_unlocked_titles_v1',
+  runState: 'immovable_run_state_v1',
+  resistance: 'immovable_resistance_type',
+  ghostEnabled: 'immovable_ghost_enabled',
+  splitDefinition: 'immovable_split_definition',
+} as const;
+
+export interface PersistedRunState {
+  depth: number;
+  velocity: number;
+  runTime: number;
+  maxDepth?: number;
+  splits: SplitRecord[];
+  passedMilestones: number[];
+  aveSpeed: number;
+  maxSpeed: number;
+  totalDistance: number;
+  maxAccel: number;
+  currentSpeedMps: number;
+  scrollCount: number;
+  unlockedTitles: string[];
+  savedAt: number;
+}
+
+export interface SaveSettings {
+  inertiaEnabled: boolean;
+  resistance: ResistanceType;
+  ghostEnabled: boolean;
+  calibrationProfiles: CalibrationProfile[];
+  splitDefinition: SplitDefinition;
+  achievementPackId: string;
+  locale: LocaleSetting;
+  unitSystem: UnitSystem;
+  gameMode: GameMode;
+}
+
+export interface SaveData {
+  highScorePx: number;
+  settings: SaveSettings;
+  unlocks: UnlockRecord[];
+  runState: PersistedRunState | null;
+  lifetime: LifetimeStats;
+  daily: DailyResult[]; // 日付順
+  modeBests: ModeBest[];
+}
+
+export interface LoadResult {
+  data: SaveData;
+  migratedFrom: number | null; // 旧バージョンから変換した場合、その版
+  recovered: boolean; // 壊れたデータを捨てて読み込んだ場合 true
+}
+
+export type StorageErrorKind = 'quota' | 'unavailable';
+
+export interface StorageError {
+  kind: StorageErrorKind;
+  message: string; // ログ用。画面には kind に対応する訳文を出す
+}
+
+export const DEFAULT_SETTINGS: SaveSettings = {
+  inertiaEnabled: true,
+  resistance: ResistanceType.STATIC,
+  ghostEnabled: false,
+  calibrationProfiles: [],
+  splitDefinition: DEFAULT_SPLIT_DEFINITION,
+  achievementPackId: BUILTIN_PACK_ID,
+  locale: 'auto',
+  unitSystem: 'metric',
+  gameMode: 'free',
+};
+
+const createDefaultSave = (): SaveData => ({
+  highScorePx: 0,
+  settings: { ...DEFAULT_SETTINGS },
+  unlocks: [],
+  runState: null,
+  lifetime: EMPTY_LIFETIME,
+  daily: [],
+  modeBests: [],
+});
+
+type RawDocument = Record<string, unknown>;
+
+// ===== Migrations =====
+
+const parseJsonOrNull = (text: unknown): unknown => {
+  if (typeof text !== 'string') return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const migrateCalibration = (settings: unknown): unknown => {
+  if (!settings || typeof settings !== 'object') return settings;
+  const { calibratedPxPerCm } = settings as RawDocument;
+  return {
+    ...settings,
+    calibratedPxPerCm:
+      typeof calibratedPxPerCm === 'number' ? { x: calibratedPxPerCm, y: calibratedPxPerCm } : calibratedPxPerCm,
+  };
+};
+
+const migrateCalibrationProfiles = (settings: unknown): unknown => {
+  if (!settings || typeof settings !== 'object') return settings;
+  const { calibratedPxPerCm, ...rest } = settings as RawDocument;
+  return { ...rest, calibrationProfiles: legacyProfiles(sanitizePxPerCm(calibratedPxPerCm)) };
+};
+
+/**
+ * MIGRATIONS[n] は版 n のドキュメントを版 n+1 に変換する。
+ * v1 は旧キーの生文字列をそのまま詰めたもの（readLegacyDocument を参照）。
+ */
+
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  1: (doc) => ({
+    schemaVersion: 2,
+    highScorePx: parseInt(String(doc.highScore ?? ''), 10),
+    settings: {
+      inertiaEnabled: doc.inertiaEnabled === 'true' ? true : doc.inertiaEnabled === 'false' ? false : undefined,
+      resistance: doc.resistance,
+      ghostEnabled: doc.ghostEnabled === 'true',
+      calibratedPxPerCm: parseFloat(String(doc.calibratedPxPerCm ?? '')),
+      splitDefinition: parseJsonOrNull(doc.splitDefinition),
+    },
+    unlockedTitles: parseJsonOrNull(doc.unlockedTitles),
+    runState: parseJsonOrNull(doc.runState),
+  }),
+  // v3: 称号判定用の累計記録を追加
+  2: (doc) => ({ ...doc, schemaVersion: 3, lifetime: EMPTY_LIFETIME }),
+  // v4: 称号をキー文字列から解放記録（日時・ラン・モード）に変更
+  3: ({ unlockedTitles, ...doc }) => ({ ...doc, schemaVersion: 4, unlocks: unlockedTitles }),
+  // v5: 補正値を縦横別に
+  4: (doc) => ({ ...doc, schemaVersion: 5, settings: migrateCalibration(doc.settings) }),
+  // v6: 補正値を画面ごとのプロファイルに
+  5: (doc) => ({ ...doc, schemaVersion: 6, settings: migrateCalibrationProfiles(doc.settings) }),
+  // v7: デイリーチャレンジの成績を追加
+  6: (doc) => ({ ...doc, schemaVersion: 7, daily: [] }),
+  // v8: 時間制モードの自己ベストを追加
+  7: (doc) => ({ ...doc, schemaVersion: 8, modeBests: [] }),
+};
+
+const readLegacyDocument = (): RawDocument | null => {
+  const doc: RawDocument = { schemaVersion: 1 };
+  let found = false;
+  Object.entries(LEGACY_KEYS).forEach(([field, key]) => {
+    const value = localStorage.getItem(key);
+    doc[field] = value;
+    if (value !== null) found = true;
+  });
+  return found ? doc : null;
+};
+
+const removeLegacyKeys = () => {
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+};
+
+// ===== Validation (field by field, so one bad value does not wipe the save) =====
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPositiveNumber = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+// v4 以前の1つの数値は縦横同じ値として受け付ける
+const sanitizePxPerCm = (value: unknown): PxPerCm | null => {
+  if (isPositiveNumber(value)) return { x: value, y: value };
+  if (!value || typeof value !== 'object') return null;
+  const { x, y } = value as Partial<Record<keyof PxPerCm, unknown>>;
+  return isPositiveNumber(x) && isPositiveNumber(y) ? { x, y } : null;
+};
+
+const legacyProfiles = (pxPerCm: PxPerCm | null): CalibrationProfile[] =>
+  pxPerCm ? [{ key: LEGACY_PROFILE_KEY, signature: null, pxPerCm, inputScale: null, updatedAt: 0 }] : [];
+
+const sanitizeInputScale = (value: unknown): InputScale | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Record<keyof InputScale, unknown>>;
+  return isPositiveNumber(raw.wheel) && isPositiveNumber(raw.touch) ? { wheel: raw.wheel, touch: raw.touch } : null;
+};
+
+const sanitizeSignature = (value: unknown): DisplaySignature | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Record<keyof DisplaySignature, unknown>>;
+  if (!isPositiveNumber(raw.dpr) || !isFiniteNumber(raw.screenWidth) || !isFiniteNumber(raw.screenHeight)) return null;
+  return {
+    dpr: raw.dpr,
+    screenWidth: raw.screenWidth,
+    screenHeight: raw.screenHeight,
+    pointer: raw.pointer === 'coarse' || raw.pointer === 'fine' ? raw.pointer : 'none',
+  };
+};
+
+// バックアップは版を問わずここを通るので、v5 以前の calibratedPxPerCm も受け付ける
+const sanitizeCalibrationProfiles = (raw: Record<string, unknown>): CalibrationProfile[] => {
+  if (!Array.isArray(raw.calibrationProfiles)) return legacyProfiles(sanitizePxPerCm(raw.calibratedPxPerCm));
+  const profiles: CalibrationProfile[] = [];
+  raw.calibrationProfiles.forEach((value: unknown) => {
+    if (!value || typeof value !== 'object') return;
+    const profile = value as Partial<Record<keyof CalibrationProfile, unknown>>;
+    const pxPerCm = sanitizePxPerCm(profile.pxPerCm);
+    const inputScale = sanitizeInputScale(profile.inputScale);
+    if (typeof profile.key !== 'string' || (!pxPerCm && !inputScale) || findProfile(profiles, profile.key)) return;
+    profiles.push({
+      key: profile.key,
+      signature: sanitizeSignature(profile.signature),
+      pxPerCm,
+      inputScale,
+      updatedAt: isFiniteNumber(profile.updatedAt) ? profile.updatedAt : 0,
+    });
+  });
+  return profiles;
+};
+
+const sanitizeSettings = (value: unknown): SaveSettings => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof SaveSettings, unknown>>;
+  return {
+    inertiaEnabled:
+      typeof raw.inertiaEnabled === 'boolean' ? raw.inertiaEnabled : DEFAULT_SETTINGS.inertiaEnabled,
+    resistance: Object.values(ResistanceType).includes(raw.resistance as ResistanceType)
+      ? (raw.resistance as ResistanceType)
+      : DEFAULT_SETTINGS.resistance,
+    ghostEnabled: typeof raw.ghostEnabled === 'boolean' ? raw.ghostEnabled : DEFAULT_SETTINGS.ghostEnabled,
+    calibrationProfiles: sanitizeCalibrationProfiles(raw),
+    splitDefinition: validateSplitDefinition(raw.splitDefinition) ?? DEFAULT_SETTINGS.splitDefinition,
+    // パックが消えていた場合は読み込み時に組み込みパックへ戻す
+    achievementPackId:
+      typeof raw.achievementPackId === 'string' && raw.achievementPackId.length > 0
+        ? raw.achievementPackId
+        : DEFAULT_SETTINGS.achievementPackId,
+    locale: isLocaleSetting(raw.locale) ? raw.locale : DEFAULT_SETTINGS.locale,
+    unitSystem: isUnitSystem(raw.unitSystem) ? raw.unitSystem : DEFAULT_SETTINGS.unitSystem,
+    gameMode: GAME_MODES.includes(raw.gameMode as GameMode) ? (raw.gameMode as GameMode) : DEFAULT_SETTINGS.gameMode,
+  };
+};
+
+const sanitizeRunState = (value: unknown): PersistedRunState | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<PersistedRunState>;
+  if (!isFiniteNumber(raw.depth) || raw.depth <= 0) return null;
+  const nonNegative = (v: unknown) => (isFiniteNumber(v) ? Math.max(0, v) : 0);
+  return {
+    depth: raw.depth,
+    velocity: isFiniteNumber(raw.velocity) ? raw.velocity : 0,
+    runTime: nonNegative(raw.runTime),
+    maxDepth: nonNegative(raw.maxDepth),
+    splits: Array.isArray(raw.splits)
+      ? raw.splits.filter((s) => s && isFiniteNumber(s.distanceCm) && isFiniteNumber(s.timeMs))
+      : [],
+    passedMilestones: Array.isArray(raw.passedMilestones) ? raw.passedMilestones.filter(isFiniteNumber) : [],
+    aveSpeed: nonNegative(raw.aveSpeed),
+    maxSpeed: nonNegative(raw.maxSpeed),
+    totalDistance: nonNegative(raw.totalDistance),
+    maxAccel: nonNegative(raw.maxAccel),
+    currentSpeedMps: nonNegative(raw.currentSpeedMps),
+    scrollCount: nonNegative(raw.scrollCount),
+    unlockedTitles: Array.isArray(raw.unlockedTitles)
+      ? raw.unlockedTitles.filter((key): key is string => typeof key === 'string')
+      : [],
+    savedAt: nonNegative(raw.savedAt),
+  };
+};
+
+const sanitizeLifetime = (value: unknown): LifetimeStats => {
+  if (!value || typeof value !== 'object') return EMPTY_LIFETIME;
+  const raw = value as Partial<Record<keyof LifetimeStats, unknown>>;
+  const nonNegative = (v: unknown) => (isFiniteNumber(v) ? Math.max(0, v) : 0);
+  const best = (raw.best && typeof raw.best === 'object' ? raw.best : {}) as Partial<Record<keyof RunStatSnapshot, unknown>>;
+  return {
+    distanceM: nonNegative(raw.distanceM),
+    runCount: nonNegative(raw.runCount),
+    recentMaxDepthsM: Array.isArray(raw.recentMaxDepthsM)
+      ? raw.recentMaxDepthsM.filter(isFiniteNumber).slice(0, RECENT_RUNS_LIMIT)
+      : [],
+    best: (Object.keys(EMPTY_RUN_STATS) as (keyof RunStatSnapshot)[]).reduce<RunStatSnapshot>(
+      (acc, key) => ({ ...acc, [key]: nonNegative(best[key]) }),
+      EMPTY_RUN_STATS
+    ),
+  };
+};
+
+// 旧形式（キー文字列）も受け付け、解放日時不明の記録として扱う
+const sanitizeUnlocks = (value: unknown): UnlockRecord[] => {
+  if (!Array.isArray(value)) return [];
+  const byKey = new Map<string, UnlockRecord>();
+  value.forEach((item: unknown) => {
+    if (typeof item === 'string') {
+      if (!byKey.has(item)) byKey.set(item, { key: item, unlockedAt: 0, runTimeMs: null, mode: null });
+      return;
+    }
+    if (!item || typeof item !== 'object') return;
+    const raw = item as Partial<Record<keyof UnlockRecord, unknown>>;
+    if (typeof raw.key !== 'string' || byKey.has(raw.key)) return;
+    byKey.set(raw.key, {
+      key: raw.key,
+      unlockedAt: isFiniteNumber(raw.unlockedAt) && raw.unlockedAt > 0 ? raw.unlockedAt : 0,
+      runTimeMs: isFiniteNumber(raw.runTimeMs) && raw.runTimeMs >= 0 ? raw.runTimeMs : null,
+      mode: typeof raw.mode === 'string' ? raw.mode : null,
+    });
+  });
+  return Array.from(byKey.values());
+};
+
+const sanitizeDaily = (value: unknown): DailyResult[] => {
+  if (!Array.isArray(value)) return [];
+  const byDate = new Map<string, DailyResult>();
+  value.forEach((item: unknown) => {
+    if (!item || typeof item !== 'object') return;
+    const raw = item as Partial<Record<keyof DailyResult, unknown>>;
+    if (!isDateKey(raw.dateKey) || byDate.has(raw.dateKey)) return;
+    byDate.set(raw.dateKey, {
+      dateKey: raw.dateKey,
+      bestTimeMs: isFiniteNumber(raw.bestTimeMs) && raw.bestTimeMs >= 0 ? raw.bestTimeMs : null,
+      attempts: isFiniteNumber(raw.attempts) ? Math.max(0, Math.floor(raw.attempts)) : 0,
+    });
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+};
+
+const sanitizeModeBests = (value: unknown): ModeBest[] => {
+  if (!Array.isArray(value)) return [];
+  const byKey = new Map<string, ModeBest>();
+  value.forEach((item: unknown) => {
+    if (!item || typeof item !== 'object') return;
+    const raw = item as Partial<Record<keyof ModeBest, unknown>>;
+    if (typeof raw.modeKey !== 'string' || byKey.has(raw.modeKey)) return;
+    if (!TIMED_MODES.includes(raw.mode as ModeBest['mode']) || !isFiniteNumber(raw.score) || raw.score < 0) return;
+    byKey.set(raw.modeKey, {
+      modeKey: raw.modeKey,
+      mode: raw.mode as ModeBest['mode'],
+      score: raw.score,
+      achievedAt: isFiniteNumber(raw.achievedAt) && raw.achievedAt > 0 ? raw.achievedAt : 0,
+    });
+  });
+  return Array.from(byKey.values());
+};
+
+const sanitizeSave = (doc: RawDocument): SaveData => ({
+  highScorePx: isFiniteNumber(doc.highScorePx) && doc.highScorePx > 0 ? doc.highScorePx : 0,
+  settings: sanitizeSettings(doc.settings),
+  unlocks: sanitizeUnlocks(doc.unlocks ?? doc.unlockedTitles),
+  runState: sanitizeRunState(doc.runState),
+  lifetime: sanitizeLifetime(doc.lifetime),
+  daily: sanitizeDaily(doc.daily),
+  modeBests: sanitizeModeBests(doc.modeBests),
+});
+
+// ===== Write / error reporting =====
+
+const errorListeners = new Set<(error: StorageError) => void>();
+
+/** 書き込み失敗（容量超過など）を購読する。戻り値で解除 */
+export const onStorageError = (listener: (error: StorageError) => void): (() => void) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+const isQuotaError = (e: unknown): boolean =>
+  e instanceof DOMException &&
+  (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED' || e.code === 22);
+
+const reportError = (e: unknown) => {
+  const error: StorageError = isQuotaError(e)
+    ? { kind: 'quota', message: 'Storage quota exceeded' }
+    : { kind: 'unavailable', message: 'Storage is unavailable' };
+  errorListeners.forEach((listener) => listener(error));
+};
+
+const writeRaw = (key: string, value: string): boolean => {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch (e) {
+    reportError(e);
+    return false;
+  }
+};
+
+let cache: SaveData | null = null;
+
+const writeSave = (data: SaveData): boolean => {
+  cache = data;
+  return writeRaw(SAVE_KEY, JSON.stringify({ schemaVersion: SAVE_SCHEMA_VERSION, ...data }));
+};
+
+// ===== Public API =====
+
+/**
+ * 保存データを読み込む。旧形式なら変換して書き戻し、壊れていれば退避して既定値で始める。
+ */
+export const loadSave = (): LoadResult => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(SAVE_KEY);
+  } catch {
+    cache = createDefaultSave();
+    return { data: cache, migratedFrom: null, recovered: false };
+  }
+
+  let doc: RawDocument | null = null;
+  let recovered = false;
+  if (raw !== null) {
+    const parsed = parseJsonOrNull(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      doc = parsed as RawDocument;
+    } else {
+      writeRaw(CORRUPT_BACKUP_KEY, raw);
+      recovered = true;
+    }
+  } else {
+    doc = readLegacyDocument();
+  }
+
+  if (!doc) {
+    const data = createDefaultSave();
+    if (recovered) writeSave(data);
+    cache = data;
+    return { data, migratedFrom: null, recovered };
+  }
+
+  const fromVersion = isFiniteNumber(doc.schemaVersion) ? doc.schemaVersion : 1;
+  let version = fromVersion;
+  while (version < SAVE_SCHEMA_VERSION && MIGRATIONS[version]) {
+    doc = MIGRATIONS[version](doc);
+    version += 1;
+  }
+  // 新しいバージョンのアプリで保存されたデータは、読める範囲だけ使う（上書き前に退避）
+  if (version > SAVE_SCHEMA_VERSION && raw !== null) {
+    writeRaw(CORRUPT_BACKUP_KEY, raw);
+  }
+
+  const data = sanitizeSave(doc);
+  const migrated = fromVersion !== SAVE_SCHEMA_VERSION;
+  if (migrated || recovered) {
+    if (writeSave(data) && fromVersion === 1) removeLegacyKeys();
+  }
+  cache = data;
+  return { data, migratedFrom: migrated ? fromVersion : null, recovered };
+};
+
+export const getSave = (): SaveData => cache ?? loadSave().data;
+
+/** 保存データを更新して書き込む。失敗した場合は onStorageError に通知され false を返す */
+export const updateSave = (update: (data: SaveData) => SaveData): boolean => writeSave(update(getSave()));
+
+export const updateSettings = (patch: Partial<SaveSettings>): boolean =>
+  updateSave((data) => ({ ...data, settings: { ...data.settings, ...patch } }));
+
+export const saveHighScore = (highScorePx: number): boolean => updateSave((data) => ({ ...data, highScorePx }));
+
+export const saveUnlocks = (unlocks: Iterable<UnlockRecord>): boolean =>
+  updateSave((data) => ({ ...data, unlocks: Array.from(unlocks) }));
+
+export const saveRunState = (runState: PersistedRunState | null): boolean =>
+  updateSave((data) => ({ ...data, runState }));
+
+/** 外部（バックアップなど）から来た保存データを検証・補正する */
+export const validateSaveData = (value: unknown): SaveData =>
+  sanitizeSave(value && typeof value === 'object' ? (value as RawDocument) : {});
+
+export const replaceSave = (data: SaveData): boolean => writeSave(data);
+
+export const saveLifetime = (lifetime: LifetimeStats): boolean => updateSave((data) => ({ ...data, lifetime }));
+
+export const saveDaily = (daily: DailyResult[]): boolean => updateSave((data) => ({ ...data, daily }));
+
+export const saveModeBests = (modeBests: ModeBest[]): boolean => updateSave((data) => ({ ...data, modeBests }));
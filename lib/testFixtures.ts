@@ -0,0 +1,72 @@
+import { ResistanceType, RunRecord, SimulationState } from '../types';
+import { createInitialState, FIXED_STEP_MS, NO_INPUT, SimulationOptions, step } from './simulation';
+
+// テスト用のラン（*.test.ts からだけ使う）
+
+export const TEST_PX_TO_CM = 1 / 38;
+
+export const TEST_OPTIONS: SimulationOptions = {
+  inertiaEnabled: true,
+  pxToCm: TEST_PX_TO_CM,
+  milestonesCm: [50, 100, 200, 300, 1000],
+  resistance: ResistanceType.STATIC,
+};
+
+/** 慣性ありで 10 ステップごとに弾いて潜ったランを step だけで作る（着地前の状態） */
+export const simulateRun = (steps = 120): SimulationState => {
+  let state = createInitialState();
+  for (let i = 0; i < steps; i++) {
+    state = step(state, i % 10 === 0 ? { impulse: 60, directDelta: 0 } : NO_INPUT, FIXED_STEP_MS, TEST_OPTIONS);
+  }
+  return state;
+};
+
+/** 一度だけ弾いた直後の状態（離陸したステップの移動量は runTime に入らない） */
+export const simulateFlick = (): SimulationState => {
+  const state = step(createInitialState(), { impulse: 30, directDelta: 0 }, FIXED_STEP_MS, TEST_OPTIONS);
+  return step(state, NO_INPUT, FIXED_STEP_MS, TEST_OPTIONS);
+};
+
+/** シミュレーションの状態を、App が履歴に保存するのと同じ形のランにする */
+export const recordOf = (state: SimulationState, overrides: Partial<RunRecord> = {}): RunRecord => ({
+  id: 'run-1',
+  finishedAt: 1_700_000_000_000,
+  maxDepthCm: state.maxDepth * TEST_PX_TO_CM,
+  runTime: state.runTime,
+  splits: state.splits,
+  aveSpeed: state.aveSpeed,
+  maxSpeed: state.maxSpeed,
+  totalDistance: state.totalDistance,
+  maxAccel: state.maxAccel,
+  scrollCount: state.scrollCount,
+  resistance: TEST_OPTIONS.resistance,
+  inertiaEnabled: TEST_OPTIONS.inertiaEnabled,
+  pxPerCm: 1 / TEST_PX_TO_CM,
+  calibrated: false,
+  pinned: false,
+  samples: [
+    { t: 0, depthCm: 0 },
+    { t: state.runTime, depthCm: state.virtualDepth * TEST_PX_TO_CM },
+  ],
+  ...overrides,
+});
+
+/** 値を直接指定するラン（履歴の並べ替え・自己ベストの選び方など、物理に関係ないテスト用） */
+export const runOf = (id: string, maxDepthCm: number, overrides: Partial<RunRecord> = {}): RunRecord => ({
+  id,
+  finishedAt: 1_700_000_000_000,
+  maxDepthCm,
+  runTime: 10_000,
+  splits: [],
+  aveSpeed: 1,
+  maxSpeed: 2,
+  totalDistance: 10,
+  maxAccel: 3,
+  scrollCount: 5,
+  resistance: ResistanceType.STATIC,
+  inertiaEnabled: true,
+  pxPerCm: 38,
+  calibrated: false,
+  pinned: false,
+  ...overrides,
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationState } from '../types';
+import { createInitialState } from './simulation';
+import {
+  ENDURANCE_BAND_CM,
+  isBetterScore,
+  mergeModeBests,
+  recordModeBest,
+  SPRINT_LIMIT_MS,
+  TARGET_RACE_CM,
+  timedModeLandedScore,
+  timedModeOutcome,
+} from './timedModes';
+
+const PX_TO_CM = 0.5;
+
+const stateOf = (overrides: Partial<SimulationState>): SimulationState => ({ ...createInitialState(), ...overrides });
+
+describe('isBetterScore', () => {
+  it('prefers deeper sprints and longer endurance runs', () => {
+    expect(isBetterScore('sprint', 300, 200)).toBe(true);
+    expect(isBetterScore('sprint', 200, 300)).toBe(false);
+    expect(isBetterScore('endurance', 20_000, 10_000)).toBe(true);
+  });
+
+  it('prefers faster target races', () => {
+    expect(isBetterScore('target', 40_000, 50_000)).toBe(true);
+    expect(isBetterScore('target', 50_000, 40_000)).toBe(false);
+  });
+
+  it('does not count a tie as a new best', () => {
+    expect(isBetterScore('sprint', 300, 300)).toBe(false);
+    expect(isBetterScore('target', 40_000, 40_000)).toBe(false);
+  });
+
+  it('takes any score when there is no best yet', () => {
+    expect(isBetterScore('target', 99_000, null)).toBe(true);
+  });
+});
+
+describe('timedModeOutcome', () => {
+  it('ends a sprint at the time limit with the deepest point', () => {
+    expect(timedModeOutcome('sprint', stateOf({ runTime: SPRINT_LIMIT_MS - 1, maxDepth: 800 }), PX_TO_CM)).toBeNull();
+    expect(timedModeOutcome('sprint', stateOf({ runTime: SPRINT_LIMIT_MS, maxDepth: 800 }), PX_TO_CM)).toEqual({
+      score: 400,
+    });
+  });
+
+  it('ends endurance when the depth rises above the band', () => {
+    const splits = [{ distanceCm: ENDURANCE_BAND_CM, timeMs: 5_000 }];
+    const below = stateOf({ splits, runTime: 12_000, virtualDepth: ENDURANCE_BAND_CM / PX_TO_CM });
+    expect(timedModeOutcome('endurance', below, PX_TO_CM)).toBeNull();
+    const above = { ...below, virtualDepth: ENDURANCE_BAND_CM / PX_TO_CM - 1 };
+    expect(timedModeOutcome('endurance', above, PX_TO_CM)).toEqual({ score: 7_000 });
+  });
+
+  it('does not end endurance before the band is reached', () => {
+    expect(timedModeOutcome('endurance', stateOf({ runTime: 12_000 }), PX_TO_CM)).toBeNull();
+  });
+
+  it('times the target race from GO', () => {
+    const state = stateOf({ splits: [{ distanceCm: TARGET_RACE_CM, timeMs: 30_000 }], runTime: 30_000 });
+    expect(timedModeOutcome('target', state, PX_TO_CM)).toEqual({ score: 30_000 });
+    expect(timedModeOutcome('target', state, PX_TO_CM, 2_500)).toEqual({ score: 32_500 });
+    expect(timedModeOutcome('target', stateOf({ runTime: 30_000 }), PX_TO_CM, 2_500)).toBeNull();
+  });
+});
+
+describe('timedModeLandedScore', () => {
+  it('scores a sprint that landed early by its deepest point', () => {
+    expect(timedModeLandedScore('sprint', stateOf({ runTime: 10_000, maxDepth: 600 }), PX_TO_CM)).toBe(300);
+  });
+
+  it('scores endurance by the time held in the band', () => {
+    const finished = stateOf({ splits: [{ distanceCm: ENDURANCE_BAND_CM, timeMs: 4_000 }], runTime: 9_000 });
+    expect(timedModeLandedScore('endurance', finished, PX_TO_CM)).toBe(5_000);
+    expect(timedModeLandedScore('endurance', stateOf({ runTime: 9_000 }), PX_TO_CM)).toBeNull();
+  });
+
+  it('gives no score to a target race that landed short', () => {
+    expect(timedModeLandedScore('target', stateOf({ runTime: 9_000 }), PX_TO_CM, 1_000)).toBeNull();
+  });
+});
+
+describe('recordModeBest', () => {
+  it('keeps the faster target race', () => {
+    const first = recordModeBest([], 'STATIC/INERTIA/TARGET', 'target', 50_000, 1);
+    const faster = recordModeBest(first, 'STATIC/INERTIA/TARGET', 'target', 40_000, 2);
+    expect(faster).toEqual([{ modeKey: 'STATIC/INERTIA/TARGET', mode: 'target', score: 40_000, achievedAt: 2 }]);
+    expect(recordModeBest(faster, 'STATIC/INERTIA/TARGET', 'target', 45_000, 3)).toBe(faster);
+  });
+
+  it('merges backups by the mode direction', () => {
+    const current = [
+      { modeKey: 'STATIC/INERTIA/SPRINT', mode: 'sprint' as const, score: 300, achievedAt: 1 },
+      { modeKey: 'STATIC/INERTIA/TARGET', mode: 'target' as const, score: 40_000, achievedAt: 1 },
+    ];
+    const incoming = [
+      { modeKey: 'STATIC/INERTIA/SPRINT', mode: 'sprint' as const, score: 500, achievedAt: 2 },
+      { modeKey: 'STATIC/INERTIA/TARGET', mode: 'target' as const, score: 60_000, achievedAt: 2 },
+    ];
+    expect(mergeModeBests(current, incoming).map((best) => [best.modeKey, best.score])).toEqual(
+      expect.arrayContaining([
+        ['STATIC/INERTIA/SPRINT', 500],
+        ['STATIC/INERTIA/TARGET', 40_000],
+      ])
+    );
+  });
+});
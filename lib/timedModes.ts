@@ -0,0 +1,117 @@
+import { GameMode, SimulationState, TimedMode } from '../types';
+import { SimulationOptions } from './simulation';
+
+// 時間制のモード（スプリント・エンデュランス・ターゲットレース）のルールと判定
+
+export const TIMED_MODES: TimedMode[] = ['sprint', 'endurance', 'target'];
+
+export const COUNTDOWN_SECONDS = 3;
+
+export const SPRINT_LIMIT_MS = 60 * 1000;
+// エンデュランス: この深さより下に留まる。引き戻しは常に効き、1秒ごとに強くなる
+export const ENDURANCE_BAND_CM = 100;
+const ENDURANCE_GRAVITY_RAMP_PER_SEC = 0.1;
+export const TARGET_RACE_CM = 1000;
+
+export const isTimedMode = (mode: GameMode): mode is TimedMode => (TIMED_MODES as GameMode[]).includes(mode);
+
+// スコアが大きいほど良いか（sprint: 深さ cm / endurance: 留まった時間 ms / target: タイム ms）
+const HIGHER_IS_BETTER: Record<TimedMode, boolean> = {
+  sprint: true,
+  endurance: true,
+  target: false,
+};
+
+export const isBetterScore = (mode: TimedMode, score: number, than: number | null): boolean =>
+  than === null || (HIGHER_IS_BETTER[mode] ? score > than : score < than);
+
+/** モードごとのシミュレーションの追加設定 */
+export const timedModeOptions = (mode: TimedMode): Partial<SimulationOptions> =>
+  mode === 'endurance' ? { idleDelayMs: 0, gravityRampPerSec: ENDURANCE_GRAVITY_RAMP_PER_SEC } : {};
+
+/** 判定に使う深さ。スプリットの計測に足して、到達時刻を取れるようにする */
+export const timedModeMilestoneCm = (mode: TimedMode): number | null => {
+  if (mode === 'endurance') return ENDURANCE_BAND_CM;
+  if (mode === 'target') return TARGET_RACE_CM;
+  return null;
+};
+
+/** エンデュランスの引き戻しの倍率（HUD 表示用） */
+export const enduranceGravityAt = (runTimeMs: number): number => 1 + (ENDURANCE_GRAVITY_RAMP_PER_SEC * runTimeMs) / 1000;
+
+const splitTimeAt = (state: SimulationState, distanceCm: number): number | null =>
+  state.splits.find((split) => split.distanceCm === distanceCm)?.timeMs ?? null;
+
+/**
+ * ラン中の状態から、モードの終了条件を満たしたかを判定する。
+ * 終わっていれば { score }（score: null = 記録なし）、続いていれば null。
+ * ターゲットレースのタイムは GO から数えるので、GO から離陸までの待ち時間 startDelayMs を足す
+ */
+export const timedModeOutcome = (
+  mode: TimedMode,
+  state: SimulationState,
+  pxToCm: number,
+  startDelayMs = 0
+): { score: number | null } | null => {
+  switch (mode) {
+    case 'sprint':
+      return state.runTime >= SPRINT_LIMIT_MS ? { score: state.maxDepth * pxToCm } : null;
+    case 'endurance': {
+      const enteredAt = splitTimeAt(state, ENDURANCE_BAND_CM);
+      if (enteredAt === null || state.virtualDepth * pxToCm >= ENDURANCE_BAND_CM) return null;
+      return { score: state.runTime - enteredAt };
+    }
+    case 'target': {
+      const reachedAt = splitTimeAt(state, TARGET_RACE_CM);
+      return reachedAt === null ? null : { score: startDelayMs + reachedAt };
+    }
+  }
+};
+
+/** 終了条件の前に着地したランのスコア（着地直前の状態から） */
+export const timedModeLandedScore = (
+  mode: TimedMode,
+  finished: SimulationState,
+  pxToCm: number,
+  startDelayMs = 0
+): number | null => {
+  switch (mode) {
+    case 'sprint':
+      return finished.maxDepth * pxToCm;
+    case 'endurance': {
+      const enteredAt = splitTimeAt(finished, ENDURANCE_BAND_CM);
+      return enteredAt === null ? null : finished.runTime - enteredAt;
+    }
+    case 'target':
+      return timedModeOutcome(mode, finished, pxToCm, startDelayMs)?.score ?? null;
+  }
+};
+
+// ===== Stored bests =====
+
+// 自己ベストは runModeKey（抵抗・INERTIA/DIRECT・モード）ごと
+export interface ModeBest {
+  modeKey: string;
+  mode: TimedMode;
+  score: number;
+  achievedAt: number; // epoch ms
+}
+
+export const findModeBest = (bests: ModeBest[], modeKey: string): ModeBest | null =>
+  bests.find((best) => best.modeKey === modeKey) ?? null;
+
+/** スコアが自己ベストを更新していれば差し替えた配列を、そうでなければ同じ配列を返す */
+export const recordModeBest = (
+  bests: ModeBest[],
+  modeKey: string,
+  mode: TimedMode,
+  score: number,
+  now: number = Date.now()
+): ModeBest[] => {
+  if (!isBetterScore(mode, score, findModeBest(bests, modeKey)?.score ?? null)) return bests;
+  return [...bests.filter((best) => best.modeKey !== modeKey), { modeKey, mode, score, achievedAt: now }];
+};
+
+/** バックアップのマージ用。同じモードは良い方を残す */
+export const mergeModeBests = (current: ModeBest[], incoming: ModeBest[]): ModeBest[] =>
+  incoming.reduce((merged, best) => recordModeBest(merged, best.modeKey, best.mode, best.score, best.achievedAt), current);
@@ -1,8 +1,7 @@
 export interface GameState {
-  virtualDepth: number;
-  velocity: number;
-  level: number;
-  highScore: number;
+  virtualDepth: number; // px
+  velocity: number; // px/frame
+  highScore: number; // px
 }
 
 export enum ResistanceType {
@@ -14,4 +13,120 @@ export enum ResistanceType {
 export interface SplitRecord {
   distanceCm: number;
   timeMs: number;
-}
\ No newline at end of file
+}
+
+// カウントダウンで始まり、決まった条件で終わるモード
+// sprint = 制限時間内の最高深度、endurance = 深度帯に留まった時間、target = 目標深度までのタイム
+export type TimedMode = 'sprint' | 'endurance' | 'target';
+
+// 遊び方。free = 従来の終わりのないダイブ、daily = 日替わりのルールで目標深度までのタイムを競う
+export type GameMode = 'free' | 'daily' | TimedMode;
+
+export const GAME_MODES: GameMode[] = ['free', 'daily', 'sprint', 'endurance', 'target'];
+
+// シミュレーションエンジンの状態（Reactに依存しない）
+export interface SimulationState extends GameState {
+  running: boolean; // 地面から離れて計測中か
+  runTime: number; // ms
+  maxDepth: number; // px（このランの最高到達点）
+  idleMs: number; // 最後に動いてからの経過時間
+  lastSpeedPxPerSec: number;
+  lastScrollDir: number;
+  scrollCount: number;
+  splits: SplitRecord[];
+  passedMilestones: number[]; // cm
+  totalDistance: number; // m
+  aveSpeed: number; // m/s
+  maxSpeed: number; // m/s
+  maxAccel: number; // m/s^2
+  currentSpeedMps: number; // m/s
+  rngState: number; // GLITCH 用の決定的乱数の内部状態
+  stutterSteps: number; // GLITCH: 入力が固まる残りステップ数
+  glitchFxMs: number; // GLITCH: 演出用の残り時間
+  gravityTouched: boolean; // このランで放置時の重力（引き戻し）が一度でも効いたか
+  gravityFreeDepth: number; // px（重力が効く前に到達した最高点）
+}
+
+// 1ランの主要な記録（称号の判定と自己ベストに使う）
+export interface RunStatSnapshot {
+  depthM: number;
+  maxSpeedMps: number;
+  maxAccelMps2: number;
+  runTimeSec: number;
+  scrollCount: number;
+  depthWithoutGravityM: number;
+}
+
+// 称号を解放したときの記録
+export interface UnlockRecord {
+  key: string;
+  unlockedAt: number; // epoch ms（旧形式から移行したものは 0 = 不明）
+  runTimeMs: number | null; // 解放したランの経過時間
+  mode: string | null; // runModeKey の値
+}
+
+// ランをまたいだ累計
+export interface LifetimeStats {
+  distanceM: number;
+  runCount: number;
+  recentMaxDepthsM: number[]; // 新しい順（連続達成の判定用）
+  best: RunStatSnapshot;
+}
+
+// ラン中の深度の時系列サンプル
+export interface RunSample {
+  t: number; // ms（ラン開始から）
+  depthCm: number;
+}
+
+// ゴースト比較: チェックポイント通過時のタイム差
+export interface GhostDelta {
+  distanceCm: number;
+  deltaMs: number; // 負 = ゴーストより速い
+}
+
+// 入力の妥当性チェックで見つかった不自然さ
+export type IntegrityFlag = 'untrusted' | 'cadence' | 'sustainedSpeed';
+
+// ランの入力が人の操作として自然だったか
+export interface RunIntegrity {
+  verdict: 'verified' | 'suspicious';
+  flags: IntegrityFlag[];
+}
+
+// 完走（地面に戻った）ランの記録
+export interface RunRecord {
+  id: string;
+  finishedAt: number; // epoch ms
+  maxDepthCm: number;
+  runTime: number; // ms
+  splits: SplitRecord[];
+  aveSpeed: number; // m/s
+  maxSpeed: number; // m/s
+  totalDistance: number; // m
+  maxAccel: number; // m/s^2
+  scrollCount: number;
+  resistance: ResistanceType;
+  inertiaEnabled: boolean;
+  pxPerCm: number;
+  calibrated: boolean;
+  pinned: boolean;
+  hasReplay?: boolean;
+  samples?: RunSample[];
+  integrity?: RunIntegrity; // 無い = チェック導入前の記録
+  daily?: string; // デイリーチャレンジの日付キー（通常のランは無し）
+  gameMode?: TimedMode; // 時間制のモードで走ったラン
+  timedScore?: number; // 時間制のモードのスコア（無い = 記録なし）
+}
+
+// UI の表示言語（称号データなどの原文は ja）
+export type Locale = 'ja' | 'en';
+
+// 翻訳を持つデータの訳文。無いフィールドは原文のまま表示する
+export type Translations<T> = Partial<Record<Locale, Partial<T>>>;
+
+// 画面の物理スケール。縦横で画素の大きさが違う画面があるので別々に持つ（深度は縦方向）
+export interface PxPerCm {
+  x: number;
+  y: number;
+}
@@ -1,6 +1,32 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { ACHIEVEMENTS } from './data/achievements';
+import { validateAchievements } from './lib/achievementValidation';
+import { PACK_DIRECTORY, PACK_MANIFEST_FILE, parseAchievementPack, parsePackManifest } from './lib/achievementPacks';
+
+const readPackJson = (file: string): unknown =>
+  JSON.parse(fs.readFileSync(path.resolve(__dirname, 'public', PACK_DIRECTORY, file), 'utf8'));
+
+// 称号データと public/packs の称号パックに問題があればビルドを止める（実行時には例外を投げない）
+const validateAchievementsPlugin = (): Plugin => ({
+  name: 'validate-achievements',
+  buildStart() {
+    const issues = validateAchievements(ACHIEVEMENTS);
+    if (issues.length > 0) {
+      this.error(`Invalid achievement data:\n${issues.map((issue) => `  - ${issue.message}`).join('\n')}`);
+    }
+    try {
+      parsePackManifest(readPackJson(PACK_MANIFEST_FILE)).forEach((entry) => {
+        const pack = parseAchievementPack(readPackJson(entry.file));
+        if (pack.id !== entry.id) throw new Error(`${entry.file} has id "${pack.id}", expected "${entry.id}"`);
+      });
+    } catch (e) {
+      this.error(`Invalid achievement pack: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  },
+});
 
 export default defineConfig(() => {
   return {
@@ -9,7 +35,7 @@ export default defineConfig(() => {
       port: 3000,
       host: '0.0.0.0',
     },
-    plugins: [react()],
+    plugins: [react(), validateAchievementsPlugin()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),